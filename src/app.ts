@@ -17,10 +17,15 @@ import reportRoutes from './routes/reportRoutes';
 import tutorLeadRoutes from './routes/tutorLeadRoutes';
 import tutorLeadAuthRoutes from './routes/tutorLeadAuthRoutes';
 import tutorLeadDocumentRoutes from './routes/tutorLeadDocumentRoutes';
+import tutorApplicationRoutes from './routes/tutorApplicationRoutes';
+import tutorPayoutRoutes from './routes/tutorPayoutRoutes';
 import adminRoutes from './routes/adminRoutes';
 import managerRoutes from './routes/managerRoutes';
 import coordinatorRoutes from './routes/coordinatorRoutes';
 import studentRoutes from './routes/studentRoutes';
+import publicRoutes from './routes/publicRoutes';
+import invoiceRoutes from './routes/invoiceRoutes';
+import parentRoutes from './routes/parentRoutes';
 import passport from 'passport';
 import { initializePassport } from './config/passport';
 import swaggerUi from 'swagger-ui-express';
@@ -32,6 +37,12 @@ dotenv.config();
 
 const app = express();
 
+// Behind a load balancer req.ip must come from X-Forwarded-For for per-IP rate limits
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set('trust proxy', Number.isInteger(hops) ? hops : process.env.TRUST_PROXY);
+}
+
 // Security headers
 app.use(helmet());
 
@@ -114,6 +125,11 @@ app.use(`/api/${apiVersion}/student`, studentRoutes);
 app.use(`/api/${apiVersion}/tutor-leads`, tutorLeadRoutes);
 app.use(`/api/${apiVersion}/tutor-lead-auth`, tutorLeadAuthRoutes);
 app.use(`/api/${apiVersion}/tutor-lead-docs`, tutorLeadDocumentRoutes);
+app.use(`/api/${apiVersion}/tutor-applications`, tutorApplicationRoutes);
+app.use(`/api/${apiVersion}/tutor-payouts`, tutorPayoutRoutes);
+app.use(`/api/${apiVersion}/public`, publicRoutes);
+app.use(`/api/${apiVersion}/invoices`, invoiceRoutes);
+app.use(`/api/${apiVersion}/parent`, parentRoutes);
 
 // 404 handler
 app.use(notFoundHandler);
@@ -1,9 +1,12 @@
-import mongoose from 'mongoose';
+import { AsyncLocalStorage } from 'async_hooks';
+import mongoose, { ClientSession } from 'mongoose';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
 mongoose.set('strictQuery', false);
+// Queries inside connection.transaction() pick up its session without passing it around
+mongoose.set('transactionAsyncLocalStorage', true);
 
 const DEFAULT_MAX_RETRIES = 5;
 const BASE_DELAY_MS = 5000; // 5 seconds
@@ -56,7 +59,25 @@ async function disconnectDB(): Promise<void> {
   }
 }
 
-export { disconnectDB };
+// Set up by the transactionAsyncLocalStorage option above, but missing from Mongoose's types
+interface TransactionStorage {
+  transactionAsyncLocalStorage?: AsyncLocalStorage<{ session?: ClientSession }>;
+}
+
+/**
+ * Run fn in a transaction, or as part of the one already in progress.
+ * connection.transaction() does not nest, and conversion issues and pays its
+ * first invoice inside its own transaction.
+ */
+async function withTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  const { transactionAsyncLocalStorage } = mongoose as unknown as TransactionStorage;
+  if (transactionAsyncLocalStorage?.getStore()?.session) {
+    return fn();
+  }
+  return mongoose.connection.transaction(() => fn());
+}
+
+export { disconnectDB, withTransaction };
 export default connectDB;
 
 
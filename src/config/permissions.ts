@@ -10,6 +10,7 @@ export const ROLE_HIERARCHY: Record<UserRole, number> = {
   [UserRole.TEACHER]: 3,
   [UserRole.COORDINATOR]: 3,
   [UserRole.STUDENT]: 1,
+  [UserRole.PARENT]: 1,
 };
 
 export type ResourcePermission = 'create' | 'read' | 'update' | 'delete';
@@ -25,6 +26,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
   [UserRole.TEACHER]: ['courses:read', 'courses:update', 'attendance:create', 'attendance:update', 'assignments:*', 'grades:*'],
   [UserRole.COORDINATOR]: ['courses:read', 'attendance:*', 'schedules:*', 'students:read'],
   [UserRole.STUDENT]: ['courses:read', 'assignments:read', 'assignments:create', 'grades:read', 'attendance:read'],
+  [UserRole.PARENT]: ['attendance:read', 'grades:read'],
 };
 
 export function getRoleLevel(role: UserRole): number {
@@ -1155,14 +1155,38 @@ const swaggerDefinition = {
       name: 'Student',
       description: 'Student portal endpoints (Student only)',
     },
+    {
+      name: 'Parent',
+      description: "Parent portal endpoints for the parent's own classes (Parent only)",
+    },
     {
       name: 'Leads',
       description: 'Lead management endpoints',
     },
+    {
+      name: 'TutorLeadAuth',
+      description: 'Sign-in, tokens and passwords for tutor applicants',
+    },
+    {
+      name: 'TutorApplications',
+      description: 'Review and verification of tutor applications (Admin, Manager)',
+    },
+    {
+      name: 'TutorPayouts',
+      description: 'Tutor payouts from approved attendance, adjustments, payments and statements',
+    },
     {
       name: 'FinalClass',
       description: 'Final class management endpoints',
     },
+    {
+      name: 'Invoices',
+      description: 'Invoices for leads and monthly class cycles',
+    },
+    {
+      name: 'Public',
+      description: 'Unauthenticated endpoints used by the public website',
+    },
   ],
 };
 
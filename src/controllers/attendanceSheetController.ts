@@ -0,0 +1,92 @@
+import { NextFunction, Request, Response } from 'express';
+import { AttendanceSheetStatus } from '../models/FinalClass';
+import {
+  createAttendanceApprovalLink,
+  getAttendanceForParentReview,
+  listAttendanceSheets as listAttendanceSheetRecords,
+  lockAttendanceSheet,
+  logSession as logSessionRecord,
+  resolveAttendanceApprovalToken,
+  reviewAttendanceSheet,
+} from '../services/attendanceSheetService';
+
+export async function logSession(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { date, present, durationMinutes, notes } = req.body;
+    const sheet = await logSessionRecord({
+      finalClassId: req.params.id,
+      tutorId: (req as any).user._id.toString(),
+      date: new Date(date),
+      present,
+      durationMinutes,
+      notes,
+    });
+    return res.status(200).json({ success: true, message: 'Session logged', data: { sheet } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listAttendanceSheets(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sheets = await listAttendanceSheetRecords(req.params.id);
+    return res.status(200).json({ success: true, data: { sheets, count: sheets.length } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function createApprovalLink(req: Request, res: Response, next: NextFunction) {
+  try {
+    const link = await createAttendanceApprovalLink(req.params.id, req.params.sheetId);
+    return res.status(201).json({ success: true, data: link });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function lockSheet(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sheet = await lockAttendanceSheet(
+      req.params.id,
+      req.params.sheetId,
+      (req as any).user._id.toString()
+    );
+    return res.status(200).json({ success: true, message: 'Attendance locked', data: { sheet } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getAttendanceForApproval(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { finalClassId, sheetId, nonce } = resolveAttendanceApprovalToken(req.params.token);
+    const attendance = await getAttendanceForParentReview(finalClassId, sheetId, nonce);
+    return res.status(200).json({ success: true, data: { attendance } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function reviewAttendance(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { finalClassId, sheetId, nonce } = resolveAttendanceApprovalToken(req.params.token);
+    const sheet = await reviewAttendanceSheet({
+      finalClassId,
+      sheetId,
+      decision: req.body.decision,
+      comment: req.body.comment,
+      approvalNonce: nonce,
+    });
+    return res.status(200).json({
+      success: true,
+      message:
+        sheet.status === AttendanceSheetStatus.APPROVED
+          ? 'Thank you, attendance approved'
+          : 'Thank you, we will look into it',
+      data: { status: sheet.status },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -1,30 +1,182 @@
 import { NextFunction, Request, Response } from 'express';
-import { convertLeadToFinalClass } from '../services/finalClassService';
+import { ClassStatus } from '../models/FinalClass';
+import { ILead } from '../models/Lead';
+import {
+  assignFinalClassTutor,
+  changeFinalClassStatus,
+  convertLeadToFinalClass,
+  getFinalClass as getFinalClassRecord,
+  listFinalClasses as listFinalClassRecords,
+  reassignFinalClassTutor,
+  updateFinalClass as updateFinalClassRecord,
+} from '../services/finalClassService';
+import { getLeadAccessScope, presentLead } from '../services/leadAccessService';
+import { recordRenewalPayment } from '../services/renewalService';
+import { AuthorizationError } from '../utils/errors';
 
 export async function convertLead(req: Request, res: Response, next: NextFunction) {
   try {
-    const { leadId, cityCode, tutorAssigned, tutorTier, firstMonthStartDate, monthStartDate } = req.body as {
-      leadId: string;
-      cityCode: string;
-      tutorAssigned?: string;
-      tutorTier?: string;
-      firstMonthStartDate?: string;
-      monthStartDate?: string;
-    };
-
-    const finalClass = await convertLeadToFinalClass({
-      leadId,
-      cityCode,
-      tutorAssigned,
+    const { finalClass, lead, student, parent, invoice } = await convertLeadToFinalClass({
+      leadId: req.body.leadId,
+      cityCode: req.body.cityCode,
+      tutorAssigned: req.body.tutorAssigned,
+      tutorTier: req.body.tutorTier,
+      firstMonthStartDate: req.body.firstMonthStartDate,
+      monthStartDate: req.body.monthStartDate,
+      student: req.body.student,
+      parent: req.body.parent,
+      invoice: req.body.invoice,
+      convertedBy: (req as any).user._id.toString(),
+    });
+
+    return res.status(201).json({
+      success: true,
+      message: 'Lead converted to final class',
+      data: {
+        finalClass,
+        lead: presentLead(lead, (req as any).user),
+        student,
+        parent,
+        invoice,
+      },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listFinalClasses(req: Request, res: Response, next: NextFunction) {
+  try {
+    const q = req.query as Record<string, any>;
+    const scope = getLeadAccessScope((req as any).user);
+    if (!scope) throw new AuthorizationError();
+
+    const result = await listFinalClassRecords(
+      {
+        classStatus: q.classStatus as ClassStatus | undefined,
+        tutorAssigned: q.tutorAssigned,
+        leadId: q.leadId,
+        cityCode: q.cityCode,
+        renewalFrom: q.renewalFrom ? new Date(q.renewalFrom) : undefined,
+        renewalTo: q.renewalTo ? new Date(q.renewalTo) : undefined,
+        renewsWithinDays: q.renewsWithinDays !== undefined ? Number(q.renewsWithinDays) : undefined,
+      },
+      {
+        page: q.page ? Number(q.page) : undefined,
+        limit: q.limit ? Number(q.limit) : undefined,
+        scope,
+      }
+    );
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getFinalClass(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await getFinalClassRecord(req.params.id);
+    const json = finalClass.toJSON() as Record<string, any>;
+    if (finalClass.populated('lead') && finalClass.lead) {
+      json.lead = presentLead(finalClass.lead as unknown as ILead, (req as any).user);
+    }
+    return res.status(200).json({ success: true, data: { finalClass: json } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateFinalClass(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { tutorTier, firstMonthStartDate, monthStartDate, monthRenewDate, testDate, testTutorAssigned } =
+      req.body;
+    const finalClass = await updateFinalClassRecord(req.params.id, {
       tutorTier,
       firstMonthStartDate: firstMonthStartDate ? new Date(firstMonthStartDate) : undefined,
       monthStartDate: monthStartDate ? new Date(monthStartDate) : undefined,
+      monthRenewDate: monthRenewDate ? new Date(monthRenewDate) : undefined,
+      testDate: testDate ? new Date(testDate) : undefined,
+      testTutorAssigned,
+    });
+    return res.status(200).json({ success: true, message: 'Final class updated', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function assignTutor(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await assignFinalClassTutor({
+      finalClassId: req.params.id,
+      tutorId: req.body.tutorId,
+      tutorTier: req.body.tutorTier,
+      assignedBy: (req as any).user._id.toString(),
     });
+    return res.status(200).json({ success: true, message: 'Tutor assigned', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
 
-    return res.status(201).json({ success: true, message: 'Lead converted to final class', data: { finalClass } });
+export async function reassignTutor(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await reassignFinalClassTutor({
+      finalClassId: req.params.id,
+      tutorId: req.body.tutorId,
+      reason: req.body.reason,
+      reasonNotes: req.body.reasonNotes,
+      effectiveDate: req.body.effectiveDate,
+      handoverNotes: req.body.handoverNotes,
+      tutorTier: req.body.tutorTier,
+      changedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Tutor reassigned', data: { finalClass } });
   } catch (error) {
     return next(error);
   }
 }
 
+export async function activateFinalClass(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await changeFinalClassStatus({
+      finalClassId: req.params.id,
+      status: ClassStatus.ACTIVE,
+      reason: req.body.reason,
+      changedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Final class activated', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
 
+export async function deactivateFinalClass(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await changeFinalClassStatus({
+      finalClassId: req.params.id,
+      status: ClassStatus.INACTIVE,
+      reason: req.body.reason,
+      changedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Final class deactivated', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function recordRenewal(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { amount, paymentMode, paymentReference, paidAt } = req.body;
+    const finalClass = await recordRenewalPayment({
+      finalClassId: req.params.id,
+      amount: Number(amount),
+      paymentMode,
+      paymentReference,
+      paidAt: paidAt ? new Date(paidAt) : undefined,
+      recordedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Renewal recorded', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
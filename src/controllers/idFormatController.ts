@@ -0,0 +1,37 @@
+import { NextFunction, Request, Response } from 'express';
+import { updateIdFormats } from '../services/idFormatService';
+import { getIdFormats, IdKind, previewId } from '../utils/idAllocator';
+
+export async function getFormats(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const formats = await getIdFormats();
+    return res.status(200).json({ success: true, data: { formats } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateFormats(req: Request, res: Response, next: NextFunction) {
+  try {
+    const updatedBy = (req as any).user._id.toString();
+    const changes = Object.fromEntries(
+      Object.values(IdKind)
+        .filter((kind) => req.body[kind] !== undefined)
+        .map((kind) => [kind, req.body[kind]])
+    );
+    const formats = await updateIdFormats(changes, updatedBy);
+    return res.status(200).json({ success: true, message: 'ID formats updated', data: { formats } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function previewNextId(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { kind, cityCode, city, gender, format } = req.query as Record<string, string | undefined>;
+    const preview = await previewId(kind as IdKind, { cityCode, city, gender }, format);
+    return res.status(200).json({ success: true, data: { preview } });
+  } catch (error) {
+    return next(error);
+  }
+}
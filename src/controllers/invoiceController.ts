@@ -0,0 +1,164 @@
+import { NextFunction, Request, Response } from 'express';
+import { InvoiceStatus } from '../models/Invoice';
+import {
+  createInvoice as createInvoiceRecord,
+  getInvoice as getInvoiceRecord,
+  issueInvoice as issueInvoiceRecord,
+  listInvoices as listInvoiceRecords,
+  markInvoicePaid,
+  renderInvoiceHtml,
+  renderInvoicePdf,
+  updateDraftInvoice,
+  voidInvoice as voidInvoiceRecord,
+} from '../services/invoiceService';
+import { getLeadAccessScope } from '../services/leadAccessService';
+import { AuthorizationError } from '../utils/errors';
+
+export async function createInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const {
+      leadId,
+      finalClassId,
+      cityCode,
+      periodStart,
+      lineItems,
+      gstRate,
+      interState,
+      customerGstin,
+      notes,
+    } = req.body;
+    const invoice = await createInvoiceRecord({
+      leadId,
+      finalClassId,
+      cityCode,
+      periodStart: periodStart ? new Date(periodStart) : undefined,
+      lineItems,
+      gstRate,
+      interState,
+      customerGstin,
+      notes,
+      createdBy: (req as any).user._id.toString(),
+    });
+    return res.status(201).json({ success: true, message: 'Invoice drafted', data: { invoice } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listInvoices(req: Request, res: Response, next: NextFunction) {
+  try {
+    const q = req.query as Record<string, any>;
+    const scope = getLeadAccessScope((req as any).user);
+    if (!scope) throw new AuthorizationError();
+
+    const result = await listInvoiceRecords(
+      {
+        status: q.status as InvoiceStatus | undefined,
+        leadId: q.leadId,
+        finalClassId: q.finalClassId,
+        cityCode: q.cityCode,
+        issuedFrom: q.issuedFrom ? new Date(q.issuedFrom) : undefined,
+        issuedTo: q.issuedTo ? new Date(q.issuedTo) : undefined,
+      },
+      {
+        page: q.page ? Number(q.page) : undefined,
+        limit: q.limit ? Number(q.limit) : undefined,
+        scope,
+      }
+    );
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const invoice = await getInvoiceRecord(req.params.id);
+    return res.status(200).json({ success: true, data: { invoice } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { lineItems, gstRate, interState, customerGstin, notes } = req.body;
+    const invoice = await updateDraftInvoice(req.params.id, {
+      lineItems,
+      gstRate,
+      interState,
+      customerGstin,
+      notes,
+    });
+    return res.status(200).json({ success: true, message: 'Invoice updated', data: { invoice } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function issueInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { dueDate } = req.body;
+    const invoice = await issueInvoiceRecord(
+      req.params.id,
+      (req as any).user._id.toString(),
+      dueDate ? new Date(dueDate) : undefined
+    );
+    return res
+      .status(200)
+      .json({
+        success: true,
+        message: `Invoice ${invoice.invoiceNumber} issued`,
+        data: { invoice },
+      });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function payInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { paymentMode, paymentReference, paidAt } = req.body;
+    const invoice = await markInvoicePaid({
+      invoiceId: req.params.id,
+      paymentMode,
+      paymentReference,
+      paidAt: paidAt ? new Date(paidAt) : undefined,
+      recordedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Payment recorded', data: { invoice } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function voidInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const invoice = await voidInvoiceRecord(
+      req.params.id,
+      (req as any).user._id.toString(),
+      req.body.reason
+    );
+    return res.status(200).json({ success: true, message: 'Invoice voided', data: { invoice } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function renderInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const invoice = await getInvoiceRecord(req.params.id);
+    const filename = (invoice.invoiceNumber || `draft-${String(invoice._id)}`).replace(/\//g, '-');
+
+    if ((req.query as any).format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+      return res.status(200).send(renderInvoicePdf(invoice));
+    }
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    return res.status(200).send(renderInvoiceHtml(invoice));
+  } catch (error) {
+    return next(error);
+  }
+}
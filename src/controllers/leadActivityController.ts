@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from 'express';
+import { LeadActivityType } from '../models/LeadActivity';
+import { addLeadActivity, listLeadActivities } from '../services/leadActivityService';
+
+export async function createLeadActivity(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { type, content, call, payment, demoFeedback, occurredAt } = req.body;
+    const authorId = (req as any).user._id.toString();
+
+    const activity = await addLeadActivity({
+      leadId: id,
+      type,
+      authorId,
+      content,
+      call,
+      payment,
+      demoFeedback,
+      occurredAt: occurredAt ? new Date(occurredAt) : undefined,
+    });
+    return res.status(201).json({ success: true, message: 'Activity logged', data: { activity } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getLeadActivities(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { type, author, page, limit } = req.query as Record<string, string | undefined>;
+
+    const result = await listLeadActivities(id, {
+      type: type as LeadActivityType | undefined,
+      authorId: author,
+      page: page ? Number(page) : undefined,
+      limit: limit ? Number(limit) : undefined,
+    });
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
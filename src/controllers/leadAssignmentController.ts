@@ -0,0 +1,59 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  getLeadAssignmentConfig,
+  getLeadAssignmentHistory,
+  reassignLead as reassignLeadRecord,
+  updateLeadAssignmentConfig,
+} from '../services/leadAssignmentService';
+import { presentLead } from '../services/leadAccessService';
+
+export async function reassignLead(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { assigneeId, note } = req.body as { assigneeId: string; note?: string };
+    const changedBy = (req as any).user._id.toString();
+
+    const lead = await reassignLeadRecord({ leadId: id, assigneeId, changedBy, note });
+    return res.status(200).json({
+      success: true,
+      message: 'Lead reassigned',
+      data: { lead: presentLead(lead, (req as any).user) },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getLeadAssignments(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const assignmentHistory = await getLeadAssignmentHistory(id);
+    return res.status(200).json({ success: true, data: { assignmentHistory } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getAssignmentRules(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const config = await getLeadAssignmentConfig();
+    return res.status(200).json({ success: true, data: { config } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateAssignmentRules(req: Request, res: Response, next: NextFunction) {
+  try {
+    const updatedBy = (req as any).user._id.toString();
+    const config = await updateLeadAssignmentConfig(
+      { enabled: req.body.enabled, balanceBy: req.body.balanceBy, rules: req.body.rules },
+      updatedBy
+    );
+    return res
+      .status(200)
+      .json({ success: true, message: 'Assignment rules updated', data: { config } });
+  } catch (error) {
+    return next(error);
+  }
+}
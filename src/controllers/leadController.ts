@@ -1,19 +1,75 @@
 import { NextFunction, Request, Response } from 'express';
-import Lead from '../models/Lead';
+import Lead, { LeadStatus } from '../models/Lead';
+import {
+  changeLeadStatus,
+  createLead as createLeadRecord,
+  findDuplicatesOfLead,
+  LeadListFilters,
+  listLeads as listLeadRecords,
+  mergeLeads,
+} from '../services/leadService';
+import { generateLeadsCsv, importLeadsFromCsv } from '../services/leadCsvService';
+import { findTutorMatches } from '../services/tutorMatchingService';
+import {
+  getLeadAccessScope,
+  presentDuplicateMatches,
+  presentLead,
+} from '../services/leadAccessService';
+import { AuthorizationError } from '../utils/errors';
 
 export async function createLead(req: Request, res: Response, next: NextFunction) {
   try {
-    const lead = await Lead.create(req.body);
-    return res.status(201).json({ success: true, message: 'Lead created', data: { lead } });
+    const user = (req as any).user;
+    const createdBy = user?._id?.toString();
+    const { lead, duplicates } = await createLeadRecord({
+      data: req.body,
+      createdBy,
+      creatorRole: user?.role,
+    });
+    const message = duplicates.length > 0 ? 'Lead created (possible duplicates found)' : 'Lead created';
+    return res.status(201).json({
+      success: true,
+      message,
+      data: { lead: presentLead(lead, user), duplicates: presentDuplicateMatches(duplicates, user) },
+    });
   } catch (error) {
     return next(error);
   }
 }
 
-export async function listLeads(_req: Request, res: Response, next: NextFunction) {
+function parseLeadFilters(q: Record<string, any>): LeadListFilters {
+  return {
+    leadStatus: q.leadStatus,
+    leadSource: q.leadSource,
+    preferredTuitionMode: q.preferredTuitionMode,
+    subject: q.subject,
+    classLevel: q.classLevel,
+    board: q.board,
+    leadAssignedTo: q.leadAssignedTo,
+    isConverted: q.isConverted === undefined ? undefined : q.isConverted === true || q.isConverted === 'true',
+    createdFrom: q.createdFrom ? new Date(q.createdFrom) : undefined,
+    createdTo: q.createdTo ? new Date(q.createdTo) : undefined,
+    search: q.search,
+  };
+}
+
+export async function listLeads(req: Request, res: Response, next: NextFunction) {
   try {
-    const leads = await Lead.find().sort({ createdAt: -1 });
-    return res.status(200).json({ success: true, data: { leads } });
+    const q = req.query as Record<string, any>;
+    const user = (req as any).user;
+    const scope = getLeadAccessScope(user);
+    if (!scope) throw new AuthorizationError();
+
+    const result = await listLeadRecords(parseLeadFilters(q), {
+      page: q.page ? Number(q.page) : undefined,
+      limit: q.limit ? Number(q.limit) : undefined,
+      cursor: q.cursor,
+      scope,
+    });
+    return res.status(200).json({
+      success: true,
+      data: { ...result, leads: result.leads.map((lead) => presentLead(lead, user)) },
+    });
   } catch (error) {
     return next(error);
   }
@@ -26,11 +82,112 @@ export async function getLead(req: Request, res: Response, next: NextFunction) {
     if (!lead) {
       return res.status(404).json({ success: false, message: 'Lead not found' });
     }
-    return res.status(200).json({ success: true, data: { lead } });
+    return res.status(200).json({ success: true, data: { lead: presentLead(lead, (req as any).user) } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateLeadStatus(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { status, note } = req.body as { status: LeadStatus; note?: string };
+    const changedBy = (req as any).user?._id?.toString();
+
+    const lead = await changeLeadStatus({ leadId: id, status, note, changedBy });
+    return res.status(200).json({
+      success: true,
+      message: 'Lead status updated',
+      data: { lead: presentLead(lead, (req as any).user) },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getLeadDuplicates(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const duplicates = presentDuplicateMatches(await findDuplicatesOfLead(id), (req as any).user);
+    return res.status(200).json({ success: true, data: { duplicates, count: duplicates.length } });
   } catch (error) {
     return next(error);
   }
 }
 
+export async function mergeLead(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { duplicateLeadId } = req.body as { duplicateLeadId: string };
+    const mergedBy = (req as any).user._id.toString();
 
+    const lead = await mergeLeads({ primaryLeadId: id, duplicateLeadId, mergedBy });
+    return res.status(200).json({ success: true, message: 'Leads merged', data: { lead } });
+  } catch (error) {
+    return next(error);
+  }
+}
 
+export async function importLeads(req: Request, res: Response, next: NextFunction) {
+  try {
+    const file = (req as any).file as Express.Multer.File | undefined;
+    if (!file) {
+      return res.status(400).json({ success: false, message: 'CSV file is required (field: file)' });
+    }
+    const dryRun = (req.query as any).dryRun === true || (req.query as any).dryRun === 'true';
+    const user = (req as any).user;
+    const importedBy = user._id.toString();
+
+    const result = await importLeadsFromCsv({
+      csv: file.buffer.toString('utf8'),
+      dryRun,
+      importedBy,
+      importerRole: user.role,
+    });
+    result.rows.forEach((row) => {
+      if (row.duplicates) row.duplicates = presentDuplicateMatches(row.duplicates, user);
+    });
+    const message = dryRun
+      ? `Dry run: ${result.valid} valid, ${result.invalid} invalid`
+      : `Imported ${result.created} leads (${result.invalid} invalid, ${result.failed} failed)`;
+    return res.status(dryRun ? 200 : 201).json({ success: true, message, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function exportLeads(req: Request, res: Response, next: NextFunction) {
+  try {
+    const filters = parseLeadFilters(req.query as Record<string, any>);
+    const filename = `leads-${new Date().toISOString().slice(0, 10)}.csv`;
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    for await (const chunk of generateLeadsCsv(filters, (req as any).user)) {
+      res.write(chunk);
+    }
+    return res.end();
+  } catch (error) {
+    // Once streaming has started we can only abort so the download fails visibly
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return undefined;
+    }
+    return next(error);
+  }
+}
+
+export async function getTutorMatches(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const q = req.query as Record<string, any>;
+    const matches = await findTutorMatches(id, {
+      limit: q.limit ? Number(q.limit) : undefined,
+      minScore: q.minScore ? Number(q.minScore) : undefined,
+      includeApplications: q.includeApplications,
+    });
+    return res.status(200).json({ success: true, data: { matches, count: matches.length } });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -0,0 +1,99 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  cancelDemo as cancelDemoRecord,
+  DEFAULT_DEMO_DURATION_MINUTES,
+  findTutorConflicts,
+  getTutorUpcomingDemos,
+  listLeadDemos,
+  recordDemoOutcome as recordDemoOutcomeRecord,
+  scheduleDemo as scheduleDemoRecord,
+} from '../services/leadDemoService';
+
+export async function scheduleDemo(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { tutorId, scheduledAt, durationMinutes, mode, notes } = req.body;
+    const scheduledBy = (req as any).user._id.toString();
+
+    const demo = await scheduleDemoRecord({
+      leadId: id,
+      tutorId,
+      scheduledAt: new Date(scheduledAt),
+      durationMinutes,
+      mode,
+      notes,
+      scheduledBy,
+    });
+    return res.status(201).json({ success: true, message: 'Demo scheduled', data: { demo } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getLeadDemos(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const demos = await listLeadDemos(id);
+    return res.status(200).json({ success: true, data: { demos, count: demos.length } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function checkTutorAvailability(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { tutorId, scheduledAt, durationMinutes } = req.query as Record<string, string>;
+    const start = new Date(scheduledAt);
+    const minutes = durationMinutes ? Number(durationMinutes) : DEFAULT_DEMO_DURATION_MINUTES;
+    const end = new Date(start.getTime() + minutes * 60 * 1000);
+
+    const conflicts = await findTutorConflicts(tutorId, start, end);
+    return res
+      .status(200)
+      .json({ success: true, data: { available: conflicts.length === 0, conflicts } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getMyDemos(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tutorId = (req as any).user._id.toString();
+    const demos = await getTutorUpcomingDemos(tutorId);
+    return res.status(200).json({ success: true, data: { demos, count: demos.length } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function recordDemoOutcome(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { demoId } = req.params as { demoId: string };
+    const { outcome, parentFeedback, parentRating } = req.body;
+    const recordedBy = (req as any).user._id.toString();
+
+    const demo = await recordDemoOutcomeRecord({
+      demoId,
+      outcome,
+      parentFeedback,
+      parentRating,
+      recordedBy,
+    });
+    return res
+      .status(200)
+      .json({ success: true, message: 'Demo outcome recorded', data: { demo } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function cancelDemo(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { demoId } = req.params as { demoId: string };
+    const cancelledBy = (req as any).user._id.toString();
+    const demo = await cancelDemoRecord({ demoId, reason: req.body.reason, cancelledBy });
+    return res.status(200).json({ success: true, message: 'Demo cancelled', data: { demo } });
+  } catch (error) {
+    return next(error);
+  }
+}
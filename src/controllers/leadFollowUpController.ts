@@ -0,0 +1,85 @@
+import { NextFunction, Request, Response } from 'express';
+import { FollowUpOutcome, FollowUpStatus } from '../models/LeadFollowUp';
+import {
+  completeFollowUp,
+  createFollowUp,
+  getMyFollowUps,
+  listLeadFollowUps,
+  MyFollowUpsWindow,
+} from '../services/leadFollowUpService';
+
+export async function createLeadFollowUp(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { dueAt, assignedTo, purpose } = req.body as {
+      dueAt: string;
+      assignedTo?: string;
+      purpose?: string;
+    };
+    const createdBy = (req as any).user._id.toString();
+
+    const followUp = await createFollowUp({
+      leadId: id,
+      dueAt: new Date(dueAt),
+      assignedTo,
+      purpose,
+      createdBy,
+    });
+    return res
+      .status(201)
+      .json({ success: true, message: 'Follow-up scheduled', data: { followUp } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getLeadFollowUps(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { id } = req.params as { id: string };
+    const { status } = req.query as { status?: FollowUpStatus };
+    const followUps = await listLeadFollowUps(id, status);
+    return res.status(200).json({ success: true, data: { followUps, count: followUps.length } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getMyLeadFollowUps(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user._id.toString();
+    const window = ((req.query as any).window || 'today') as MyFollowUpsWindow;
+    const followUps = await getMyFollowUps(userId, window);
+    return res
+      .status(200)
+      .json({ success: true, data: { window, followUps, count: followUps.length } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function completeLeadFollowUp(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { followUpId } = req.params as { followUpId: string };
+    const { outcome, outcomeNote, nextAction, nextDueAt } = req.body as {
+      outcome: FollowUpOutcome;
+      outcomeNote?: string;
+      nextAction?: string;
+      nextDueAt?: string;
+    };
+    const completedBy = (req as any).user._id.toString();
+
+    const followUp = await completeFollowUp({
+      followUpId,
+      outcome,
+      outcomeNote,
+      nextAction,
+      nextDueAt: nextDueAt ? new Date(nextDueAt) : undefined,
+      completedBy,
+    });
+    return res
+      .status(200)
+      .json({ success: true, message: 'Follow-up completed', data: { followUp } });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -0,0 +1,134 @@
+import { NextFunction, Request, Response } from 'express';
+import { AttendanceSheetStatus } from '../models/FinalClass';
+import { presentSheetForParent, reviewAttendanceSheet } from '../services/attendanceSheetService';
+import { renderInvoiceHtml, renderInvoicePdf } from '../services/invoiceService';
+import {
+  getParentClass,
+  getParentInvoice,
+  linkParentToClass,
+  listConcerns,
+  listParentAttendance,
+  listParentClasses,
+  listParentInvoices,
+  listParentTestReports,
+  raiseConcern as raiseConcernRecord,
+} from '../services/parentService';
+
+export async function listClasses(req: Request, res: Response, next: NextFunction) {
+  try {
+    const classes = await listParentClasses((req as any).user._id.toString());
+    return res.status(200).json({ success: true, data: { classes } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getClass(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await getParentClass(req.params.id);
+    return res.status(200).json({ success: true, data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listAttendance(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sheets = await listParentAttendance(req.params.id);
+    return res.status(200).json({ success: true, data: { sheets } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function reviewAttendance(req: Request, res: Response, next: NextFunction) {
+  try {
+    const sheet = await reviewAttendanceSheet({
+      finalClassId: req.params.id,
+      sheetId: req.params.sheetId,
+      decision: req.body.decision,
+      comment: req.body.comment,
+    });
+    return res.status(200).json({
+      success: true,
+      message:
+        sheet.status === AttendanceSheetStatus.APPROVED
+          ? 'Attendance approved'
+          : 'Attendance disputed, we will look into it',
+      data: { sheet: presentSheetForParent(sheet) },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listTestReports(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await listParentTestReports(req.params.id);
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listInvoices(req: Request, res: Response, next: NextFunction) {
+  try {
+    const invoices = await listParentInvoices((req as any).user._id.toString());
+    return res.status(200).json({ success: true, data: { invoices } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function renderInvoice(req: Request, res: Response, next: NextFunction) {
+  try {
+    const invoice = await getParentInvoice((req as any).user._id.toString(), req.params.id);
+    const filename = (invoice.invoiceNumber || String(invoice._id)).replace(/\//g, '-');
+
+    if ((req.query as any).format === 'pdf') {
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${filename}.pdf"`);
+      return res.status(200).send(renderInvoicePdf(invoice));
+    }
+    res.setHeader('Content-Type', 'text/html; charset=utf-8');
+    return res.status(200).send(renderInvoiceHtml(invoice));
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function raiseConcern(req: Request, res: Response, next: NextFunction) {
+  try {
+    const concern = await raiseConcernRecord({
+      finalClassId: req.params.id,
+      parentId: (req as any).user._id.toString(),
+      subject: req.body.subject,
+      message: req.body.message,
+    });
+    return res.status(201).json({
+      success: true,
+      message: 'Concern sent to your coordinator',
+      data: { concern },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listClassConcerns(req: Request, res: Response, next: NextFunction) {
+  try {
+    const concerns = await listConcerns(req.params.id);
+    return res.status(200).json({ success: true, data: { concerns } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function linkParent(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await linkParentToClass(req.params.id, req.body.parentId);
+    return res.status(200).json({ success: true, message: 'Parent linked to class', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
@@ -0,0 +1,14 @@
+import { NextFunction, Request, Response } from 'express';
+import { submitPublicEnquiry } from '../services/publicEnquiryService';
+import { ENQUIRY_ACCEPTED_MESSAGE } from '../validators/publicEnquiryValidator';
+
+export async function createPublicEnquiry(req: Request, res: Response, next: NextFunction) {
+  try {
+    await submitPublicEnquiry(req.body);
+    // New and repeat enquiries get the same answer so the form cannot be used
+    // to probe which phone numbers are already on file
+    return res.status(202).json({ success: true, message: ENQUIRY_ACCEPTED_MESSAGE });
+  } catch (error) {
+    return next(error);
+  }
+}
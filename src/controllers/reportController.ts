@@ -6,9 +6,28 @@ import {
   getAttendanceStatisticsReport,
   getCourseAnalyticsReport,
   getClassPerformanceReport,
+  getLeadFunnelReport,
 } from '../services/reportService';
 import { UserRole } from '../types/enums';
 
+export async function getLeadFunnel(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { startDate, endDate, leadSource, coordinatorId, city } = req.query;
+
+    const report = await getLeadFunnelReport({
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      leadSource: leadSource as any,
+      coordinatorId: coordinatorId as string | undefined,
+      city: city as string | undefined,
+    });
+
+    res.status(200).json({ success: true, data: { report } });
+  } catch (error: any) {
+    next(error);
+  }
+}
+
 export async function getStudentPerformance(req: Request, res: Response, next: NextFunction) {
   try {
     const { id } = req.params;
@@ -0,0 +1,57 @@
+import { NextFunction, Request, Response } from 'express';
+import {
+  addTestReport as addTestReportRecord,
+  listTestReports as listTestReportRecords,
+  scheduleTest as scheduleTestRecord,
+  updateTestReportNotes,
+} from '../services/testReportService';
+
+export async function scheduleTest(req: Request, res: Response, next: NextFunction) {
+  try {
+    const finalClass = await scheduleTestRecord({
+      finalClassId: req.params.id,
+      testDate: new Date(req.body.testDate),
+      testTutorId: req.body.testTutorId,
+    });
+    return res.status(200).json({ success: true, message: 'Test scheduled', data: { finalClass } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function addTestReport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const report = await addTestReportRecord({
+      finalClassId: req.params.id,
+      file: req.file,
+      monthLabel: req.body.monthLabel,
+      notes: req.body.notes,
+      uploadedBy: (req as any).user._id.toString(),
+    });
+    return res.status(201).json({ success: true, message: 'Test report saved', data: { report } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateTestReport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const report = await updateTestReportNotes({
+      finalClassId: req.params.id,
+      reportId: req.params.reportId,
+      notes: req.body.notes,
+    });
+    return res.status(200).json({ success: true, message: 'Test report updated', data: { report } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listTestReports(req: Request, res: Response, next: NextFunction) {
+  try {
+    const history = await listTestReportRecords(req.params.id);
+    return res.status(200).json({ success: true, data: history });
+  } catch (error) {
+    return next(error);
+  }
+}
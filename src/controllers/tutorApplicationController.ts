@@ -0,0 +1,120 @@
+import { NextFunction, Request, Response } from 'express';
+import { ApplicationDocument, ApplicationStatus } from '../models/TutorLeadApplication';
+import {
+  approveApplication as approveApplicationRecord,
+  checkDocument as checkDocumentRecord,
+  getApplication as getApplicationRecord,
+  listApplications as listApplicationRecords,
+  promoteApplication as promoteApplicationRecord,
+  rejectApplication as rejectApplicationRecord,
+  requestChanges as requestChangesRecord,
+} from '../services/tutorApplicationService';
+
+export async function listApplications(req: Request, res: Response, next: NextFunction) {
+  try {
+    const q = req.query as Record<string, any>;
+    const result = await listApplicationRecords(
+      {
+        status: q.status as ApplicationStatus | undefined,
+        city: q.city,
+        subjects: q.subjects,
+        qualification: q.qualification,
+        documentsUploaded:
+          q.documentsUploaded === undefined
+            ? undefined
+            : q.documentsUploaded === true || q.documentsUploaded === 'true',
+        search: q.search,
+      },
+      {
+        page: q.page ? Number(q.page) : undefined,
+        limit: q.limit ? Number(q.limit) : undefined,
+      }
+    );
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getApplication(req: Request, res: Response, next: NextFunction) {
+  try {
+    const application = await getApplicationRecord(req.params.id);
+    return res.status(200).json({ success: true, data: { application } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function checkDocument(req: Request, res: Response, next: NextFunction) {
+  try {
+    const application = await checkDocumentRecord({
+      applicationId: req.params.id,
+      document: req.params.document as ApplicationDocument,
+      status: req.body.status,
+      note: req.body.note,
+      checkedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Document checked', data: { application } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function requestChanges(req: Request, res: Response, next: NextFunction) {
+  try {
+    const application = await requestChangesRecord({
+      applicationId: req.params.id,
+      note: req.body.note,
+      reviewedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Changes requested', data: { application } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function approveApplication(req: Request, res: Response, next: NextFunction) {
+  try {
+    const application = await approveApplicationRecord({
+      applicationId: req.params.id,
+      note: req.body.note,
+      reviewedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Application approved', data: { application } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function rejectApplication(req: Request, res: Response, next: NextFunction) {
+  try {
+    const application = await rejectApplicationRecord({
+      applicationId: req.params.id,
+      note: req.body.reason,
+      reviewedBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Application rejected', data: { application } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function promoteApplication(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { application, user, tutor, userCreated } = await promoteApplicationRecord({
+      applicationId: req.params.id,
+      note: req.body.note,
+      linkExistingAccount: req.body.linkExistingAccount,
+      reviewedBy: (req as any).user._id.toString(),
+    });
+    return res.status(201).json({
+      success: true,
+      message: userCreated
+        ? 'Tutor account created'
+        : 'Tutor profile created and linked to the existing teacher account',
+      data: { application, user, tutor, userCreated },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
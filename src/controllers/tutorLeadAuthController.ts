@@ -1,27 +1,100 @@
-import { Request, Response } from 'express';
-import jwt, { SignOptions, Secret } from 'jsonwebtoken';
-import TutorLeadApplication from '../models/TutorLeadApplication';
-import { comparePassword } from '../utils/password';
+import { NextFunction, Request, Response } from 'express';
+import { ApplicationDocument, ITutorLeadApplication } from '../models/TutorLeadApplication';
+import { recordApplicantUpdate } from '../services/tutorApplicationService';
+import {
+  changeTutorLeadPassword,
+  loginTutorLead,
+  logoutTutorLead,
+  refreshTutorLeadTokens,
+  registerTutorLead,
+  requestTutorLeadPasswordReset,
+  resetTutorLeadPassword,
+} from '../services/tutorLeadAuthService';
+import { NotFoundError } from '../utils/errors';
+
+function presentApplication(doc: ITutorLeadApplication) {
+  return {
+    teacherId: doc.teacherId,
+    fullName: doc.fullName,
+    gender: doc.gender,
+    phoneNumber: doc.phoneNumber,
+    email: doc.email,
+    qualification: doc.qualification,
+    experience: doc.experience,
+    subjects: doc.subjects,
+    city: doc.city,
+    preferredAreas: doc.preferredAreas,
+    pincode: doc.pincode,
+    isVerification: doc.isVerification === true,
+    status: doc.status,
+    documentChecks: doc.documentChecks,
+    rejectionReason: doc.rejectionReason,
+  };
+}
+
+export async function register(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { application, accessToken, refreshToken } = await registerTutorLead(req.body);
+    return res.status(201).json({
+      success: true,
+      message: 'Application submitted',
+      data: { id: application.id, teacherId: application.teacherId, accessToken, refreshToken },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function tutorLeadLogin(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { email, password } = req.body as { email: string; password: string };
+    const { application, accessToken, refreshToken } = await loginTutorLead(email, password);
+    return res.status(200).json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        // `token` is kept for clients written before refresh tokens
+        token: accessToken,
+        accessToken,
+        refreshToken,
+        teacherId: application.teacherId,
+        isVerification: application.isVerification === true,
+        status: application.status,
+      },
+    });
+  } catch (error) {
+    return next(error);
+  }
+}
 
-function getEnv(name: string, fallback?: string): string {
-  const value = process.env[name] || fallback;
-  if (!value) throw new Error(`Missing required environment variable: ${name}`);
-  return value;
+export async function refreshToken(req: Request, res: Response, next: NextFunction) {
+  try {
+    const tokens = await refreshTutorLeadTokens(req.body.refreshToken);
+    return res.status(200).json({ success: true, message: 'Tokens refreshed successfully', data: tokens });
+  } catch (error) {
+    return next(error);
+  }
 }
 
-export async function updateTutorLeadMe(req: Request, res: Response) {
+export async function logout(req: Request, res: Response, next: NextFunction) {
   try {
-    const auth = req.headers.authorization || '';
-    const token = auth.toLowerCase().startsWith('bearer ') ? auth.slice(7).trim() : null;
-    if (!token) return res.status(401).json({ success: false, message: 'Missing authorization token' });
+    await logoutTutorLead(String(req.tutorLead!._id));
+    return res.status(200).json({ success: true, message: 'Logout successful' });
+  } catch (error) {
+    return next(error);
+  }
+}
 
-    const decoded = jwt.verify(token, getEnv('JWT_SECRET') as Secret, {
-      issuer: 'yourshikshak-api',
-      audience: 'yourshikshak-tutor-leads',
-    }) as any;
-    const id = decoded?.sub as string | undefined;
-    if (!id) return res.status(401).json({ success: false, message: 'Invalid token' });
+export async function tutorLeadMe(req: Request, res: Response, next: NextFunction) {
+  try {
+    return res.status(200).json({ success: true, data: presentApplication(req.tutorLead!) });
+  } catch (error) {
+    return next(error);
+  }
+}
 
+export async function updateTutorLeadMe(req: Request, res: Response, next: NextFunction) {
+  try {
     // Accept fields from registration form
     const {
       email,
@@ -65,101 +138,56 @@ export async function updateTutorLeadMe(req: Request, res: Response) {
       if (tutorLead.pincode) updates.pincode = tutorLead.pincode;
       if (tutorLead.phoneNumber) updates.phoneNumber = tutorLead.phoneNumber;
     }
-    // Ensure verification remains pending
-    updates.isVerification = false;
-
-    const doc = await TutorLeadApplication.findByIdAndUpdate(id, updates, { new: true });
-    if (!doc) return res.status(404).json({ success: false, message: 'Tutor lead not found' });
+    // Verification goes back to pending and sent-back applications return for review;
+    // approved ones are refused.
+    // A new avatar link replaces the checked photo, so its check starts over as well.
+    const doc = await recordApplicantUpdate(
+      String(req.tutorLead!._id),
+      updates,
+      updates.avatarUrl ? ApplicationDocument.AVATAR : undefined
+    );
+    if (!doc) throw new NotFoundError('Tutor application');
 
     return res.status(200).json({ success: true, message: 'Details updated', data: { id: doc.id } });
-  } catch (e: any) {
-    return res.status(400).json({ success: false, message: e?.message || 'Update failed' });
+  } catch (error) {
+    return next(error);
   }
 }
-export async function tutorLeadMe(req: Request, res: Response) {
-  try {
-    const auth = req.headers.authorization || '';
-    const token = auth.toLowerCase().startsWith('bearer ') ? auth.slice(7).trim() : null;
-    if (!token) {
-      return res.status(401).json({ success: false, message: 'Missing authorization token' });
-    }
-
-    const decoded = jwt.verify(token, getEnv('JWT_SECRET') as Secret, {
-      issuer: 'yourshikshak-api',
-      audience: 'yourshikshak-tutor-leads',
-    }) as any;
-
-    const id = decoded?.sub as string | undefined;
-    if (!id) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-
-    const doc = await TutorLeadApplication.findById(id);
-    if (!doc) {
-      return res.status(404).json({ success: false, message: 'Tutor lead not found' });
-    }
 
+export async function changePassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { accessToken, refreshToken: newRefreshToken } = await changeTutorLeadPassword(
+      String(req.tutorLead!._id),
+      req.body.currentPassword,
+      req.body.newPassword
+    );
     return res.status(200).json({
       success: true,
-      data: {
-        teacherId: doc.teacherId,
-        fullName: doc.fullName,
-        gender: doc.gender,
-        phoneNumber: doc.phoneNumber,
-        email: doc.email,
-        qualification: doc.qualification,
-        experience: doc.experience,
-        subjects: doc.subjects,
-        city: doc.city,
-        preferredAreas: doc.preferredAreas,
-        pincode: doc.pincode,
-        isVerification: doc.isVerification === true,
-      },
+      message: 'Password changed; other sessions have been signed out',
+      data: { accessToken, refreshToken: newRefreshToken },
     });
-  } catch (e: any) {
-    return res.status(401).json({ success: false, message: e?.message || 'Unauthorized' });
+  } catch (error) {
+    return next(error);
   }
 }
 
-export async function tutorLeadLogin(req: Request, res: Response) {
+export async function forgotPassword(req: Request, res: Response, next: NextFunction) {
   try {
-    const { email, password } = req.body as { email: string; password: string };
-
-    const doc = await TutorLeadApplication.findOne({ email }).select('+password');
-    if (!doc) {
-      return res.status(401).json({ success: false, message: 'Invalid email or password' });
-    }
-
-    const ok = await comparePassword(password, doc.password);
-    if (!ok) {
-      return res.status(401).json({ success: false, message: 'Invalid email or password' });
-    }
-
-    const token = jwt.sign(
-      {
-        sub: String(doc._id),
-        email: doc.email,
-        teacherId: doc.teacherId,
-        type: 'tutorLead',
-      },
-      getEnv('JWT_SECRET') as Secret,
-      {
-        expiresIn: process.env.JWT_EXPIRES_IN || '7d',
-        issuer: 'yourshikshak-api',
-        audience: 'yourshikshak-tutor-leads',
-      } as SignOptions
-    );
-
+    await requestTutorLeadPasswordReset(req.body.email);
     return res.status(200).json({
       success: true,
-      message: 'Login successful',
-      data: {
-        token,
-        teacherId: doc.teacherId,
-        isVerification: doc.isVerification === true,
-      },
+      message: 'If an application exists for this email, a reset link has been sent',
     });
-  } catch (e: any) {
-    return res.status(500).json({ success: false, message: e?.message || 'Login failed' });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function resetPassword(req: Request, res: Response, next: NextFunction) {
+  try {
+    await resetTutorLeadPassword(req.body.token, req.body.password);
+    return res.status(200).json({ success: true, message: 'Password reset. Please login with the new password.' });
+  } catch (error) {
+    return next(error);
   }
 }
@@ -0,0 +1,149 @@
+import { NextFunction, Request, Response } from 'express';
+import { PaymentStatus } from '../models/Tutor';
+import {
+  addPayoutAdjustment,
+  generatePayouts as generatePayoutRecords,
+  getPayout as getPayoutRecord,
+  getStatementForUser,
+  getTutorPayoutRates,
+  getTutorStatement,
+  listPayouts as listPayoutRecords,
+  markPayoutPaid,
+  removePayoutAdjustment,
+  updateTutorPayoutRates,
+} from '../services/tutorPayoutService';
+
+function dateRangeOf(q: Record<string, any>) {
+  return {
+    from: q.from ? new Date(q.from) : undefined,
+    to: q.to ? new Date(q.to) : undefined,
+  };
+}
+
+export async function getRates(_req: Request, res: Response, next: NextFunction) {
+  try {
+    const rates = await getTutorPayoutRates();
+    return res.status(200).json({ success: true, data: { rates } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function updateRates(req: Request, res: Response, next: NextFunction) {
+  try {
+    const updatedBy = (req as any).user._id.toString();
+    const rates = await updateTutorPayoutRates(
+      { hourlyRates: req.body.hourlyRates, defaultSessionMinutes: req.body.defaultSessionMinutes },
+      updatedBy
+    );
+    return res.status(200).json({ success: true, message: 'Payout rates updated', data: { rates } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function generatePayouts(req: Request, res: Response, next: NextFunction) {
+  try {
+    const result = await generatePayoutRecords({
+      month: req.body.month,
+      finalClassId: req.body.finalClassId,
+    });
+    return res.status(200).json({ success: true, message: 'Payouts generated', data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function listPayouts(req: Request, res: Response, next: NextFunction) {
+  try {
+    const q = req.query as Record<string, any>;
+    const result = await listPayoutRecords(
+      {
+        status: q.status as PaymentStatus | undefined,
+        tutorId: q.tutorId,
+        finalClassId: q.finalClassId,
+        paymentCycle: q.paymentCycle,
+        ...dateRangeOf(q),
+      },
+      {
+        page: q.page ? Number(q.page) : undefined,
+        limit: q.limit ? Number(q.limit) : undefined,
+      }
+    );
+    return res.status(200).json({ success: true, data: result });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getPayout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const payout = await getPayoutRecord(req.params.id);
+    return res.status(200).json({ success: true, data: { payout } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function addAdjustment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const payout = await addPayoutAdjustment({
+      payoutId: req.params.id,
+      kind: req.body.kind,
+      amount: req.body.amount,
+      reason: req.body.reason,
+      addedBy: (req as any).user._id.toString(),
+    });
+    return res.status(201).json({ success: true, message: 'Adjustment added', data: { payout } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function removeAdjustment(req: Request, res: Response, next: NextFunction) {
+  try {
+    const payout = await removePayoutAdjustment(req.params.id, req.params.adjustmentId);
+    return res.status(200).json({ success: true, message: 'Adjustment removed', data: { payout } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function payPayout(req: Request, res: Response, next: NextFunction) {
+  try {
+    const { paymentReference, paymentMode, paidAt, notes } = req.body;
+    const payout = await markPayoutPaid({
+      payoutId: req.params.id,
+      paymentReference,
+      paymentMode,
+      paidAt: paidAt ? new Date(paidAt) : undefined,
+      notes,
+      paidBy: (req as any).user._id.toString(),
+    });
+    return res.status(200).json({ success: true, message: 'Payout marked paid', data: { payout } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getMyStatement(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = (req as any).user._id.toString();
+    const statement = await getStatementForUser(userId, dateRangeOf(req.query as Record<string, any>));
+    return res.status(200).json({ success: true, data: { statement } });
+  } catch (error) {
+    return next(error);
+  }
+}
+
+export async function getStatement(req: Request, res: Response, next: NextFunction) {
+  try {
+    const statement = await getTutorStatement(
+      req.params.tutorId,
+      dateRangeOf(req.query as Record<string, any>)
+    );
+    return res.status(200).json({ success: true, data: { statement } });
+  } catch (error) {
+    return next(error);
+  }
+}
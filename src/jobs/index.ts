@@ -0,0 +1,70 @@
+import logger from '../config/logger';
+import { sendDueFollowUpReminders } from '../services/leadFollowUpService';
+import { runRenewalCycle } from '../services/renewalService';
+
+// Lightweight in-process scheduler for periodic background work.
+// Each job runs on its own interval; a run is skipped if the previous one is still going.
+
+interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<unknown>;
+}
+
+const timers: NodeJS.Timeout[] = [];
+
+function getIntervalMs(envName: string, fallbackMs: number): number {
+  const value = Number(process.env[envName]);
+  return Number.isFinite(value) && value > 0 ? value : fallbackMs;
+}
+
+function getJobs(): ScheduledJob[] {
+  return [
+    {
+      name: 'lead-follow-up-reminders',
+      intervalMs: getIntervalMs('LEAD_FOLLOW_UP_REMINDER_INTERVAL_MS', 5 * 60 * 1000),
+      run: () => sendDueFollowUpReminders(),
+    },
+    {
+      name: 'final-class-renewals',
+      intervalMs: getIntervalMs('FINAL_CLASS_RENEWAL_INTERVAL_MS', 60 * 60 * 1000),
+      run: () => runRenewalCycle(),
+    },
+  ];
+}
+
+export function startScheduledJobs(): void {
+  if (String(process.env.ENABLE_SCHEDULED_JOBS).toLowerCase() === 'false') {
+    logger.info('Scheduled jobs disabled (ENABLE_SCHEDULED_JOBS=false)');
+    return;
+  }
+
+  getJobs().forEach((job) => {
+    let running = false;
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const result = await job.run();
+        logger.debug(`Job ${job.name} finished`, { result });
+      } catch (error) {
+        logger.error(`Job ${job.name} failed`, {
+          error: (error as any)?.message,
+          stack: (error as any)?.stack,
+        });
+      } finally {
+        running = false;
+      }
+    };
+    const timer = setInterval(() => void tick(), job.intervalMs);
+    timer.unref();
+    timers.push(timer);
+    logger.info(`Scheduled job ${job.name} every ${job.intervalMs}ms`);
+  });
+}
+
+export function stopScheduledJobs(): void {
+  timers.splice(0).forEach((timer) => clearInterval(timer));
+}
+
+export default { startScheduledJobs, stopScheduledJobs };
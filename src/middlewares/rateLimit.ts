@@ -0,0 +1,91 @@
+import { NextFunction, Request, Response } from 'express';
+import { TooManyRequestsError } from '../utils/errors';
+
+// Functions are read on every request, so limits taken from the environment
+// pick up values loaded after this module was imported
+type LimitValue = number | (() => number);
+
+export interface RateLimitOptions {
+  windowMs: LimitValue;
+  max: LimitValue;
+  // Separates the counters of limiters that share this process
+  keyPrefix: string;
+  message?: string;
+  keyGenerator?: (req: Request) => string;
+}
+
+interface RateLimitWindow {
+  count: number;
+  resetAt: number;
+}
+
+// Expired windows are swept once the store grows past this size
+const SWEEP_THRESHOLD = 10000;
+
+const windows = new Map<string, RateLimitWindow>();
+
+function sweepExpired(now: number): void {
+  windows.forEach((window, key) => {
+    if (window.resetAt <= now) windows.delete(key);
+  });
+}
+
+function resolve(value: LimitValue): number {
+  return typeof value === 'function' ? value() : value;
+}
+
+function defaultKey(req: Request): string {
+  // req.ip honours the app's "trust proxy" setting, so it cannot be spoofed
+  // with a forged X-Forwarded-For header
+  return req.ip || req.socket?.remoteAddress || 'unknown';
+}
+
+/**
+ * Fixed-window, per-client request limiter. Counters live in process memory,
+ * so each instance of the API enforces its own limit.
+ */
+export function rateLimit(options: RateLimitOptions) {
+  const keyGenerator = options.keyGenerator || defaultKey;
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const now = Date.now();
+    const windowMs = resolve(options.windowMs);
+    const max = resolve(options.max);
+    if (windows.size > SWEEP_THRESHOLD) sweepExpired(now);
+
+    const key = `${options.keyPrefix}:${keyGenerator(req)}`;
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    const remaining = Math.max(max - window.count, 0);
+    const resetSeconds = Math.ceil((window.resetAt - now) / 1000);
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (window.count > max) {
+      res.setHeader('Retry-After', String(resetSeconds));
+      return next(new TooManyRequestsError(options.message, resetSeconds));
+    }
+    return next();
+  };
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+// Website enquiry form: a handful of submissions per visitor is plenty
+export const publicEnquiryRateLimit = rateLimit({
+  keyPrefix: 'public-enquiry',
+  windowMs: () => envNumber('PUBLIC_ENQUIRY_RATE_LIMIT_WINDOW_MS', 15 * 60 * 1000),
+  max: () => envNumber('PUBLIC_ENQUIRY_RATE_LIMIT_MAX', 5),
+  message: 'Too many enquiries from this network, please try again later',
+});
+
+export default rateLimit;
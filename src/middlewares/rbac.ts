@@ -3,6 +3,9 @@ import { UserRole } from '../types/enums';
 import { IUser } from '../models/User';
 import { hasMinimumRole, getRoleLevel, hasPermission } from '../config/permissions';
 import { AuthenticationError, AuthorizationError } from '../utils/errors';
+import Lead from '../models/Lead';
+import FinalClass from '../models/FinalClass';
+import { canAccessLead, LEAD_STAFF_ROLES } from '../services/leadAccessService';
 
 export type RoleOrRoles = UserRole | UserRole[];
 
@@ -146,6 +149,89 @@ export function authorizeOwnership(resourceUserIdField: string = 'userId') {
   };
 }
 
+export type LeadIdResolver = (req: Request) => string | null | Promise<string | null>;
+
+// Row-level lead access: the lead named by the request must be inside the
+// user's scope (admins: all, managers: their cities, coordinators: their own)
+export function authorizeLeadAccess(resolveLeadId: LeadIdResolver = (req) => req.params.id ?? null) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const user = getUserFromRequest(req);
+    if (!user) return next(new AuthenticationError('Authentication required'));
+
+    const check = async () => {
+      const leadId = await resolveLeadId(req);
+      // Unknown ids fall through so the handler answers 404
+      if (!leadId || (await canAccessLead(user, leadId))) return next();
+      if (!(await Lead.exists({ _id: leadId }))) return next();
+
+      if (shouldLogFailures()) {
+        // eslint-disable-next-line no-console
+        console.log('[AUTHZ] deny lead scope', {
+          userId: user._id?.toString?.(),
+          role: user.role,
+          leadId,
+          path: req.path,
+          method: req.method,
+          at: new Date().toISOString(),
+        });
+      }
+      return next(new AuthorizationError('Access denied. This lead is outside your scope.'));
+    };
+    return check().catch(next);
+  };
+}
+
+export interface FinalClassAccessOptions {
+  // Also let the tutor currently assigned to the class through
+  allowTutor?: boolean;
+  // ...or the tutor assigned to take its monthly test
+  allowTestTutor?: boolean;
+  // ...or the parent account linked to the class
+  allowParent?: boolean;
+}
+
+// Row-level final class access for req.params.id: staff within the scope of
+// the class's lead and, when allowed, the class's own (or test) tutor or parent
+export function authorizeFinalClassAccess(options: FinalClassAccessOptions = {}) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    const user = getUserFromRequest(req);
+    if (!user) return next(new AuthenticationError('Authentication required'));
+
+    const check = async () => {
+      const finalClass = await FinalClass.findById(req.params.id).select(
+        'lead tutorAssigned testTutorAssigned parent'
+      );
+      // Unknown ids fall through so the handler answers 404
+      if (!finalClass) return next();
+      if (LEAD_STAFF_ROLES.includes(user.role) && (await canAccessLead(user, String(finalClass.lead)))) {
+        return next();
+      }
+      if (user.role === UserRole.TEACHER) {
+        const userId = String(user._id);
+        if (options.allowTutor && String(finalClass.tutorAssigned) === userId) return next();
+        if (options.allowTestTutor && String(finalClass.testTutorAssigned) === userId) return next();
+      }
+      if (options.allowParent && user.role === UserRole.PARENT && String(finalClass.parent) === String(user._id)) {
+        return next();
+      }
+
+      if (shouldLogFailures()) {
+        // eslint-disable-next-line no-console
+        console.log('[AUTHZ] deny final class scope', {
+          userId: user._id?.toString?.(),
+          role: user.role,
+          finalClassId: req.params.id,
+          path: req.path,
+          method: req.method,
+          at: new Date().toISOString(),
+        });
+      }
+      return next(new AuthorizationError('Access denied. This class is outside your scope.'));
+    };
+    return check().catch(next);
+  };
+}
+
 // Admin-only shortcut
 export function adminOnly() {
   return authorize(UserRole.ADMIN);
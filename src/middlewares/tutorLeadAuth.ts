@@ -0,0 +1,39 @@
+import { NextFunction, Request, Response } from 'express';
+import { extractTokenFromHeader } from './auth';
+import TutorLeadApplication from '../models/TutorLeadApplication';
+import { verifyTutorLeadAccessToken } from '../utils/jwt';
+import { AuthenticationError } from '../utils/errors';
+
+// Tutor applicants sign in separately from Users; sets req.tutorLead
+export async function authenticateTutorLead(req: Request, _res: Response, next: NextFunction) {
+  try {
+    const token = extractTokenFromHeader(req.headers.authorization as string | undefined);
+    if (!token) {
+      throw new AuthenticationError('Authentication required. No token provided.');
+    }
+
+    const decoded = verifyTutorLeadAccessToken(token);
+    if (!decoded) {
+      throw new AuthenticationError('Invalid or expired token');
+    }
+
+    const application = await TutorLeadApplication.findById(decoded.applicationId);
+    if (!application) {
+      throw new AuthenticationError('Tutor application not found');
+    }
+    // A password change or reset signs out every earlier session (iat is in whole seconds)
+    if (
+      application.passwordChangedAt &&
+      (decoded.iat || 0) * 1000 < application.passwordChangedAt.getTime() - 1000
+    ) {
+      throw new AuthenticationError('Password was changed. Please login again.');
+    }
+
+    req.tutorLead = application;
+    return next();
+  } catch (err) {
+    return next(err);
+  }
+}
+
+export default authenticateTutorLead;
@@ -31,6 +31,22 @@ export const DOCUMENT_UPLOAD_CONFIG: UploadOptions = {
   maxFiles: 5,
 };
 
+export const CSV_UPLOAD_CONFIG: UploadOptions = {
+  fileType: FileType.DOCUMENT,
+  maxSize: 5 * 1024 * 1024, // 5MB
+  // Browsers and OSes disagree on the CSV MIME type (Windows reports Excel's)
+  allowedMimeTypes: ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain'],
+  maxFiles: 1,
+};
+
+// Test reports arrive as PDFs or as photos of the marked paper
+export const TEST_REPORT_UPLOAD_CONFIG: UploadOptions = {
+  fileType: FileType.DOCUMENT,
+  maxSize: 10 * 1024 * 1024, // 10MB
+  allowedMimeTypes: ['application/pdf', 'image/jpeg', 'image/jpg', 'image/png', 'image/webp'],
+  maxFiles: 1,
+};
+
 export const MULTIPLE_IMAGES_CONFIG: UploadOptions = {
   fileType: FileType.IMAGE,
   maxSize: 5 * 1024 * 1024, // 5MB per file
@@ -57,7 +73,10 @@ export function createFileFilter(allowedMimeTypes: string[]) {
         'application/pdf': ['.pdf'],
         'application/msword': ['.doc'],
         'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-        'text/plain': ['.txt'],
+        'text/plain': ['.txt', '.csv'],
+        'text/csv': ['.csv'],
+        'application/csv': ['.csv'],
+        'application/vnd.ms-excel': ['.csv'],
       };
 
       const validExts = mimeToExt[file.mimetype] || [];
@@ -126,6 +145,32 @@ export function uploadSingleDocument(fieldName: string = 'document') {
   }).single(fieldName);
 }
 
+/**
+ * Upload single CSV file middleware
+ * @param fieldName - Form field name (default: 'file')
+ * @returns Multer middleware
+ */
+export function uploadSingleCsv(fieldName: string = 'file') {
+  return multer({
+    storage,
+    fileFilter: createFileFilter(CSV_UPLOAD_CONFIG.allowedMimeTypes),
+    limits: { fileSize: CSV_UPLOAD_CONFIG.maxSize },
+  }).single(fieldName);
+}
+
+/**
+ * Upload single test report middleware (PDF or image)
+ * @param fieldName - Form field name (default: 'report')
+ * @returns Multer middleware
+ */
+export function uploadSingleTestReport(fieldName: string = 'report') {
+  return multer({
+    storage,
+    fileFilter: createFileFilter(TEST_REPORT_UPLOAD_CONFIG.allowedMimeTypes),
+    limits: { fileSize: TEST_REPORT_UPLOAD_CONFIG.maxSize },
+  }).single(fieldName);
+}
+
 /**
  * Upload mixed file types middleware
  * @param fields - Array of field configurations
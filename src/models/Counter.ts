@@ -0,0 +1,39 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+// Named monotonic sequences (e.g. invoice numbers per city and financial year)
+export interface ICounter extends Document {
+  key: string;
+  seq: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ICounterModel extends Model<ICounter> {
+  next(key: string, session?: mongoose.ClientSession): Promise<number>;
+}
+
+const CounterSchema = new Schema<ICounter, ICounterModel>(
+  {
+    key: { type: String, required: true, unique: true, trim: true },
+    seq: { type: Number, required: true, default: 0, min: 0 },
+  },
+  { timestamps: true }
+);
+
+// Atomically increment and return the next value; the first call returns 1
+CounterSchema.statics.next = async function next(
+  key: string,
+  session?: mongoose.ClientSession
+): Promise<number> {
+  // Leave `session` out rather than undefined so an ambient transaction still applies
+  const counter = await this.findOneAndUpdate(
+    { key },
+    { $inc: { seq: 1 } },
+    { new: true, upsert: true, setDefaultsOnInsert: true, ...(session ? { session } : {}) }
+  );
+  return counter.seq;
+};
+
+const Counter = mongoose.model<ICounter, ICounterModel>('Counter', CounterSchema);
+
+export default Counter;
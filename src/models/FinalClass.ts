@@ -5,41 +5,122 @@ export enum ClassStatus {
   INACTIVE = 'inactive',
 }
 
+export enum AttendanceSheetStatus {
+  OPEN = 'open', // tutor is logging sessions
+  APPROVED = 'approved', // parent confirmed the month
+  DISPUTED = 'disputed', // parent disagreed; back to OPEN once the tutor corrects it
+}
+
+export enum TutorChangeReason {
+  PARENT_COMPLAINT = 'parent_complaint',
+  TUTOR_LEFT = 'tutor_left',
+  SCHEDULE_CLASH = 'schedule_clash',
+  OTHER = 'other',
+}
+
 export interface IAttendanceRecord {
   date: Date;
   present: boolean;
   durationMinutes?: number;
+  notes?: string;
+  loggedBy?: mongoose.Types.ObjectId;
 }
 
 export interface IAttendanceSheet {
+  _id?: mongoose.Types.ObjectId;
   monthLabel: string; // e.g., "July 2025"
   startDate: Date;
   endDate: Date;
+  tutor?: mongoose.Types.ObjectId; // who taught this month, for payouts
   records: IAttendanceRecord[];
+  status: AttendanceSheetStatus;
+  sessionsPresent: number;
+  minutesTaught: number;
+  parentApprovedAt?: Date;
+  parentComment?: string;
+  approvalNonce?: string; // matches the latest approval link; cleared once the parent decides
+  lockedAt?: Date;
+  lockedBy?: mongoose.Types.ObjectId;
 }
 
 export interface ITestReport {
+  _id?: mongoose.Types.ObjectId;
   monthLabel: string; // Month-wise report
+  testDate?: Date;
+  testTutor?: mongoose.Types.ObjectId;
   reportUrl?: string;
+  reportPublicId?: string; // Cloudinary id, to replace the file later
   notes?: string;
+  uploadedBy?: mongoose.Types.ObjectId;
   uploadedAt: Date;
 }
 
+export interface IClassStatusChange {
+  from?: ClassStatus;
+  to: ClassStatus;
+  reason: string;
+  changedBy?: mongoose.Types.ObjectId;
+  changedAt: Date;
+}
+
+// One stint of a tutor on the class; the current tutor's entry has no endedAt
+export interface ITutorAssignment {
+  tutor: mongoose.Types.ObjectId;
+  tutorTier?: string;
+  startedAt: Date;
+  endedAt?: Date;
+  endReason?: TutorChangeReason;
+  endNotes?: string; // why the parent or tutor asked for the change
+  handoverNotes?: string; // for the incoming tutor: syllabus covered, pending work
+  assignedBy?: mongoose.Types.ObjectId;
+  endedBy?: mongoose.Types.ObjectId;
+}
+
+// Raised by the parent from the portal; the lead owner works it as a follow-up
+export interface IParentConcern {
+  _id?: mongoose.Types.ObjectId;
+  subject: string;
+  message: string;
+  raisedBy: mongoose.Types.ObjectId;
+  raisedAt: Date;
+  followUp?: mongoose.Types.ObjectId;
+}
+
+export interface IRenewalPayment {
+  periodStart: Date; // the cycle this payment renews
+  periodEnd: Date;
+  amount: number;
+  paymentMode?: string;
+  paymentReference?: string;
+  invoice?: mongoose.Types.ObjectId;
+  paidAt: Date;
+  recordedBy?: mongoose.Types.ObjectId;
+}
+
 export interface IFinalClass extends Document {
   lead: mongoose.Types.ObjectId;
-  classId: string; // CL-BPL-ABCD-12
+  student?: mongoose.Types.ObjectId; // student and parent accounts created on conversion
+  parent?: mongoose.Types.ObjectId;
+  classId: string; // CL-BPL-0001, format set in utils/idAllocator
+  cityCode?: string; // BPL; older classes only carry it inside classId
   classStatus: ClassStatus;
+  statusHistory: IClassStatusChange[];
   tutorAssigned?: mongoose.Types.ObjectId;
   tutorTier?: string;
+  tutorHistory: ITutorAssignment[];
   firstMonthStartDate?: Date;
   monthStartDate?: Date;
   monthRenewDate?: Date;
   daysLeftUntilRenewal?: number; // can be derived, stored for quick filters
+  renewalReminderSentAt?: Date; // for the current cycle; cleared when it rolls forward
+  lapsedAt?: Date; // set when deactivated for non-payment
+  renewalPayments: IRenewalPayment[];
   testDate?: Date;
   testTutorAssigned?: mongoose.Types.ObjectId;
   testReports: ITestReport[];
   attendanceSheets: IAttendanceSheet[];
   parentApprovedCurrentMonth?: boolean;
+  parentConcerns: IParentConcern[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,26 +132,88 @@ const AttendanceRecordSchema = new Schema<IAttendanceRecord>(
     date: { type: Date, required: true },
     present: { type: Boolean, required: true },
     durationMinutes: { type: Number },
+    notes: { type: String, trim: true },
+    loggedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   },
   { _id: false }
 );
 
-const AttendanceSheetSchema = new Schema<IAttendanceSheet>(
+// Sheets keep their _id so routes can address one month
+const AttendanceSheetSchema = new Schema<IAttendanceSheet>({
+  monthLabel: { type: String, required: true, trim: true },
+  startDate: { type: Date, required: true },
+  endDate: { type: Date, required: true },
+  tutor: { type: Schema.Types.ObjectId, ref: 'User' },
+  records: { type: [AttendanceRecordSchema], default: [] },
+  status: {
+    type: String,
+    enum: Object.values(AttendanceSheetStatus),
+    default: AttendanceSheetStatus.OPEN,
+  },
+  sessionsPresent: { type: Number, default: 0, min: 0 },
+  minutesTaught: { type: Number, default: 0, min: 0 },
+  parentApprovedAt: { type: Date },
+  parentComment: { type: String, trim: true },
+  approvalNonce: { type: String },
+  lockedAt: { type: Date },
+  lockedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+});
+
+const TestReportSchema = new Schema<ITestReport>({
+  monthLabel: { type: String, required: true, trim: true },
+  testDate: { type: Date },
+  testTutor: { type: Schema.Types.ObjectId, ref: 'User' },
+  reportUrl: { type: String, trim: true },
+  reportPublicId: { type: String, trim: true },
+  notes: { type: String, trim: true },
+  uploadedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  uploadedAt: { type: Date, required: true, default: () => new Date() },
+});
+
+const ClassStatusChangeSchema = new Schema<IClassStatusChange>(
   {
-    monthLabel: { type: String, required: true, trim: true },
-    startDate: { type: Date, required: true },
-    endDate: { type: Date, required: true },
-    records: { type: [AttendanceRecordSchema], default: [] },
+    from: { type: String, enum: Object.values(ClassStatus) },
+    to: { type: String, enum: Object.values(ClassStatus), required: true },
+    reason: { type: String, required: true, trim: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    changedAt: { type: Date, required: true, default: () => new Date() },
   },
   { _id: false }
 );
 
-const TestReportSchema = new Schema<ITestReport>(
+const TutorAssignmentSchema = new Schema<ITutorAssignment>(
   {
-    monthLabel: { type: String, required: true, trim: true },
-    reportUrl: { type: String, trim: true },
-    notes: { type: String, trim: true },
-    uploadedAt: { type: Date, required: true, default: () => new Date() },
+    tutor: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    tutorTier: { type: String, trim: true },
+    startedAt: { type: Date, required: true },
+    endedAt: { type: Date },
+    endReason: { type: String, enum: Object.values(TutorChangeReason) },
+    endNotes: { type: String, trim: true },
+    handoverNotes: { type: String, trim: true },
+    assignedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    endedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { _id: false }
+);
+
+const ParentConcernSchema = new Schema<IParentConcern>({
+  subject: { type: String, required: true, trim: true, maxlength: 200 },
+  message: { type: String, required: true, trim: true, maxlength: 2000 },
+  raisedBy: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+  raisedAt: { type: Date, required: true, default: () => new Date() },
+  followUp: { type: Schema.Types.ObjectId, ref: 'LeadFollowUp' },
+});
+
+const RenewalPaymentSchema = new Schema<IRenewalPayment>(
+  {
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    amount: { type: Number, required: true, min: 0 },
+    paymentMode: { type: String, trim: true },
+    paymentReference: { type: String, trim: true },
+    invoice: { type: Schema.Types.ObjectId, ref: 'Invoice' },
+    paidAt: { type: Date, required: true, default: () => new Date() },
+    recordedBy: { type: Schema.Types.ObjectId, ref: 'User' },
   },
   { _id: false }
 );
@@ -78,24 +221,35 @@ const TestReportSchema = new Schema<ITestReport>(
 const FinalClassSchema = new Schema<IFinalClass, IFinalClassModel>(
   {
     lead: { type: Schema.Types.ObjectId, ref: 'Lead', required: true, index: true },
+    student: { type: Schema.Types.ObjectId, ref: 'User', index: true },
+    parent: { type: Schema.Types.ObjectId, ref: 'User', index: true },
     classId: { type: String, required: true, unique: true, trim: true },
+    cityCode: { type: String, uppercase: true, trim: true, index: true },
     classStatus: { type: String, enum: Object.values(ClassStatus), default: ClassStatus.ACTIVE, index: true },
+    statusHistory: { type: [ClassStatusChangeSchema], default: [] },
     tutorAssigned: { type: Schema.Types.ObjectId, ref: 'User' },
     tutorTier: { type: String, trim: true },
+    tutorHistory: { type: [TutorAssignmentSchema], default: [] },
     firstMonthStartDate: { type: Date },
     monthStartDate: { type: Date },
     monthRenewDate: { type: Date },
     daysLeftUntilRenewal: { type: Number, min: 0 },
+    renewalReminderSentAt: { type: Date },
+    lapsedAt: { type: Date },
+    renewalPayments: { type: [RenewalPaymentSchema], default: [] },
     testDate: { type: Date },
     testTutorAssigned: { type: Schema.Types.ObjectId, ref: 'User' },
     testReports: { type: [TestReportSchema], default: [] },
     attendanceSheets: { type: [AttendanceSheetSchema], default: [] },
     parentApprovedCurrentMonth: { type: Boolean, default: false },
+    parentConcerns: { type: [ParentConcernSchema], default: [] },
   },
   { timestamps: true }
 );
 
 FinalClassSchema.index({ classId: 1 }, { unique: true });
+FinalClassSchema.index({ classStatus: 1, monthRenewDate: 1 });
+FinalClassSchema.index({ 'tutorHistory.tutor': 1 });
 
 const FinalClass = mongoose.model<IFinalClass, IFinalClassModel>('FinalClass', FinalClassSchema);
 
@@ -0,0 +1,149 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export enum InvoiceStatus {
+  DRAFT = 'draft',
+  ISSUED = 'issued',
+  PAID = 'paid',
+  VOID = 'void',
+}
+
+export interface IInvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+export interface IInvoiceParty {
+  name: string;
+  address?: string;
+  gstin?: string;
+}
+
+export interface IInvoice extends Document {
+  // Allocated when the invoice is issued, so drafts never leave gaps: INV/BPL/2026-27/00001
+  invoiceNumber?: string;
+  cityCode: string;
+  status: InvoiceStatus;
+  lead: mongoose.Types.ObjectId;
+  finalClass?: mongoose.Types.ObjectId;
+  // Monthly class cycle the invoice bills
+  periodStart: Date;
+  periodEnd: Date;
+  periodLabel: string; // e.g. "July 2026"
+  seller?: IInvoiceParty; // snapshot taken at issue time
+  billTo: IInvoiceParty & { studentName?: string };
+  lineItems: IInvoiceLineItem[];
+  currency: string;
+  subtotal: number;
+  gstRate: number; // percent
+  interState: boolean; // IGST instead of CGST + SGST
+  cgst: number;
+  sgst: number;
+  igst: number;
+  taxTotal: number;
+  total: number;
+  notes?: string;
+  issuedAt?: Date;
+  issuedBy?: mongoose.Types.ObjectId;
+  dueDate?: Date;
+  paidAt?: Date;
+  paymentMode?: string;
+  paymentReference?: string;
+  recordedBy?: mongoose.Types.ObjectId;
+  voidedAt?: Date;
+  voidedBy?: mongoose.Types.ObjectId;
+  voidReason?: string;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface IInvoiceModel extends Model<IInvoice> {}
+
+const LineItemSchema = new Schema<IInvoiceLineItem>(
+  {
+    description: { type: String, required: true, trim: true, maxlength: 300 },
+    quantity: { type: Number, required: true, min: 0 },
+    unitPrice: { type: Number, required: true, min: 0 },
+    amount: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+const PartySchema = new Schema(
+  {
+    name: { type: String, required: true, trim: true },
+    address: { type: String, trim: true },
+    gstin: { type: String, trim: true, uppercase: true },
+    studentName: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const InvoiceSchema = new Schema<IInvoice, IInvoiceModel>(
+  {
+    invoiceNumber: { type: String, trim: true },
+    cityCode: { type: String, required: true, trim: true, uppercase: true },
+    status: {
+      type: String,
+      enum: Object.values(InvoiceStatus),
+      default: InvoiceStatus.DRAFT,
+      index: true,
+    },
+    lead: { type: Schema.Types.ObjectId, ref: 'Lead', required: true, index: true },
+    finalClass: { type: Schema.Types.ObjectId, ref: 'FinalClass', index: true },
+    periodStart: { type: Date, required: true },
+    periodEnd: { type: Date, required: true },
+    periodLabel: { type: String, required: true, trim: true },
+    seller: { type: PartySchema },
+    billTo: { type: PartySchema, required: true },
+    lineItems: {
+      type: [LineItemSchema],
+      validate: [
+        (items: IInvoiceLineItem[]) => items.length > 0,
+        'At least one line item is required',
+      ],
+    },
+    currency: { type: String, default: 'INR' },
+    subtotal: { type: Number, required: true, min: 0 },
+    gstRate: { type: Number, required: true, min: 0, max: 100 },
+    interState: { type: Boolean, default: false },
+    cgst: { type: Number, default: 0 },
+    sgst: { type: Number, default: 0 },
+    igst: { type: Number, default: 0 },
+    taxTotal: { type: Number, required: true, min: 0 },
+    total: { type: Number, required: true, min: 0 },
+    notes: { type: String, trim: true, maxlength: 1000 },
+    issuedAt: { type: Date },
+    issuedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    dueDate: { type: Date },
+    paidAt: { type: Date },
+    paymentMode: { type: String, trim: true },
+    paymentReference: { type: String, trim: true },
+    recordedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    voidedAt: { type: Date },
+    voidedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    voidReason: { type: String, trim: true, maxlength: 500 },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true }
+);
+
+InvoiceSchema.index({ invoiceNumber: 1 }, { unique: true, sparse: true });
+InvoiceSchema.index({ finalClass: 1, periodStart: 1 });
+// One live invoice per lead, class and billing period; void ones can be re-raised
+InvoiceSchema.index(
+  { lead: 1, finalClass: 1, periodStart: 1 },
+  {
+    unique: true,
+    partialFilterExpression: {
+      status: { $in: [InvoiceStatus.DRAFT, InvoiceStatus.ISSUED, InvoiceStatus.PAID] },
+    },
+  }
+);
+InvoiceSchema.index({ cityCode: 1, status: 1, createdAt: -1 });
+
+const Invoice = mongoose.model<IInvoice, IInvoiceModel>('Invoice', InvoiceSchema);
+
+export default Invoice;
@@ -1,4 +1,5 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
+import { normalizePhones } from '../utils/phone';
 
 export enum TuitionMode {
   ONLINE = 'online',
@@ -15,6 +16,7 @@ export enum LeadSource {
   GOOGLE_PROFILE = 'Google profile',
   WHATSAPP = 'WhatsApp',
   REFERRED = 'Referred',
+  WEBSITE = 'Website',
   OTHER = 'Other',
 }
 
@@ -27,17 +29,48 @@ export enum LeadStatus {
   ENQUIRY = 'Enquiry',
 }
 
+export enum LeadAssignmentMethod {
+  AUTO = 'auto',
+  MANUAL = 'manual',
+}
+
+export interface ILeadAssignmentChange {
+  from?: mongoose.Types.ObjectId;
+  to: mongoose.Types.ObjectId;
+  method: LeadAssignmentMethod;
+  rule?: string; // which auto-assignment rule picked the owner
+  changedBy?: mongoose.Types.ObjectId;
+  changedAt: Date;
+  note?: string;
+}
+
+export interface ILeadStatusChange {
+  from?: LeadStatus;
+  to: LeadStatus;
+  changedBy?: mongoose.Types.ObjectId;
+  changedAt: Date;
+  note?: string;
+}
+
 export interface ILead extends Document {
   parentsName: string;
   studentName: string;
   contactNumber: string;
   alternateNumber?: string;
+  normalizedPhones: string[];
   classAndBoard: { classLevel: string; board: string };
   subjectsRequired: string[];
   numClassesPerMonth?: number;
   classDurationMinutes?: number;
   preferredTuitionMode: TuitionMode;
-  classLocation?: { addressText?: string; googleMapLink?: string };
+  classLocation?: {
+    addressText?: string;
+    googleMapLink?: string;
+    city?: string;
+    area?: string;
+    pinCode?: string;
+  };
+  preferredTimeSlots?: string[];
   preferredTutor: PreferredTutor;
   fees?: number;
   demoTutor?: mongoose.Types.ObjectId;
@@ -45,24 +78,53 @@ export interface ILead extends Document {
   parentsCustomizedDemands?: string;
   leadSource: LeadSource;
   leadStatus: LeadStatus;
+  statusHistory: ILeadStatusChange[];
   paymentReceived: { received: boolean; amount?: number };
   mentorNote?: string;
   leadAssignedTo?: mongoose.Types.ObjectId;
+  assignmentHistory: ILeadAssignmentChange[];
   isConverted?: boolean;
   paymentMode?: string;
   invoiceId?: string;
+  mergedInto?: mongoose.Types.ObjectId;
+  mergedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
 interface ILeadModel extends Model<ILead> {}
 
+const LeadStatusChangeSchema = new Schema<ILeadStatusChange>(
+  {
+    from: { type: String, enum: Object.values(LeadStatus) },
+    to: { type: String, enum: Object.values(LeadStatus), required: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    changedAt: { type: Date, required: true, default: () => new Date() },
+    note: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const LeadAssignmentChangeSchema = new Schema<ILeadAssignmentChange>(
+  {
+    from: { type: Schema.Types.ObjectId, ref: 'User' },
+    to: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    method: { type: String, enum: Object.values(LeadAssignmentMethod), required: true },
+    rule: { type: String, trim: true },
+    changedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    changedAt: { type: Date, required: true, default: () => new Date() },
+    note: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
 const LeadSchema = new Schema<ILead, ILeadModel>(
   {
     parentsName: { type: String, required: true, trim: true },
     studentName: { type: String, required: true, trim: true },
     contactNumber: { type: String, required: true, trim: true },
     alternateNumber: { type: String, trim: true },
+    normalizedPhones: { type: [String], default: [] },
     classAndBoard: {
       classLevel: { type: String, required: true, trim: true },
       board: { type: String, required: true, trim: true },
@@ -78,7 +140,11 @@ const LeadSchema = new Schema<ILead, ILeadModel>(
     classLocation: {
       addressText: { type: String, trim: true },
       googleMapLink: { type: String, trim: true },
+      city: { type: String, trim: true },
+      area: { type: String, trim: true },
+      pinCode: { type: String, trim: true },
     },
+    preferredTimeSlots: { type: [String], default: undefined },
     preferredTutor: {
       type: String,
       enum: Object.values(PreferredTutor),
@@ -89,16 +155,20 @@ const LeadSchema = new Schema<ILead, ILeadModel>(
     demoAt: { type: Date },
     parentsCustomizedDemands: { type: String, trim: true },
     leadSource: { type: String, enum: Object.values(LeadSource), required: true },
-    leadStatus: { type: String, enum: Object.values(LeadStatus), required: true, index: true },
+    leadStatus: { type: String, enum: Object.values(LeadStatus), default: LeadStatus.ENQUIRY, index: true },
+    statusHistory: { type: [LeadStatusChangeSchema], default: [] },
     paymentReceived: {
       received: { type: Boolean, default: false },
       amount: { type: Number, min: 0 },
     },
     mentorNote: { type: String, trim: true },
     leadAssignedTo: { type: Schema.Types.ObjectId, ref: 'User' },
+    assignmentHistory: { type: [LeadAssignmentChangeSchema], default: [] },
     isConverted: { type: Boolean, default: false, index: true },
     paymentMode: { type: String, trim: true },
     invoiceId: { type: String, trim: true },
+    mergedInto: { type: Schema.Types.ObjectId, ref: 'Lead' },
+    mergedAt: { type: Date },
   },
   { timestamps: true, toJSON: { virtuals: true }, toObject: { virtuals: true } }
 );
@@ -107,8 +177,25 @@ LeadSchema.virtual('leadId').get(function leadIdVirtual(this: ILead) {
   return (this as any)._id.toString();
 });
 
+// Keep normalized phones in sync for duplicate detection
+LeadSchema.pre('validate', function preValidate(next) {
+  const lead = this as ILead;
+  if (lead.isNew || lead.isModified('contactNumber') || lead.isModified('alternateNumber')) {
+    lead.normalizedPhones = normalizePhones(lead.contactNumber, lead.alternateNumber);
+  }
+  next();
+});
+
 LeadSchema.index({ contactNumber: 1 });
+LeadSchema.index({ normalizedPhones: 1 });
+LeadSchema.index({ alternateNumber: 1 }, { sparse: true });
 LeadSchema.index({ leadStatus: 1, leadSource: 1 });
+LeadSchema.index({ createdAt: -1, _id: -1 });
+LeadSchema.index({ leadAssignedTo: 1, createdAt: -1 });
+LeadSchema.index({ subjectsRequired: 1 });
+LeadSchema.index({ 'classAndBoard.classLevel': 1, 'classAndBoard.board': 1 });
+LeadSchema.index({ preferredTuitionMode: 1, createdAt: -1 });
+LeadSchema.index({ 'classLocation.city': 1 });
 
 const Lead = mongoose.model<ILead, ILeadModel>('Lead', LeadSchema);
 
@@ -0,0 +1,91 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { FollowUpOutcome } from './LeadFollowUp';
+
+export enum LeadActivityType {
+  CALL = 'call',
+  NOTE = 'note',
+  WHATSAPP_MESSAGE = 'whatsapp_message',
+  DEMO_FEEDBACK = 'demo_feedback',
+  PAYMENT_RECORDED = 'payment_recorded',
+}
+
+export interface ILeadActivityCall {
+  durationMinutes?: number;
+  outcome: FollowUpOutcome;
+}
+
+export interface ILeadActivityPayment {
+  amount: number;
+  mode?: string;
+  reference?: string;
+}
+
+export interface ILeadActivityDemoFeedback {
+  rating?: number; // 1-5
+  tutor?: mongoose.Types.ObjectId;
+}
+
+export interface ILeadActivity extends Document {
+  lead: mongoose.Types.ObjectId;
+  type: LeadActivityType;
+  author: mongoose.Types.ObjectId;
+  content?: string;
+  call?: ILeadActivityCall;
+  payment?: ILeadActivityPayment;
+  demoFeedback?: ILeadActivityDemoFeedback;
+  occurredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ILeadActivityModel extends Model<ILeadActivity> {}
+
+const CallSchema = new Schema<ILeadActivityCall>(
+  {
+    durationMinutes: { type: Number, min: 0 },
+    outcome: { type: String, enum: Object.values(FollowUpOutcome), required: true },
+  },
+  { _id: false }
+);
+
+const PaymentSchema = new Schema<ILeadActivityPayment>(
+  {
+    amount: { type: Number, required: true, min: 0 },
+    mode: { type: String, trim: true },
+    reference: { type: String, trim: true },
+  },
+  { _id: false }
+);
+
+const DemoFeedbackSchema = new Schema<ILeadActivityDemoFeedback>(
+  {
+    rating: { type: Number, min: 1, max: 5 },
+    tutor: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { _id: false }
+);
+
+const LeadActivitySchema = new Schema<ILeadActivity, ILeadActivityModel>(
+  {
+    lead: { type: Schema.Types.ObjectId, ref: 'Lead', required: true },
+    type: { type: String, enum: Object.values(LeadActivityType), required: true },
+    author: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    content: { type: String, trim: true, maxlength: 2000 },
+    call: { type: CallSchema },
+    payment: { type: PaymentSchema },
+    demoFeedback: { type: DemoFeedbackSchema },
+    occurredAt: { type: Date, required: true, default: () => new Date() },
+  },
+  { timestamps: true }
+);
+
+LeadActivitySchema.index({ lead: 1, occurredAt: -1 });
+LeadActivitySchema.index({ lead: 1, type: 1, occurredAt: -1 });
+LeadActivitySchema.index({ lead: 1, author: 1, occurredAt: -1 });
+
+const LeadActivity = mongoose.model<ILeadActivity, ILeadActivityModel>(
+  'LeadActivity',
+  LeadActivitySchema
+);
+
+export default LeadActivity;
@@ -0,0 +1,78 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { TuitionMode } from './Lead';
+
+export enum DemoStatus {
+  SCHEDULED = 'scheduled',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export enum DemoOutcome {
+  APPROVED_BY_PARENT = 'approved_by_parent',
+  REJECTED_BY_PARENT = 'rejected_by_parent',
+  TUTOR_NOT_FOUND = 'tutor_not_found',
+}
+
+export interface ILeadDemo extends Document {
+  lead: mongoose.Types.ObjectId;
+  tutor: mongoose.Types.ObjectId;
+  scheduledAt: Date;
+  durationMinutes: number;
+  mode?: TuitionMode;
+  notes?: string;
+  status: DemoStatus;
+  outcome?: DemoOutcome;
+  parentFeedback?: string;
+  parentRating?: number; // 1-5
+  completedAt?: Date;
+  completedBy?: mongoose.Types.ObjectId;
+  cancelledAt?: Date;
+  cancelledBy?: mongoose.Types.ObjectId;
+  cancelReason?: string;
+  scheduledBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+
+  // virtuals
+  endsAt: Date;
+}
+
+interface ILeadDemoModel extends Model<ILeadDemo> {}
+
+const LeadDemoSchema = new Schema<ILeadDemo, ILeadDemoModel>(
+  {
+    lead: { type: Schema.Types.ObjectId, ref: 'Lead', required: true },
+    tutor: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    scheduledAt: { type: Date, required: true },
+    durationMinutes: { type: Number, required: true, min: 15, max: 240, default: 60 },
+    mode: { type: String, enum: Object.values(TuitionMode) },
+    notes: { type: String, trim: true, maxlength: 1000 },
+    status: {
+      type: String,
+      enum: Object.values(DemoStatus),
+      default: DemoStatus.SCHEDULED,
+      required: true,
+    },
+    outcome: { type: String, enum: Object.values(DemoOutcome) },
+    parentFeedback: { type: String, trim: true, maxlength: 2000 },
+    parentRating: { type: Number, min: 1, max: 5 },
+    completedAt: { type: Date },
+    completedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    cancelledAt: { type: Date },
+    cancelledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    cancelReason: { type: String, trim: true, maxlength: 500 },
+    scheduledBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true, toJSON: { virtuals: true }, toObject: { virtuals: true } }
+);
+
+LeadDemoSchema.virtual('endsAt').get(function endsAtVirtual(this: ILeadDemo) {
+  return new Date(this.scheduledAt.getTime() + this.durationMinutes * 60 * 1000);
+});
+
+LeadDemoSchema.index({ tutor: 1, status: 1, scheduledAt: 1 });
+LeadDemoSchema.index({ lead: 1, scheduledAt: -1 });
+
+const LeadDemo = mongoose.model<ILeadDemo, ILeadDemoModel>('LeadDemo', LeadDemoSchema);
+
+export default LeadDemo;
@@ -0,0 +1,72 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export enum FollowUpStatus {
+  PENDING = 'pending',
+  COMPLETED = 'completed',
+  CANCELLED = 'cancelled',
+}
+
+export enum FollowUpOutcome {
+  CONNECTED = 'connected',
+  NO_ANSWER = 'no_answer',
+  CALL_BACK_LATER = 'call_back_later',
+  NOT_INTERESTED = 'not_interested',
+  DEMO_BOOKED = 'demo_booked',
+  WRONG_NUMBER = 'wrong_number',
+}
+
+export interface ILeadFollowUp extends Document {
+  lead: mongoose.Types.ObjectId;
+  assignedTo: mongoose.Types.ObjectId;
+  dueAt: Date;
+  status: FollowUpStatus;
+  purpose?: string;
+  outcome?: FollowUpOutcome;
+  outcomeNote?: string;
+  nextAction?: string;
+  completedAt?: Date;
+  completedBy?: mongoose.Types.ObjectId;
+  nextFollowUp?: mongoose.Types.ObjectId;
+  reminderSentAt?: Date;
+  createdBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ILeadFollowUpModel extends Model<ILeadFollowUp> {}
+
+const LeadFollowUpSchema = new Schema<ILeadFollowUp, ILeadFollowUpModel>(
+  {
+    lead: { type: Schema.Types.ObjectId, ref: 'Lead', required: true, index: true },
+    assignedTo: { type: Schema.Types.ObjectId, ref: 'User', required: true },
+    dueAt: { type: Date, required: true },
+    status: {
+      type: String,
+      enum: Object.values(FollowUpStatus),
+      default: FollowUpStatus.PENDING,
+    },
+    purpose: { type: String, trim: true, maxlength: 500 },
+    outcome: { type: String, enum: Object.values(FollowUpOutcome) },
+    outcomeNote: { type: String, trim: true, maxlength: 1000 },
+    nextAction: { type: String, trim: true, maxlength: 500 },
+    completedAt: { type: Date },
+    completedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    nextFollowUp: { type: Schema.Types.ObjectId, ref: 'LeadFollowUp' },
+    reminderSentAt: { type: Date },
+    createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  },
+  { timestamps: true }
+);
+
+// "my follow-ups due today / overdue"
+LeadFollowUpSchema.index({ assignedTo: 1, status: 1, dueAt: 1 });
+// reminder sweep
+LeadFollowUpSchema.index({ status: 1, reminderSentAt: 1, dueAt: 1 });
+LeadFollowUpSchema.index({ lead: 1, dueAt: -1 });
+
+const LeadFollowUp = mongoose.model<ILeadFollowUp, ILeadFollowUpModel>(
+  'LeadFollowUp',
+  LeadFollowUpSchema
+);
+
+export default LeadFollowUp;
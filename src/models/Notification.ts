@@ -7,6 +7,7 @@ export interface INotificationMetadata {
   attendanceId?: string;
   courseId?: string;
   classId?: string;
+  leadId?: string;
   actionUrl?: string;
 }
 
@@ -50,6 +51,7 @@ const NotificationMetadataSchema = new Schema<INotificationMetadata>(
     attendanceId: { type: String },
     courseId: { type: String },
     classId: { type: String },
+    leadId: { type: String },
     actionUrl: { type: String },
   },
   { _id: false }
@@ -1,5 +1,5 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
-import { getCityCodeFromName } from '../utils/cityCodes';
+import { allocateId, IdKind } from '../utils/idAllocator';
 
 // Personal Details
 export interface IPersonalDetails {
@@ -79,16 +79,51 @@ export interface IAttendance extends Document {
 }
 
 // Payment Record (separate collection)
+// Upcoming: month still open, amount is an estimate; Pending: parent approved, owed; Paid
 export type PaymentStatus = 'Paid' | 'Pending' | 'Upcoming';
+export type PayoutAdjustmentKind = 'addition' | 'deduction';
+
+// One present session the payout pays for
+export interface IPayoutSession {
+  date: Date;
+  durationMinutes: number;
+  tutorTier?: string;
+  hourlyRate: number;
+  amount: number;
+}
+
+export interface IPayoutAdjustment {
+  _id?: mongoose.Types.ObjectId;
+  kind: PayoutAdjustmentKind;
+  amount: number; // always positive; kind decides the sign
+  reason: string;
+  addedBy?: mongoose.Types.ObjectId;
+  addedAt: Date;
+}
+
 export interface IPaymentRecord extends Document {
   paymentId: string;
   tutorId: mongoose.Types.ObjectId;
   classId?: string;
   className?: string;
-  amount?: number;
-  date?: Date;
+  amount?: number; // baseAmount plus additions minus deductions
+  date?: Date; // end of the month paid for
   status?: PaymentStatus;
-  paymentCycle?: string;
+  paymentCycle?: string; // attendance sheet's month label, e.g. "July 2025"
+  finalClass?: mongoose.Types.ObjectId;
+  sheetId?: mongoose.Types.ObjectId; // FinalClass.attendanceSheets._id
+  sessions: IPayoutSession[];
+  sessionsTaught?: number;
+  minutesTaught?: number;
+  baseAmount?: number;
+  adjustments: IPayoutAdjustment[];
+  paidAt?: Date;
+  paymentMode?: string;
+  paymentReference?: string;
+  paymentNotes?: string;
+  paidBy?: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Test Assignment (separate collection)
@@ -218,6 +253,26 @@ const AttendanceSchema = new Schema<IAttendance>(
 );
 AttendanceSchema.index({ tutorId: 1, classId: 1, date: 1 }, { unique: true });
 
+const PayoutSessionSchema = new Schema<IPayoutSession>(
+  {
+    date: { type: Date, required: true },
+    durationMinutes: { type: Number, required: true, min: 0 },
+    tutorTier: String,
+    hourlyRate: { type: Number, required: true, min: 0 },
+    amount: { type: Number, required: true, min: 0 },
+  },
+  { _id: false }
+);
+
+// Adjustments keep their _id so one can be removed
+const PayoutAdjustmentSchema = new Schema<IPayoutAdjustment>({
+  kind: { type: String, enum: ['addition', 'deduction'], required: true },
+  amount: { type: Number, required: true, min: 0 },
+  reason: { type: String, required: true, trim: true, maxlength: 500 },
+  addedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  addedAt: { type: Date, required: true, default: () => new Date() },
+});
+
 const PaymentRecordSchema = new Schema<IPaymentRecord>(
   {
     paymentId: { type: String, required: true, unique: true },
@@ -228,9 +283,28 @@ const PaymentRecordSchema = new Schema<IPaymentRecord>(
     date: Date,
     status: { type: String, enum: ['Paid', 'Pending', 'Upcoming'] },
     paymentCycle: String,
+    finalClass: { type: Schema.Types.ObjectId, ref: 'FinalClass' },
+    sheetId: { type: Schema.Types.ObjectId },
+    sessions: { type: [PayoutSessionSchema], default: [] },
+    sessionsTaught: { type: Number, min: 0 },
+    minutesTaught: { type: Number, min: 0 },
+    baseAmount: { type: Number, min: 0 },
+    adjustments: { type: [PayoutAdjustmentSchema], default: [] },
+    paidAt: Date,
+    paymentMode: { type: String, trim: true },
+    paymentReference: { type: String, trim: true },
+    paymentNotes: { type: String, trim: true },
+    paidBy: { type: Schema.Types.ObjectId, ref: 'User' },
   },
   { timestamps: true }
 );
+PaymentRecordSchema.index({ tutorId: 1, date: -1 });
+PaymentRecordSchema.index({ status: 1, date: -1 });
+// One payout per tutor per attendance sheet; older hand-made records have no sheet
+PaymentRecordSchema.index(
+  { finalClass: 1, sheetId: 1, tutorId: 1 },
+  { unique: true, partialFilterExpression: { sheetId: { $exists: true } } }
+);
 
 const TestAssignmentSchema = new Schema<ITestAssignment>(
   {
@@ -266,46 +340,21 @@ const TutorSchema = new Schema<ITutor, ITutorModel>(
   { timestamps: true }
 );
 
-function deriveGenderCode(gender?: string): string {
-  const g = String(gender || '').toLowerCase();
-  if (g.startsWith('m')) return 'M';
-  if (g.startsWith('f')) return 'F';
-  return 'X';
-}
-
-function normalizeCityCode(code?: string, cityName?: string): string {
-  // Prefer explicit code, else try mapping from city name, else fallback
-  const direct = code?.trim();
-  const mapped = getCityCodeFromName(cityName || undefined) || undefined;
-  const chosen = (direct && direct.toUpperCase()) || mapped || '';
-  const cleaned = chosen.toUpperCase().replace(/[^A-Z]/g, '');
-  return cleaned.slice(0, 5) || 'XXX';
-}
-
-async function generateUniqueTutorId(doc: ITutor): Promise<string> {
-  const genderCode = deriveGenderCode(doc.personalDetails?.gender);
-  const cityCode = normalizeCityCode(doc.locationPreferences?.cityCode, doc.locationPreferences?.city);
-  // 4-digit random from 1000-9999
-  // Loop until unique
-  // In practice, collisions are rare; cap attempts to avoid infinite loop
-  for (let attempts = 0; attempts < 20; attempts += 1) {
-    const rand = Math.floor(1000 + Math.random() * 9000);
-    const candidate = `T${genderCode}${cityCode}${rand}`;
-    const exists = await Tutor.exists({ 'personalDetails.tutorId': candidate });
-    if (!exists) return candidate;
-  }
-  // Fallback: include timestamp shard to reduce collisions further
-  const fallback = `T${genderCode}${cityCode}${Date.now().toString().slice(-4)}`;
-  return fallback;
-}
-
 // Generate tutorId automatically if missing, before validation
 TutorSchema.pre('validate', async function (next) {
   try {
     const doc = this as ITutor;
     if (!doc.personalDetails) (doc as any).personalDetails = {};
     if (!doc.personalDetails.tutorId) {
-      doc.personalDetails.tutorId = await generateUniqueTutorId(doc);
+      doc.personalDetails.tutorId = await allocateId(
+        IdKind.TUTOR,
+        {
+          gender: doc.personalDetails.gender,
+          cityCode: doc.locationPreferences?.cityCode,
+          city: doc.locationPreferences?.city,
+        },
+        doc.$session() || undefined
+      );
     }
     next();
   } catch (e) {
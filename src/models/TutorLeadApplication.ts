@@ -1,5 +1,44 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 import { hashPassword } from '../utils/password';
+import { allocateId, IdKind } from '../utils/idAllocator';
+
+export enum ApplicationStatus {
+  SUBMITTED = 'submitted',
+  UNDER_REVIEW = 'under_review',
+  CHANGES_REQUESTED = 'changes_requested',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+export enum ApplicationDocument {
+  AADHAR = 'aadhar',
+  AVATAR = 'avatar',
+}
+
+export enum DocumentCheckStatus {
+  PENDING = 'pending',
+  VERIFIED = 'verified',
+  REJECTED = 'rejected',
+}
+
+export interface IDocumentCheck {
+  status: DocumentCheckStatus;
+  note?: string;
+  checkedBy?: mongoose.Types.ObjectId;
+  checkedAt?: Date;
+}
+
+// One step of the review, staff actions and the applicant's resubmissions alike
+export interface IApplicationReviewEntry {
+  _id?: mongoose.Types.ObjectId;
+  action: 'document_checked' | 'changes_requested' | 'approved' | 'rejected' | 'resubmitted' | 'promoted';
+  fromStatus: ApplicationStatus;
+  toStatus: ApplicationStatus;
+  document?: ApplicationDocument;
+  note?: string;
+  by?: mongoose.Types.ObjectId; // unset when the applicant acted
+  at: Date;
+}
 
 export interface ITutorLeadApplication extends Document {
   teacherId: string;
@@ -17,7 +56,22 @@ export interface ITutorLeadApplication extends Document {
   preferredAreas: string[];
   pincode: string;
   password: string;
-  isVerification: boolean;
+  refreshToken?: string;
+  passwordResetTokenHash?: string; // sha256 of the emailed token
+  passwordResetExpiresAt?: Date;
+  passwordChangedAt?: Date; // access tokens issued before this are rejected
+  isVerification: boolean; // true exactly while status is approved
+  status: ApplicationStatus;
+  documentChecks: Record<ApplicationDocument, IDocumentCheck>;
+  reviewHistory: IApplicationReviewEntry[];
+  rejectionReason?: string;
+  reviewedBy?: mongoose.Types.ObjectId;
+  reviewedAt?: Date;
+  // Set once an approved applicant becomes a teacher account and Tutor profile
+  promotedUser?: mongoose.Types.ObjectId;
+  promotedTutor?: mongoose.Types.ObjectId;
+  promotedAt?: Date;
+  promotedBy?: mongoose.Types.ObjectId;
   aadharUrl?: string;
   avatarUrl?: string;
   address?: {
@@ -33,6 +87,34 @@ export interface ITutorLeadApplication extends Document {
 
 interface ITutorLeadApplicationModel extends Model<ITutorLeadApplication> {}
 
+const DocumentCheckSchema = new Schema<IDocumentCheck>(
+  {
+    status: {
+      type: String,
+      enum: Object.values(DocumentCheckStatus),
+      default: DocumentCheckStatus.PENDING,
+    },
+    note: { type: String, trim: true, maxlength: 500 },
+    checkedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    checkedAt: { type: Date },
+  },
+  { _id: false }
+);
+
+const ApplicationReviewEntrySchema = new Schema<IApplicationReviewEntry>({
+  action: {
+    type: String,
+    enum: ['document_checked', 'changes_requested', 'approved', 'rejected', 'resubmitted', 'promoted'],
+    required: true,
+  },
+  fromStatus: { type: String, enum: Object.values(ApplicationStatus), required: true },
+  toStatus: { type: String, enum: Object.values(ApplicationStatus), required: true },
+  document: { type: String, enum: Object.values(ApplicationDocument) },
+  note: { type: String, trim: true, maxlength: 1000 },
+  by: { type: Schema.Types.ObjectId, ref: 'User' },
+  at: { type: Date, default: Date.now },
+});
+
 const TutorLeadApplicationSchema = new Schema<ITutorLeadApplication, ITutorLeadApplicationModel>(
   {
     teacherId: { type: String, unique: true, index: true },
@@ -50,7 +132,31 @@ const TutorLeadApplicationSchema = new Schema<ITutorLeadApplication, ITutorLeadA
     preferredAreas: { type: [String], default: [], validate: [(arr: string[]) => arr.length > 0, 'At least one area required'] },
     pincode: { type: String, required: true, trim: true, match: [/^\d{6}$/ , 'Pincode must be 6 digits'] },
     password: { type: String, required: true, minlength: 6, select: false },
+    refreshToken: { type: String, select: false },
+    passwordResetTokenHash: { type: String, select: false },
+    passwordResetExpiresAt: { type: Date },
+    passwordChangedAt: { type: Date },
     isVerification: { type: Boolean, default: false },
+    status: {
+      type: String,
+      enum: Object.values(ApplicationStatus),
+      // Applications from before the review workflow take their status from isVerification
+      default(this: ITutorLeadApplication) {
+        return this.isVerification ? ApplicationStatus.APPROVED : ApplicationStatus.SUBMITTED;
+      },
+    },
+    documentChecks: {
+      aadhar: { type: DocumentCheckSchema, default: () => ({}) },
+      avatar: { type: DocumentCheckSchema, default: () => ({}) },
+    },
+    reviewHistory: { type: [ApplicationReviewEntrySchema], default: [] },
+    rejectionReason: { type: String, trim: true, maxlength: 1000 },
+    reviewedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+    reviewedAt: { type: Date },
+    promotedUser: { type: Schema.Types.ObjectId, ref: 'User' },
+    promotedTutor: { type: Schema.Types.ObjectId, ref: 'Tutor' },
+    promotedAt: { type: Date },
+    promotedBy: { type: Schema.Types.ObjectId, ref: 'User' },
     aadharUrl: { type: String, trim: true },
     avatarUrl: { type: String, trim: true },
     address: {
@@ -64,35 +170,15 @@ const TutorLeadApplicationSchema = new Schema<ITutorLeadApplication, ITutorLeadA
   { timestamps: true }
 );
 
-function randomLetters(count: number) {
-  const letters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-  let s = '';
-  for (let i = 0; i < count; i += 1) s += letters[Math.floor(Math.random() * letters.length)];
-  return s;
-}
-
-function randomDigits(count: number) {
-  let n = '';
-  for (let i = 0; i < count; i += 1) n += Math.floor(Math.random() * 10).toString();
-  return n;
-}
-
-async function generateUniqueTeacherId(gender: ITutorLeadApplication['gender']): Promise<string> {
-  const g = (gender || 'Other').charAt(0).toUpperCase();
-  for (let attempts = 0; attempts < 25; attempts += 1) {
-    const candidate = `T${g}${randomLetters(2)}${randomDigits(4)}`;
-    const exists = await TutorLeadApplication.exists({ teacherId: candidate });
-    if (!exists) return candidate;
-  }
-  // fallback with timestamp shard
-  return `T${g}${randomLetters(2)}${Date.now().toString().slice(-4)}`;
-}
-
 TutorLeadApplicationSchema.pre('validate', async function preValidate(next) {
   try {
     const doc = this as ITutorLeadApplication;
     if (!doc.teacherId) {
-      doc.teacherId = await generateUniqueTeacherId(doc.gender);
+      doc.teacherId = await allocateId(
+        IdKind.APPLICANT,
+        { gender: doc.gender, city: doc.city },
+        doc.$session() || undefined
+      );
     }
     next();
   } catch (e) {
@@ -115,6 +201,8 @@ TutorLeadApplicationSchema.pre('save', async function preSave(next) {
 TutorLeadApplicationSchema.index({ email: 1 });
 TutorLeadApplicationSchema.index({ phoneNumber: 1 });
 TutorLeadApplicationSchema.index({ teacherId: 1 }, { unique: true });
+TutorLeadApplicationSchema.index({ status: 1, createdAt: -1 });
+TutorLeadApplicationSchema.index({ city: 1, subjects: 1 });
 
 const TutorLeadApplication = mongoose.model<ITutorLeadApplication, ITutorLeadApplicationModel>('TutorLeadApplication', TutorLeadApplicationSchema);
 export default TutorLeadApplication;
@@ -22,6 +22,8 @@ export interface IUser extends Document {
       country?: string;
     };
   };
+  // Cities a manager oversees for lead access; falls back to profile.address.city
+  managedCities?: string[];
   isActive: boolean;
   isEmailVerified: boolean;
   lastLogin?: Date;
@@ -82,6 +84,7 @@ const UserSchema = new Schema<IUser, IUserModel>(
       index: true,
     },
     profile: { type: ProfileSchema, required: true },
+    managedCities: { type: [{ type: String, trim: true }], default: undefined },
     isActive: { type: Boolean, default: true },
     isEmailVerified: { type: Boolean, default: false },
     lastLogin: { type: Date },
@@ -20,6 +20,7 @@ import {
   getMyAuditLogs,
   getUserStats,
 } from '../controllers/adminController';
+import { getFormats, previewNextId, updateFormats } from '../controllers/idFormatController';
 import {
   createUserValidation,
   updateUserValidation,
@@ -29,6 +30,8 @@ import {
   updateSettingValidation,
   userIdParamValidation,
   settingKeyParamValidation,
+  updateIdFormatsValidation,
+  previewIdValidation,
   auditLogQueryValidation,
   userQueryValidation,
   handleAdminValidationErrors,
@@ -419,6 +422,11 @@ router.get(
  *                 type: object
  *               isActive:
  *                 type: boolean
+ *               managedCities:
+ *                 type: array
+ *                 description: Cities whose leads a manager can see
+ *                 items:
+ *                   type: string
  *     responses:
  *       200:
  *         description: User updated successfully
@@ -670,5 +678,120 @@ router.delete(
   deleteSetting
 );
 
+/**
+ * @swagger
+ * /api/v1/admin/id-formats:
+ *   get:
+ *     summary: Formats used for class, tutor, applicant and payout ids
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current formats (defaults unless changed)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *   put:
+ *     summary: Change one or more id formats
+ *     description: |
+ *       Tokens: {CITY}, {GENDER} (M/F/X), {YYYY}, {YY}, {MM} and exactly one {SEQ} or {SEQ:n}
+ *       (zero-padded to n digits). Each distinct prefix gets its own counter, and numbers
+ *       already used by existing ids are skipped. Existing ids are not renamed.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               class:
+ *                 type: string
+ *                 example: CL-{CITY}-{SEQ:4}
+ *               tutor:
+ *                 type: string
+ *                 example: T{GENDER}{CITY}{SEQ:4}
+ *               applicant:
+ *                 type: string
+ *                 example: TL{GENDER}{SEQ:5}
+ *               payout:
+ *                 type: string
+ *                 example: PAY-{YYYY}{MM}-{SEQ:4}
+ *     responses:
+ *       200:
+ *         description: Formats updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ */
+router.get('/id-formats', authenticate, authorize(UserRole.ADMIN), getFormats);
+router.put(
+  '/id-formats',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  updateIdFormatsValidation,
+  handleAdminValidationErrors,
+  updateFormats
+);
+
+/**
+ * @swagger
+ * /api/v1/admin/id-formats/preview:
+ *   get:
+ *     summary: Preview the next id of a kind without allocating it
+ *     description: The preview is not reserved; a concurrent allocation may take it first.
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: kind
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [class, tutor, applicant, payout]
+ *       - in: query
+ *         name: cityCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: city
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: gender
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         description: Try a format before saving it
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The id the next allocation would return
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin, Manager or Coordinator
+ */
+router.get(
+  '/id-formats/preview',
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER, UserRole.COORDINATOR),
+  previewIdValidation,
+  handleAdminValidationErrors,
+  previewNextId
+);
+
 export default router;
 
@@ -1,14 +1,76 @@
 import { Router } from 'express';
 import authenticate from '../middlewares/auth';
-import { convertLead } from '../controllers/finalClassController';
+import { authorize, authorizeFinalClassAccess, authorizeLeadAccess } from '../middlewares/rbac';
+import { uploadSingleTestReport } from '../middlewares/upload';
+import { UserRole } from '../types/enums';
+import {
+  activateFinalClass,
+  assignTutor,
+  convertLead,
+  deactivateFinalClass,
+  getFinalClass,
+  listFinalClasses,
+  reassignTutor,
+  recordRenewal,
+  updateFinalClass,
+} from '../controllers/finalClassController';
+import {
+  createApprovalLink,
+  listAttendanceSheets,
+  lockSheet,
+  logSession,
+} from '../controllers/attendanceSheetController';
+import {
+  addTestReport,
+  listTestReports,
+  scheduleTest,
+  updateTestReport,
+} from '../controllers/testReportController';
+import {
+  assignFinalClassTutorValidation,
+  changeFinalClassStatusValidation,
+  convertLeadValidation,
+  finalClassIdParamValidation,
+  handleFinalClassValidationErrors,
+  listFinalClassesValidation,
+  reassignFinalClassTutorValidation,
+  recordRenewalValidation,
+  updateFinalClassValidation,
+} from '../validators/finalClassValidator';
+import {
+  attendanceSheetActionValidation,
+  classAttendanceParamValidation,
+  handleAttendanceSheetValidationErrors,
+  logSessionValidation,
+} from '../validators/attendanceSheetValidator';
+import {
+  addTestReportValidation,
+  classTestParamValidation,
+  handleTestReportValidationErrors,
+  scheduleTestValidation,
+  updateTestReportValidation,
+} from '../validators/testReportValidator';
+import { linkParent } from '../controllers/parentController';
+import { handleParentValidationErrors, linkParentValidation } from '../validators/parentValidator';
+import { findLeadIdOfFinalClass, LEAD_STAFF_ROLES } from '../services/leadAccessService';
 
 const router = Router();
 
+// Final classes follow the access rules of the lead they were converted from
+const classStaff = authorize(...LEAD_STAFF_ROLES);
+const classLeadAccess = authorizeLeadAccess((req) => findLeadIdOfFinalClass(req.params.id));
+
 /**
  * @swagger
  * /api/v1/classes/convert:
  *   post:
  *     summary: Convert an approved & paid lead into a final class
+ *     description: |
+ *       Runs in one MongoDB transaction. Optionally creates (or, with linkExisting, reuses) the
+ *       student and parent accounts, adds the class to the tutor's assignedClasses and bills the
+ *       first month: an existing conversion invoice for the lead is linked to the class, otherwise
+ *       one is created, issued and marked paid. Any failure rolls everything back. Generated
+ *       passwords are emailed to the account holders once the conversion commits.
  *     tags: [FinalClass]
  *     security:
  *       - BearerAuth: []
@@ -34,17 +96,846 @@ const router = Router();
  *               monthStartDate:
  *                 type: string
  *                 format: date
+ *               student:
+ *                 type: object
+ *                 required: [email]
+ *                 properties:
+ *                   email:
+ *                     type: string
+ *                   password:
+ *                     type: string
+ *                     description: Omit to generate a temporary password, which is emailed to the account
+ *                   firstName:
+ *                     type: string
+ *                   lastName:
+ *                     type: string
+ *                   phone:
+ *                     type: string
+ *                   linkExisting:
+ *                     type: boolean
+ *                     description: Use the existing account with this email instead of refusing
+ *               parent:
+ *                 type: object
+ *                 required: [email]
+ *                 properties:
+ *                   email:
+ *                     type: string
+ *                   password:
+ *                     type: string
+ *                     description: Omit to generate a temporary password, which is emailed to the account
+ *                   firstName:
+ *                     type: string
+ *                   lastName:
+ *                     type: string
+ *                   phone:
+ *                     type: string
+ *                   linkExisting:
+ *                     type: boolean
+ *                     description: Use the existing account with this email instead of refusing
+ *               invoice:
+ *                 type: object
+ *                 properties:
+ *                   lineItems:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         description:
+ *                           type: string
+ *                         quantity:
+ *                           type: number
+ *                         unitPrice:
+ *                           type: number
+ *                   gstRate:
+ *                     type: number
+ *                   interState:
+ *                     type: boolean
+ *                   customerGstin:
+ *                     type: string
+ *                   notes:
+ *                     type: string
+ *                   paymentMode:
+ *                     type: string
+ *                   paymentReference:
+ *                     type: string
  *     responses:
- *       200:
- *         description: Lead converted to final class successfully
+ *       201:
+ *         description: Class created; returns the class, lead, accounts (credentialsEmailed tells whether a generated password was sent) and invoice
  *       400:
  *         description: Validation error or lead not approved/paid
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - staff with access to the lead only
+ *       404:
+ *         description: Lead or tutor not found
+ *       409:
+ *         description: Email registered with another role or to an account not confirmed with linkExisting, tutor inactive, or invoice already exists
+ */
+router.post(
+  '/convert',
+  authenticate,
+  classStaff,
+  convertLeadValidation,
+  handleFinalClassValidationErrors,
+  authorizeLeadAccess((req) => req.body.leadId),
+  convertLead
+);
+
+/**
+ * @swagger
+ * /api/v1/classes:
+ *   get:
+ *     summary: List final classes (soonest renewal first) for leads the caller can access
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: classStatus
+ *         schema:
+ *           type: string
+ *           enum: [active, inactive]
+ *       - in: query
+ *         name: tutorAssigned
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leadId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cityCode
+ *         description: City segment of the classId (CL-<CITY>-...)
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: renewalFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: renewalTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: renewsWithinDays
+ *         description: Classes whose monthRenewDate falls between now and now + N days
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated final classes
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - staff only
+ */
+router.get(
+  '/',
+  authenticate,
+  classStaff,
+  listFinalClassesValidation,
+  handleFinalClassValidationErrors,
+  listFinalClasses
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}:
+ *   get:
+ *     summary: Get a final class with its lead and tutors
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Final class details
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Final class not found
+ *   patch:
+ *     summary: Update tier and dates of a final class
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               tutorTier:
+ *                 type: string
+ *               firstMonthStartDate:
+ *                 type: string
+ *                 format: date
+ *               monthStartDate:
+ *                 type: string
+ *                 format: date
+ *               monthRenewDate:
+ *                 type: string
+ *                 format: date
+ *               testDate:
+ *                 type: string
+ *                 format: date
+ *               testTutorAssigned:
+ *                 type: string
+ *                 nullable: true
+ *     responses:
+ *       200:
+ *         description: Final class updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Final class or tutor not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  classStaff,
+  finalClassIdParamValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  getFinalClass
+);
+router.patch(
+  '/:id',
+  authenticate,
+  classStaff,
+  updateFinalClassValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  updateFinalClass
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/tutor:
+ *   put:
+ *     summary: Assign the tutor of an active final class
+ *     description: For a class without a tutor, or to change the current tutor's tier. Replacing the tutor uses /tutor/reassign.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [tutorId]
+ *             properties:
+ *               tutorId:
+ *                 type: string
+ *               tutorTier:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tutor assigned
+ *       404:
+ *         description: Final class or tutor not found
+ *       409:
+ *         description: Class is inactive, already has another tutor, or tutor account is not active
+ */
+router.put(
+  '/:id/tutor',
+  authenticate,
+  classStaff,
+  assignFinalClassTutorValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  assignTutor
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/parent:
+ *   put:
+ *     summary: Link a parent account to a final class
+ *     description: Gives the parent portal access to the class. One parent can be linked to several classes; linking another parent replaces the current one.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [parentId]
+ *             properties:
+ *               parentId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Parent linked
+ *       404:
+ *         description: Final class or parent not found
+ *       409:
+ *         description: Parent account is not active
+ */
+router.put(
+  '/:id/parent',
+  authenticate,
+  classStaff,
+  linkParentValidation,
+  handleParentValidationErrors,
+  classLeadAccess,
+  linkParent
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/tutor/reassign:
+ *   post:
+ *     summary: Hand an active class over to another tutor
+ *     description: Closes the current tutor's entry in tutorHistory with the reason, effective date and handover notes, starts the new tutor's entry, moves the class between both tutors' assignedClasses and notifies them.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [tutorId, reason]
+ *             properties:
+ *               tutorId:
+ *                 type: string
+ *               reason:
+ *                 type: string
+ *                 enum: [parent_complaint, tutor_left, schedule_clash, other]
+ *               reasonNotes:
+ *                 type: string
+ *               effectiveDate:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now; may be backdated but not in the future
+ *               handoverNotes:
+ *                 type: string
+ *               tutorTier:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tutor reassigned
+ *       400:
+ *         description: Effective date in the future or before the current tutor started
+ *       404:
+ *         description: Final class or tutor not found
+ *       409:
+ *         description: Class inactive, has no tutor yet, or the tutor is already assigned
+ */
+router.post(
+  '/:id/tutor/reassign',
+  authenticate,
+  classStaff,
+  reassignFinalClassTutorValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  reassignTutor
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/activate:
+ *   post:
+ *     summary: Reactivate a final class
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Class activated; the change is added to statusHistory
+ *       409:
+ *         description: Class is already active
+ */
+router.post(
+  '/:id/activate',
+  authenticate,
+  classStaff,
+  changeFinalClassStatusValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  activateFinalClass
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/deactivate:
+ *   post:
+ *     summary: Deactivate a final class
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Class deactivated; the change is added to statusHistory
+ *       409:
+ *         description: Class is already inactive
+ */
+router.post(
+  '/:id/deactivate',
+  authenticate,
+  classStaff,
+  changeFinalClassStatusValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  deactivateFinalClass
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/renewals:
+ *   post:
+ *     summary: Record a renewal payment and roll the class into its next monthly cycle
+ *     description: >
+ *       The new cycle starts on the current monthRenewDate. A class deactivated for
+ *       non-payment restarts from the payment day and is reactivated.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [amount]
+ *             properties:
+ *               amount:
+ *                 type: number
+ *               paymentMode:
+ *                 type: string
+ *               paymentReference:
+ *                 type: string
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Renewal recorded
+ *       400:
+ *         description: Validation error or class has no renewal date
+ *       404:
+ *         description: Final class not found
+ *       409:
+ *         description: Class was deactivated manually
+ */
+router.post(
+  '/:id/renewals',
+  authenticate,
+  classStaff,
+  recordRenewalValidation,
+  handleFinalClassValidationErrors,
+  classLeadAccess,
+  recordRenewal
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/attendance:
+ *   get:
+ *     summary: Monthly attendance sheets of a final class, newest first
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance sheets with their sessions and approval state
+ *       403:
+ *         description: Forbidden - staff in scope or the class's tutor only
+ *       404:
+ *         description: Final class not found
+ *   post:
+ *     summary: Log (or correct) a session in the current month's sheet (assigned tutor only)
+ *     description: >
+ *       One record per day; logging the same day again replaces it. Months approved by
+ *       the parent or locked by a coordinator cannot be changed. Correcting a disputed
+ *       month sends it back to the parent for review.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [date, present]
+ *             properties:
+ *               date:
+ *                 type: string
+ *                 format: date
+ *               present:
+ *                 type: boolean
+ *               durationMinutes:
+ *                 type: integer
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Session logged; returns the month's sheet
+ *       400:
+ *         description: Validation error, future date or date outside the current month
+ *       403:
+ *         description: Not the class's tutor
+ *       409:
+ *         description: Class inactive, or month approved or locked
+ */
+router.get(
+  '/:id/attendance',
+  authenticate,
+  authorize(...LEAD_STAFF_ROLES, UserRole.TEACHER),
+  classAttendanceParamValidation,
+  handleAttendanceSheetValidationErrors,
+  authorizeFinalClassAccess({ allowTutor: true }),
+  listAttendanceSheets
+);
+router.post(
+  '/:id/attendance',
+  authenticate,
+  authorize(UserRole.TEACHER),
+  logSessionValidation,
+  handleAttendanceSheetValidationErrors,
+  authorizeFinalClassAccess({ allowTutor: true }),
+  logSession
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/attendance/{sheetId}/approval-link:
+ *   post:
+ *     summary: Create a signed link for the parent to review and approve a month
+ *     description: The link expires after ATTENDANCE_APPROVAL_LINK_EXPIRES_IN (default 14d), works for one decision and replaces any earlier link for the month.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sheetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       201:
+ *         description: "{ token, url } to share with the parent"
+ *       404:
+ *         description: Final class or sheet not found
+ *       409:
+ *         description: Month is locked
+ */
+router.post(
+  '/:id/attendance/:sheetId/approval-link',
+  authenticate,
+  classStaff,
+  attendanceSheetActionValidation,
+  handleAttendanceSheetValidationErrors,
+  classLeadAccess,
+  createApprovalLink
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/attendance/{sheetId}/lock:
+ *   post:
+ *     summary: Lock a month's attendance so neither tutor nor parent can change it
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sheetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Sheet locked
+ *       404:
+ *         description: Final class or sheet not found
+ *       409:
+ *         description: Already locked
+ */
+router.post(
+  '/:id/attendance/:sheetId/lock',
+  authenticate,
+  classStaff,
+  attendanceSheetActionValidation,
+  handleAttendanceSheetValidationErrors,
+  classLeadAccess,
+  lockSheet
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/test:
+ *   put:
+ *     summary: Schedule (or reschedule) the monthly test with a test tutor
+ *     description: The test tutor gets an in-app notification.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [testDate, testTutorId]
+ *             properties:
+ *               testDate:
+ *                 type: string
+ *                 format: date-time
+ *               testTutorId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Test scheduled
+ *       404:
+ *         description: Final class or tutor not found
+ *       409:
+ *         description: Class or tutor account inactive
+ */
+router.put(
+  '/:id/test',
+  authenticate,
+  classStaff,
+  scheduleTestValidation,
+  handleTestReportValidationErrors,
+  classLeadAccess,
+  scheduleTest
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/test-reports:
+ *   get:
+ *     summary: Test history of a class, month by month (latest first)
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled test and past reports
+ *       403:
+ *         description: Forbidden - staff in scope, the class's tutor or its test tutor only
+ *   post:
+ *     summary: Upload the report for a month (staff or the test tutor)
+ *     description: >
+ *       Uploading again for a month that already has a report replaces its file. The month
+ *       defaults to that of the scheduled test. Either a file or notes is required.
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               report:
+ *                 type: string
+ *                 format: binary
+ *                 description: PDF or image, up to 10MB
+ *               monthLabel:
+ *                 type: string
+ *                 example: July 2025
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Report saved
+ *       400:
+ *         description: Validation error or neither file nor notes given
+ *       503:
+ *         description: Upload to file storage failed
+ */
+router.get(
+  '/:id/test-reports',
+  authenticate,
+  authorize(...LEAD_STAFF_ROLES, UserRole.TEACHER),
+  classTestParamValidation,
+  handleTestReportValidationErrors,
+  authorizeFinalClassAccess({ allowTutor: true, allowTestTutor: true }),
+  listTestReports
+);
+router.post(
+  '/:id/test-reports',
+  authenticate,
+  authorize(...LEAD_STAFF_ROLES, UserRole.TEACHER),
+  uploadSingleTestReport('report'),
+  addTestReportValidation,
+  handleTestReportValidationErrors,
+  authorizeFinalClassAccess({ allowTestTutor: true }),
+  addTestReport
+);
+
+/**
+ * @swagger
+ * /api/v1/classes/{id}/test-reports/{reportId}:
+ *   patch:
+ *     summary: Update the notes on a month's test report (staff or the test tutor)
+ *     tags: [FinalClass]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: reportId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [notes]
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Notes updated
  *       404:
- *         description: Lead not found
+ *         description: Final class or report not found
  */
-router.post('/convert', authenticate, convertLead);
+router.patch(
+  '/:id/test-reports/:reportId',
+  authenticate,
+  authorize(...LEAD_STAFF_ROLES, UserRole.TEACHER),
+  updateTestReportValidation,
+  handleTestReportValidationErrors,
+  authorizeFinalClassAccess({ allowTestTutor: true }),
+  updateTestReport
+);
 
 export default router;
 
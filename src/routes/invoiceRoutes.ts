@@ -0,0 +1,381 @@
+import { Router } from 'express';
+import authenticate from '../middlewares/auth';
+import { authorize, authorizeLeadAccess } from '../middlewares/rbac';
+import { UserRole } from '../types/enums';
+import {
+  createInvoice,
+  getInvoice,
+  issueInvoice,
+  listInvoices,
+  payInvoice,
+  renderInvoice,
+  updateInvoice,
+  voidInvoice,
+} from '../controllers/invoiceController';
+import {
+  createInvoiceValidation,
+  handleInvoiceValidationErrors,
+  invoiceIdParamValidation,
+  issueInvoiceValidation,
+  listInvoicesValidation,
+  payInvoiceValidation,
+  renderInvoiceValidation,
+  updateInvoiceValidation,
+  voidInvoiceValidation,
+} from '../validators/invoiceValidator';
+import {
+  findLeadIdOfFinalClass,
+  findLeadIdOfInvoice,
+  LEAD_STAFF_ROLES,
+} from '../services/leadAccessService';
+
+const router = Router();
+
+// Invoices follow the access rules of the lead they bill
+const invoiceStaff = authorize(...LEAD_STAFF_ROLES);
+const invoiceLeadAccess = authorizeLeadAccess((req) => findLeadIdOfInvoice(req.params.id));
+const newInvoiceLeadAccess = authorizeLeadAccess(
+  (req) => req.body.leadId || findLeadIdOfFinalClass(req.body.finalClassId)
+);
+
+/**
+ * @swagger
+ * /api/v1/invoices:
+ *   post:
+ *     summary: Draft an invoice for a lead or for one monthly cycle of a final class
+ *     description: >
+ *       Line items default to the lead's classes per month x fee (or one monthly fee when
+ *       numClassesPerMonth is not set). GST defaults to INVOICE_GST_RATE and is split into
+ *       CGST + SGST, or charged as IGST when interState is true.
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               leadId:
+ *                 type: string
+ *               finalClassId:
+ *                 type: string
+ *               cityCode:
+ *                 type: string
+ *                 description: Required unless finalClassId is given (taken from its classId)
+ *               periodStart:
+ *                 type: string
+ *                 format: date
+ *                 description: Defaults to the class's monthStartDate, else today
+ *               lineItems:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     description:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     unitPrice:
+ *                       type: number
+ *               gstRate:
+ *                 type: number
+ *               interState:
+ *                 type: boolean
+ *               customerGstin:
+ *                 type: string
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Draft invoice created
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Lead or final class not found
+ *       409:
+ *         description: A non-void invoice already exists for this cycle
+ *   get:
+ *     summary: List invoices (newest first) for leads the caller can access
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, issued, paid, void]
+ *       - in: query
+ *         name: leadId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: finalClassId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: cityCode
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: issuedFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: issuedTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Paginated invoices
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/',
+  authenticate,
+  invoiceStaff,
+  createInvoiceValidation,
+  handleInvoiceValidationErrors,
+  newInvoiceLeadAccess,
+  createInvoice
+);
+router.get(
+  '/',
+  authenticate,
+  invoiceStaff,
+  listInvoicesValidation,
+  handleInvoiceValidationErrors,
+  listInvoices
+);
+
+/**
+ * @swagger
+ * /api/v1/invoices/{id}:
+ *   get:
+ *     summary: Get an invoice
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice with its lead and final class
+ *       404:
+ *         description: Invoice not found
+ *   patch:
+ *     summary: Edit a draft invoice (line items, GST, customer GSTIN, notes)
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Invoice updated and totals recalculated
+ *       409:
+ *         description: Invoice is not a draft
+ */
+router.get(
+  '/:id',
+  authenticate,
+  invoiceStaff,
+  invoiceIdParamValidation,
+  handleInvoiceValidationErrors,
+  invoiceLeadAccess,
+  getInvoice
+);
+router.patch(
+  '/:id',
+  authenticate,
+  invoiceStaff,
+  updateInvoiceValidation,
+  handleInvoiceValidationErrors,
+  invoiceLeadAccess,
+  updateInvoice
+);
+
+/**
+ * @swagger
+ * /api/v1/invoices/{id}/issue:
+ *   post:
+ *     summary: Issue a draft invoice and allocate its number (INV/<CITY>/<FY>/<seq>)
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               dueDate:
+ *                 type: string
+ *                 format: date
+ *     responses:
+ *       200:
+ *         description: Invoice issued
+ *       409:
+ *         description: Invoice is not a draft
+ */
+router.post(
+  '/:id/issue',
+  authenticate,
+  invoiceStaff,
+  issueInvoiceValidation,
+  handleInvoiceValidationErrors,
+  invoiceLeadAccess,
+  issueInvoice
+);
+
+/**
+ * @swagger
+ * /api/v1/invoices/{id}/pay:
+ *   post:
+ *     summary: Record payment of an issued invoice
+ *     description: Paying an invoice not linked to a final class also marks the lead's payment as received. Paying a class's renewal invoice renews the class; a class deactivated by staff must be activated first.
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               paymentMode:
+ *                 type: string
+ *               paymentReference:
+ *                 type: string
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       200:
+ *         description: Invoice marked paid
+ *       409:
+ *         description: Invoice is not issued, or it renews a class that staff deactivated
+ */
+router.post(
+  '/:id/pay',
+  authenticate,
+  invoiceStaff,
+  payInvoiceValidation,
+  handleInvoiceValidationErrors,
+  invoiceLeadAccess,
+  payInvoice
+);
+
+/**
+ * @swagger
+ * /api/v1/invoices/{id}/void:
+ *   post:
+ *     summary: Void a draft or issued invoice (Manager/Admin)
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Invoice voided; an issued number stays with it
+ *       409:
+ *         description: Invoice is paid or already void
+ */
+router.post(
+  '/:id/void',
+  authenticate,
+  authorize(UserRole.ADMIN, UserRole.MANAGER),
+  voidInvoiceValidation,
+  handleInvoiceValidationErrors,
+  invoiceLeadAccess,
+  voidInvoice
+);
+
+/**
+ * @swagger
+ * /api/v1/invoices/{id}/render:
+ *   get:
+ *     summary: Render an invoice as printable HTML or PDF
+ *     tags: [Invoices]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [html, pdf]
+ *           default: html
+ *     responses:
+ *       200:
+ *         description: Invoice document
+ *         content:
+ *           text/html: {}
+ *           application/pdf: {}
+ */
+router.get(
+  '/:id/render',
+  authenticate,
+  invoiceStaff,
+  renderInvoiceValidation,
+  handleInvoiceValidationErrors,
+  invoiceLeadAccess,
+  renderInvoice
+);
+
+export default router;
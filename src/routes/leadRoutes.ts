@@ -1,10 +1,83 @@
 import { Router } from 'express';
 import authenticate from '../middlewares/auth';
-import { createLead, getLead, listLeads } from '../controllers/leadController';
-import { createLeadValidation, handleLeadValidationErrors, leadIdParamValidation } from '../validators/leadValidator';
+import { authorize, authorizeLeadAccess, authorizeMinRole } from '../middlewares/rbac';
+import { uploadSingleCsv } from '../middlewares/upload';
+import { UserRole } from '../types/enums';
+import {
+  createLead,
+  exportLeads,
+  getLead,
+  getLeadDuplicates,
+  getTutorMatches,
+  importLeads,
+  listLeads,
+  mergeLead,
+  updateLeadStatus,
+} from '../controllers/leadController';
+import {
+  createLeadValidation,
+  handleLeadValidationErrors,
+  importLeadsValidation,
+  leadIdParamValidation,
+  listLeadsQueryValidation,
+  mergeLeadValidation,
+  tutorMatchesQueryValidation,
+  updateLeadStatusValidation,
+} from '../validators/leadValidator';
+import {
+  completeLeadFollowUp,
+  createLeadFollowUp,
+  getLeadFollowUps,
+  getMyLeadFollowUps,
+} from '../controllers/leadFollowUpController';
+import {
+  completeFollowUpValidation,
+  createFollowUpValidation,
+  listFollowUpsValidation,
+  myFollowUpsQueryValidation,
+} from '../validators/leadFollowUpValidator';
+import { createLeadActivity, getLeadActivities } from '../controllers/leadActivityController';
+import {
+  getAssignmentRules,
+  getLeadAssignments,
+  reassignLead,
+  updateAssignmentRules,
+} from '../controllers/leadAssignmentController';
+import {
+  cancelDemo,
+  checkTutorAvailability,
+  getLeadDemos,
+  getMyDemos,
+  recordDemoOutcome,
+  scheduleDemo,
+} from '../controllers/leadDemoController';
+import {
+  cancelDemoValidation,
+  demoOutcomeValidation,
+  scheduleDemoValidation,
+  tutorAvailabilityValidation,
+} from '../validators/leadDemoValidator';
+import {
+  reassignLeadValidation,
+  updateAssignmentRulesValidation,
+} from '../validators/leadAssignmentValidator';
+import {
+  createLeadActivityValidation,
+  listLeadActivitiesValidation,
+} from '../validators/leadActivityValidator';
+import {
+  findLeadIdOfDemo,
+  findLeadIdOfFollowUp,
+  LEAD_STAFF_ROLES,
+} from '../services/leadAccessService';
 
 const router = Router();
 
+// Teachers and students never work with leads; row-level scope is checked per lead
+const leadStaff = authorize(...LEAD_STAFF_ROLES);
+const demoLeadAccess = authorizeLeadAccess((req) => findLeadIdOfDemo(req.params.demoId));
+const followUpLeadAccess = authorizeLeadAccess((req) => findLeadIdOfFollowUp(req.params.followUpId));
+
 /**
  * @swagger
  * /api/v1/leads:
@@ -21,29 +94,497 @@ const router = Router();
  *             $ref: '#/components/schemas/CreateLeadRequest'
  *     responses:
  *       201:
- *         description: Lead created successfully
+ *         description: Lead created successfully; likely duplicates (same phone or names) are returned in data.duplicates
  *       400:
  *         description: Validation error
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Coordinator/Manager/Admin only; only managers and admins may set leadAssignedTo
+ *       404:
+ *         description: leadAssignedTo is not a coordinator or manager
+ *       409:
+ *         description: leadAssignedTo account is not active
  */
-router.post('/', authenticate, createLeadValidation, handleLeadValidationErrors, createLead);
+router.post('/', authenticate, leadStaff, createLeadValidation, handleLeadValidationErrors, createLead);
 
 /**
  * @swagger
  * /api/v1/leads:
  *   get:
- *     summary: List leads (newest first)
+ *     summary: List leads (newest first) with filters, search and pagination
+ *     description: >
+ *       Coordinators see leads assigned to them, managers the leads in their cities
+ *       (managedCities, else profile city) plus their own, admins all leads. Phone
+ *       numbers are masked for managers on leads they do not own.
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: leadStatus
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leadSource
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: preferredTuitionMode
+ *         schema:
+ *           type: string
+ *           enum: [online, offline]
+ *       - in: query
+ *         name: subject
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: classLevel
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: board
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: leadAssignedTo
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: isConverted
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: createdFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: createdTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: search
+ *         description: Matches parent/student name or phone digits
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: cursor
+ *         description: Pass an empty value for the first page, then nextCursor from the previous response
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Leads with total count and page or nextCursor
+ *       400:
+ *         description: Invalid filter
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Coordinator/Manager/Admin only
+ */
+router.get('/', authenticate, leadStaff, listLeadsQueryValidation, handleLeadValidationErrors, listLeads);
+
+/**
+ * @swagger
+ * /api/v1/leads/import:
+ *   post:
+ *     summary: Bulk import leads from a CSV file (Coordinator/Manager/Admin)
+ *     description: |
+ *       Header row uses the create-lead field names (classLevel, board, addressText, googleMapLink,
+ *       paymentReceived, paymentAmount for the nested ones). subjectsRequired is separated by ';' or '|'.
+ *       Each row is validated with the same rules as POST /leads. Invalid rows are reported and skipped.
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dryRun
+ *         description: Validate and check duplicates without creating anything
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required: [file]
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *     responses:
+ *       200:
+ *         description: Dry-run report with per-row errors and duplicates
+ *       201:
+ *         description: Import report with created lead ids and per-row errors
+ *       400:
+ *         description: Missing file, malformed CSV or missing required columns
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.post(
+  '/import',
+  authenticate,
+  leadStaff,
+  uploadSingleCsv('file'),
+  importLeadsValidation,
+  handleLeadValidationErrors,
+  importLeads
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/export:
+ *   get:
+ *     summary: Export the filtered lead list as CSV (Coordinator/Manager/Admin)
+ *     description: Accepts the same filters as GET /leads (pagination is ignored; all matches are exported).
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: CSV file
+ *         content:
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/export',
+  authenticate,
+  leadStaff,
+  listLeadsQueryValidation,
+  handleLeadValidationErrors,
+  exportLeads
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/assignment-rules:
+ *   get:
+ *     summary: Get the automatic lead assignment rules (Admin)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current configuration (defaults to round robin across active coordinators)
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *   put:
+ *     summary: Replace the automatic lead assignment rules (Admin)
+ *     description: |
+ *       Rules are evaluated in order against new leads. The first matching rule with an active
+ *       coordinator picks the pool; balanceBy chooses within it. Leads matching no rule go to all
+ *       active coordinators.
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [enabled, balanceBy, rules]
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               balanceBy:
+ *                 type: string
+ *                 enum: [round_robin, load]
+ *               rules:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [type, values]
+ *                   properties:
+ *                     type:
+ *                       type: string
+ *                       enum: [city, area, subject]
+ *                     values:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     coordinators:
+ *                       type: array
+ *                       description: User ids; empty city rules use coordinators whose profile city matches
+ *                       items:
+ *                         type: string
+ *     responses:
+ *       200:
+ *         description: Rules updated
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/assignment-rules', authenticate, authorize(UserRole.ADMIN), getAssignmentRules);
+router.put(
+  '/assignment-rules',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  updateAssignmentRulesValidation,
+  handleLeadValidationErrors,
+  updateAssignmentRules
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/demos/my:
+ *   get:
+ *     summary: Upcoming demo classes booked with the current tutor (Teacher)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scheduled demos, soonest first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get('/demos/my', authenticate, authorize(UserRole.TEACHER), getMyDemos);
+
+/**
+ * @swagger
+ * /api/v1/leads/demos/availability:
+ *   get:
+ *     summary: Check a tutor's calendar for a demo slot (Coordinator/Manager/Admin)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: tutorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: scheduledAt
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: durationMinutes
+ *         schema:
+ *           type: integer
+ *           default: 60
+ *     responses:
+ *       200:
+ *         description: available flag and conflicting demos, class sessions and weekly schedules
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ */
+router.get(
+  '/demos/availability',
+  authenticate,
+  leadStaff,
+  tutorAvailabilityValidation,
+  handleLeadValidationErrors,
+  checkTutorAvailability
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/demos/{demoId}/outcome:
+ *   patch:
+ *     summary: Record the outcome and parent feedback of a demo (Coordinator/Manager/Admin)
+ *     description: |
+ *       Moves the lead to DEMO APPROVED BY PARENT, DEMO REJECTED  BY PARENT or TUTOR NOT FOUND FOR DEMO.
+ *       Parent responses can only be recorded after the demo time; rejections need parentFeedback.
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: demoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [outcome]
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [approved_by_parent, rejected_by_parent, tutor_not_found]
+ *               parentFeedback:
+ *                 type: string
+ *               parentRating:
+ *                 type: integer
+ *                 minimum: 1
+ *                 maximum: 5
+ *     responses:
+ *       200:
+ *         description: Outcome recorded and lead status updated
+ *       400:
+ *         description: Validation error or demo has not happened yet
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Demo not found
+ *       409:
+ *         description: Demo already closed or lead status does not allow the move
+ */
+router.patch(
+  '/demos/:demoId/outcome',
+  authenticate,
+  leadStaff,
+  demoOutcomeValidation,
+  handleLeadValidationErrors,
+  demoLeadAccess,
+  recordDemoOutcome
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/demos/{demoId}/cancel:
+ *   patch:
+ *     summary: Cancel a scheduled demo (Coordinator/Manager/Admin)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: demoId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Demo cancelled; tutor and coordinator are notified
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Demo not found
+ *       409:
+ *         description: Demo already closed
+ */
+router.patch(
+  '/demos/:demoId/cancel',
+  authenticate,
+  leadStaff,
+  cancelDemoValidation,
+  handleLeadValidationErrors,
+  demoLeadAccess,
+  cancelDemo
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/follow-ups/my:
+ *   get:
+ *     summary: My pending lead follow-ups due today or overdue
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: window
+ *         schema:
+ *           type: string
+ *           enum: [today, overdue]
+ *           default: today
+ *     responses:
+ *       200:
+ *         description: Pending follow-ups assigned to the current user
+ *       401:
+ *         description: Unauthorized
+ */
+router.get('/follow-ups/my', authenticate, leadStaff, myFollowUpsQueryValidation, handleLeadValidationErrors, getMyLeadFollowUps);
+
+/**
+ * @swagger
+ * /api/v1/leads/follow-ups/{followUpId}/complete:
+ *   patch:
+ *     summary: Record the outcome of a follow-up, optionally scheduling the next one
  *     tags: [Leads]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: followUpId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [outcome]
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [connected, no_answer, call_back_later, not_interested, demo_booked, wrong_number]
+ *               outcomeNote:
+ *                 type: string
+ *               nextAction:
+ *                 type: string
+ *               nextDueAt:
+ *                 type: string
+ *                 format: date-time
  *     responses:
  *       200:
- *         description: List of leads
+ *         description: Follow-up completed
  *       401:
  *         description: Unauthorized
+ *       404:
+ *         description: Follow-up not found
+ *       409:
+ *         description: Follow-up is not pending
  */
-router.get('/', authenticate, listLeads);
+router.patch(
+  '/follow-ups/:followUpId/complete',
+  authenticate,
+  leadStaff,
+  completeFollowUpValidation,
+  handleLeadValidationErrors,
+  followUpLeadAccess,
+  completeLeadFollowUp
+);
 
 /**
  * @swagger
@@ -64,10 +605,501 @@ router.get('/', authenticate, listLeads);
  *         description: Lead details
  *       401:
  *         description: Unauthorized
+ *       403:
+ *         description: Lead is outside the caller's scope
+ *       404:
+ *         description: Lead not found
+ */
+router.get('/:id', authenticate, leadStaff, leadIdParamValidation, handleLeadValidationErrors, authorizeLeadAccess(), getLead);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/status:
+ *   patch:
+ *     summary: Move a lead to a new status (legal transitions only, recorded in statusHistory)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 example: DEMO SCHEDULE
+ *               note:
+ *                 type: string
+ *                 description: Required when the parent rejects the demo
+ *     responses:
+ *       200:
+ *         description: Lead status updated
+ *       400:
+ *         description: Validation error or missing rejection reason
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ *       409:
+ *         description: Transition not allowed from the current status
+ */
+router.patch('/:id/status', authenticate, leadStaff, updateLeadStatusValidation, handleLeadValidationErrors, authorizeLeadAccess(), updateLeadStatus);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/duplicates:
+ *   get:
+ *     summary: List likely duplicates of a lead (normalized phone, similar student/parent name)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Duplicate candidates
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ */
+router.get('/:id/duplicates', authenticate, leadStaff, leadIdParamValidation, handleLeadValidationErrors, authorizeLeadAccess(), getLeadDuplicates);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/merge:
+ *   post:
+ *     summary: Merge a duplicate lead into this lead (Admin only)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         description: Primary lead that is kept
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [duplicateLeadId]
+ *             properties:
+ *               duplicateLeadId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Leads merged; the duplicate is flagged with mergedInto
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Admin only
+ *       404:
+ *         description: Lead not found
+ *       409:
+ *         description: Lead already merged or duplicate already converted
+ */
+router.post('/:id/merge', authenticate, authorize(UserRole.ADMIN), mergeLeadValidation, handleLeadValidationErrors, mergeLead);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/follow-ups:
+ *   post:
+ *     summary: Schedule a follow-up (callback) for a lead
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [dueAt]
+ *             properties:
+ *               dueAt:
+ *                 type: string
+ *                 format: date-time
+ *               assignedTo:
+ *                 type: string
+ *                 description: Defaults to the lead's leadAssignedTo
+ *               purpose:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Follow-up scheduled
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ *       409:
+ *         description: Lead is converted or merged
+ *   get:
+ *     summary: List follow-ups of a lead
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, completed, cancelled]
+ *     responses:
+ *       200:
+ *         description: Follow-ups, latest due first
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ */
+router.post('/:id/follow-ups', authenticate, leadStaff, createFollowUpValidation, handleLeadValidationErrors, authorizeLeadAccess(), createLeadFollowUp);
+router.get('/:id/follow-ups', authenticate, leadStaff, listFollowUpsValidation, handleLeadValidationErrors, authorizeLeadAccess(), getLeadFollowUps);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/activities:
+ *   post:
+ *     summary: Log an activity (call, note, WhatsApp message, demo feedback, payment) on a lead
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [type]
+ *             properties:
+ *               type:
+ *                 type: string
+ *                 enum: [call, note, whatsapp_message, demo_feedback, payment_recorded]
+ *               content:
+ *                 type: string
+ *                 description: Required for note, whatsapp_message and demo_feedback
+ *               call:
+ *                 type: object
+ *                 description: Required for call
+ *                 properties:
+ *                   durationMinutes:
+ *                     type: number
+ *                   outcome:
+ *                     type: string
+ *                     enum: [connected, no_answer, call_back_later, not_interested, demo_booked, wrong_number]
+ *               payment:
+ *                 type: object
+ *                 description: Required for payment_recorded
+ *                 properties:
+ *                   amount:
+ *                     type: number
+ *                   mode:
+ *                     type: string
+ *                   reference:
+ *                     type: string
+ *               demoFeedback:
+ *                 type: object
+ *                 properties:
+ *                   rating:
+ *                     type: integer
+ *                     minimum: 1
+ *                     maximum: 5
+ *                   tutor:
+ *                     type: string
+ *                     description: Defaults to the lead's demoTutor
+ *               occurredAt:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Defaults to now
+ *     responses:
+ *       201:
+ *         description: Activity logged
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ *   get:
+ *     summary: Activity timeline of a lead, newest first
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [call, note, whatsapp_message, demo_feedback, payment_recorded]
+ *       - in: query
+ *         name: author
+ *         schema:
+ *           type: string
+ *         description: User id of the author
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Activities with pagination info
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ */
+router.post('/:id/activities', authenticate, leadStaff, createLeadActivityValidation, handleLeadValidationErrors, authorizeLeadAccess(), createLeadActivity);
+router.get('/:id/activities', authenticate, leadStaff, listLeadActivitiesValidation, handleLeadValidationErrors, authorizeLeadAccess(), getLeadActivities);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/assignee:
+ *   patch:
+ *     summary: Reassign a lead to another coordinator (Manager+)
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [assigneeId]
+ *             properties:
+ *               assigneeId:
+ *                 type: string
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Lead reassigned; pending follow-ups move to the new owner
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
+ *       404:
+ *         description: Lead or coordinator not found
+ *       409:
+ *         description: Already assigned to this user, inactive user or merged lead
+ */
+router.patch(
+  '/:id/assignee',
+  authenticate,
+  authorizeMinRole(UserRole.MANAGER),
+  reassignLeadValidation,
+  handleLeadValidationErrors,
+  authorizeLeadAccess(),
+  reassignLead
+);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/assignments:
+ *   get:
+ *     summary: Ownership history of a lead
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Assignment history, oldest first (from, to, method, rule, changedBy, changedAt)
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ */
+router.get('/:id/assignments', authenticate, leadStaff, leadIdParamValidation, handleLeadValidationErrors, authorizeLeadAccess(), getLeadAssignments);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/demos:
+ *   post:
+ *     summary: Book a demo class with a tutor (Coordinator/Manager/Admin)
+ *     description: |
+ *       Checks the tutor's scheduled demos, class sessions and weekly schedules for overlaps,
+ *       moves the lead to DEMO SCHEDULE, sets demoTutor/demoAt and notifies the tutor and lead owner.
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [tutorId, scheduledAt]
+ *             properties:
+ *               tutorId:
+ *                 type: string
+ *               scheduledAt:
+ *                 type: string
+ *                 format: date-time
+ *               durationMinutes:
+ *                 type: integer
+ *                 default: 60
+ *               mode:
+ *                 type: string
+ *                 enum: [online, offline]
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Demo scheduled
+ *       400:
+ *         description: Validation error or slot in the past
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead or tutor not found
+ *       409:
+ *         description: Tutor busy, demo already booked or lead status does not allow a demo
+ *   get:
+ *     summary: Demo bookings of a lead, latest first
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Demos with tutor, outcome and parent feedback
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Lead not found
+ */
+router.post(
+  '/:id/demos',
+  authenticate,
+  leadStaff,
+  scheduleDemoValidation,
+  handleLeadValidationErrors,
+  authorizeLeadAccess(),
+  scheduleDemo
+);
+router.get('/:id/demos', authenticate, leadStaff, leadIdParamValidation, handleLeadValidationErrors, authorizeLeadAccess(), getLeadDemos);
+
+/**
+ * @swagger
+ * /api/v1/leads/{id}/tutor-matches:
+ *   get:
+ *     summary: Rank tutors and verified tutor applications for a lead (Coordinator/Manager/Admin)
+ *     description: |
+ *       Scores (0-100) subjects, class level, board, tuition mode, location (city, pin code,
+ *       preferred areas; offline leads only) and time slots. Candidates that do not meet the
+ *       parent's gender preference or tuition mode are left out. Each match lists its reasons.
+ *     tags: [Leads]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *       - in: query
+ *         name: minScore
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *       - in: query
+ *         name: includeApplications
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *     responses:
+ *       200:
+ *         description: Matches ordered by score, each with source (tutor or application), score and reasons
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden
  *       404:
  *         description: Lead not found
  */
-router.get('/:id', authenticate, leadIdParamValidation, handleLeadValidationErrors, getLead);
+router.get(
+  '/:id/tutor-matches',
+  authenticate,
+  leadStaff,
+  tutorMatchesQueryValidation,
+  handleLeadValidationErrors,
+  authorizeLeadAccess(),
+  getTutorMatches
+);
 
 export default router;
 
@@ -0,0 +1,316 @@
+import { Router } from 'express';
+import authenticate from '../middlewares/auth';
+import { authorize, authorizeFinalClassAccess } from '../middlewares/rbac';
+import { UserRole } from '../types/enums';
+import {
+  getClass,
+  listAttendance,
+  listClassConcerns,
+  listClasses,
+  listInvoices,
+  listTestReports,
+  raiseConcern,
+  renderInvoice,
+  reviewAttendance,
+} from '../controllers/parentController';
+import {
+  handleParentValidationErrors,
+  parentClassParamValidation,
+  parentInvoiceValidation,
+  parentReviewAttendanceValidation,
+  raiseConcernValidation,
+} from '../validators/parentValidator';
+
+const router = Router();
+
+// Parents only, and on class routes only for their own classes
+const parentOnly = authorize(UserRole.PARENT);
+const ownClass = authorizeFinalClassAccess({ allowParent: true });
+
+/**
+ * @swagger
+ * /api/v1/parent/classes:
+ *   get:
+ *     summary: The parent's classes with tutor contact, current month and next test
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Classes linked to the parent, soonest renewal first
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Parent only
+ */
+router.get('/classes', authenticate, parentOnly, listClasses);
+
+/**
+ * @swagger
+ * /api/v1/parent/classes/{id}:
+ *   get:
+ *     summary: One of the parent's classes
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Class summary
+ *       403:
+ *         description: Not the parent's class
+ *       404:
+ *         description: Final class not found
+ */
+router.get(
+  '/classes/:id',
+  authenticate,
+  parentOnly,
+  parentClassParamValidation,
+  handleParentValidationErrors,
+  ownClass,
+  getClass
+);
+
+/**
+ * @swagger
+ * /api/v1/parent/classes/{id}/attendance:
+ *   get:
+ *     summary: Monthly attendance of one of the parent's classes, newest first
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attendance sheets with their sessions
+ *       403:
+ *         description: Not the parent's class
+ *       404:
+ *         description: Final class not found
+ */
+router.get(
+  '/classes/:id/attendance',
+  authenticate,
+  parentOnly,
+  parentClassParamValidation,
+  handleParentValidationErrors,
+  ownClass,
+  listAttendance
+);
+
+/**
+ * @swagger
+ * /api/v1/parent/classes/{id}/attendance/{sheetId}/review:
+ *   post:
+ *     summary: Approve or dispute a month of attendance
+ *     description: Same effect as the emailed approval link. Approval marks the month payable to the tutor; a dispute goes back to the tutor and the coordinator.
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: sheetId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [decision]
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approve, dispute]
+ *               comment:
+ *                 type: string
+ *                 description: Required when disputing
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       403:
+ *         description: Not the parent's class
+ *       404:
+ *         description: Final class or attendance sheet not found
+ *       409:
+ *         description: Month is locked or has no sessions yet
+ */
+router.post(
+  '/classes/:id/attendance/:sheetId/review',
+  authenticate,
+  parentOnly,
+  parentReviewAttendanceValidation,
+  handleParentValidationErrors,
+  ownClass,
+  reviewAttendance
+);
+
+/**
+ * @swagger
+ * /api/v1/parent/classes/{id}/test-reports:
+ *   get:
+ *     summary: Monthly test reports of one of the parent's classes, latest first
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Next test date and the reports
+ *       403:
+ *         description: Not the parent's class
+ *       404:
+ *         description: Final class not found
+ */
+router.get(
+  '/classes/:id/test-reports',
+  authenticate,
+  parentOnly,
+  parentClassParamValidation,
+  handleParentValidationErrors,
+  ownClass,
+  listTestReports
+);
+
+/**
+ * @swagger
+ * /api/v1/parent/classes/{id}/concerns:
+ *   get:
+ *     summary: Concerns the parent raised on a class and how far each has got
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Concerns, latest first, with the follow-up status and resolution
+ *       403:
+ *         description: Not the parent's class
+ *   post:
+ *     summary: Raise a concern with the coordinator
+ *     description: Logged on the lead's timeline and turned into a follow-up, due now, for the coordinator who owns the lead, who is also notified.
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [subject, message]
+ *             properties:
+ *               subject:
+ *                 type: string
+ *               message:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Concern raised
+ *       403:
+ *         description: Not the parent's class
+ *       404:
+ *         description: Final class not found
+ */
+router.get(
+  '/classes/:id/concerns',
+  authenticate,
+  parentOnly,
+  parentClassParamValidation,
+  handleParentValidationErrors,
+  ownClass,
+  listClassConcerns
+);
+router.post(
+  '/classes/:id/concerns',
+  authenticate,
+  parentOnly,
+  raiseConcernValidation,
+  handleParentValidationErrors,
+  ownClass,
+  raiseConcern
+);
+
+/**
+ * @swagger
+ * /api/v1/parent/invoices:
+ *   get:
+ *     summary: Issued and paid invoices for the parent's classes, latest first
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Invoices
+ */
+router.get('/invoices', authenticate, parentOnly, listInvoices);
+
+/**
+ * @swagger
+ * /api/v1/parent/invoices/{id}:
+ *   get:
+ *     summary: Download one of the parent's invoices as HTML or PDF
+ *     tags: [Parent]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [html, pdf]
+ *     responses:
+ *       200:
+ *         description: The invoice document
+ *       404:
+ *         description: Invoice not found or not the parent's
+ */
+router.get(
+  '/invoices/:id',
+  authenticate,
+  parentOnly,
+  parentInvoiceValidation,
+  handleParentValidationErrors,
+  renderInvoice
+);
+
+export default router;
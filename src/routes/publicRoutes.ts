@@ -0,0 +1,159 @@
+import { Router } from 'express';
+import { publicEnquiryRateLimit } from '../middlewares/rateLimit';
+import { createPublicEnquiry } from '../controllers/publicEnquiryController';
+import {
+  publicEnquiryValidation,
+  rejectHoneypotSubmissions,
+} from '../validators/publicEnquiryValidator';
+import { handleLeadValidationErrors } from '../validators/leadValidator';
+import {
+  getAttendanceForApproval,
+  reviewAttendance,
+} from '../controllers/attendanceSheetController';
+import {
+  attendanceApprovalTokenValidation,
+  handleAttendanceSheetValidationErrors,
+  reviewAttendanceValidation,
+} from '../validators/attendanceSheetValidator';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/public/enquiries:
+ *   post:
+ *     summary: Submit a tuition enquiry from the public website (no authentication)
+ *     description: >
+ *       Creates a lead with source "Website" and status "Enquiry", assigned by the lead
+ *       assignment rules. If the phone number already belongs to an open lead, no new lead is
+ *       created and that lead's owner is notified instead. Requests are rate limited per IP.
+ *       The "website" field is a honeypot and must be left empty.
+ *     tags: [Public]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [parentName, studentName, phone, classLevel, board, tuitionMode]
+ *             properties:
+ *               parentName:
+ *                 type: string
+ *               studentName:
+ *                 type: string
+ *               phone:
+ *                 type: string
+ *                 example: '+91 98765 43210'
+ *               alternatePhone:
+ *                 type: string
+ *               classLevel:
+ *                 type: string
+ *               board:
+ *                 type: string
+ *               subjects:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               tuitionMode:
+ *                 type: string
+ *                 enum: [online, offline]
+ *               preferredTutor:
+ *                 type: string
+ *                 enum: [male, female, no_preference]
+ *               city:
+ *                 type: string
+ *               area:
+ *                 type: string
+ *               pinCode:
+ *                 type: string
+ *               address:
+ *                 type: string
+ *               preferredTimeSlots:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               message:
+ *                 type: string
+ *               website:
+ *                 type: string
+ *                 description: Honeypot, leave empty
+ *     responses:
+ *       202:
+ *         description: Enquiry received
+ *       400:
+ *         description: Validation error
+ *       429:
+ *         description: Too many enquiries from this IP
+ */
+router.post(
+  '/enquiries',
+  publicEnquiryRateLimit,
+  rejectHoneypotSubmissions,
+  publicEnquiryValidation,
+  handleLeadValidationErrors,
+  createPublicEnquiry
+);
+
+/**
+ * @swagger
+ * /api/v1/public/attendance-approvals/{token}:
+ *   get:
+ *     summary: Show a month's attendance to the parent (signed link, no authentication)
+ *     tags: [Public]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Student, tutor, month and logged sessions
+ *       401:
+ *         description: Link invalid, expired, already used or replaced by a newer one
+ *   post:
+ *     summary: Approve or dispute a month's attendance (signed link, no authentication)
+ *     description: Approval makes the month payable to the tutor. A dispute notifies the tutor and the coordinator. Each link records one decision.
+ *     tags: [Public]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [decision]
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [approve, dispute]
+ *               comment:
+ *                 type: string
+ *                 description: Required when disputing
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       401:
+ *         description: Link invalid, expired, already used or replaced by a newer one
+ *       409:
+ *         description: Month is locked or has no sessions
+ */
+router.get(
+  '/attendance-approvals/:token',
+  attendanceApprovalTokenValidation,
+  handleAttendanceSheetValidationErrors,
+  getAttendanceForApproval
+);
+router.post(
+  '/attendance-approvals/:token',
+  reviewAttendanceValidation,
+  handleAttendanceSheetValidationErrors,
+  reviewAttendance
+);
+
+export default router;
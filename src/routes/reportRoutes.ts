@@ -12,6 +12,7 @@ import {
   getCourseAnalytics,
   getClassPerformance,
   getDashboardSummary,
+  getLeadFunnel,
 } from '../controllers/reportController';
 import {
   studentIdParamValidation,
@@ -21,6 +22,7 @@ import {
   dateRangeQueryValidation,
   attendanceReportQueryValidation,
   enrollmentTrendsQueryValidation,
+  leadFunnelQueryValidation,
   handleReportValidationErrors,
 } from '../validators/reportValidator';
 
@@ -206,6 +208,60 @@ router.get(
  */
 router.get('/dashboard', authenticate, getDashboardSummary);
 
+/**
+ * @swagger
+ * /api/v1/reports/leads/funnel:
+ *   get:
+ *     summary: Lead conversion funnel with breakdowns and stage timings
+ *     description: |
+ *       Counts leads that reached each stage (enquiry, demo scheduled, demo approved, converted),
+ *       status-to-status conversion rates from statusHistory, breakdowns by source, city, subject,
+ *       coordinator and month, and median days from enquiry to demo and from demo to conversion.
+ *       Merged leads are excluded. Rates are percentages.
+ *     tags: [Reports]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: startDate
+ *         description: Lead creation date from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: endDate
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: leadSource
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: coordinatorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: city
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Lead funnel report
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Forbidden - Manager or Admin only
+ */
+router.get(
+  '/leads/funnel',
+  authenticate,
+  authorizeMinRole(UserRole.MANAGER),
+  leadFunnelQueryValidation,
+  handleReportValidationErrors,
+  getLeadFunnel
+);
+
 /**
  * @swagger
  * /api/v1/reports/students/{id}/performance:
@@ -0,0 +1,340 @@
+import { Router } from 'express';
+import authenticate from '../middlewares/auth';
+import { authorize } from '../middlewares/rbac';
+import { UserRole } from '../types/enums';
+import {
+  approveApplication,
+  checkDocument,
+  getApplication,
+  listApplications,
+  promoteApplication,
+  rejectApplication,
+  requestChanges,
+} from '../controllers/tutorApplicationController';
+import {
+  applicationIdParamValidation,
+  approveApplicationValidation,
+  checkDocumentValidation,
+  handleTutorApplicationValidationErrors,
+  listApplicationsValidation,
+  promoteApplicationValidation,
+  rejectApplicationValidation,
+  requestChangesValidation,
+} from '../validators/tutorApplicationValidator';
+
+const router = Router();
+
+const reviewers = authorize(UserRole.ADMIN, UserRole.MANAGER);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications:
+ *   get:
+ *     summary: List tutor applications, newest first
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [submitted, under_review, changes_requested, approved, rejected]
+ *       - in: query
+ *         name: city
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: subjects
+ *         description: Comma-separated; matches applications teaching any of them
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: qualification
+ *         description: Partial match
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: documentsUploaded
+ *         description: true for both Aadhaar and avatar uploaded, false for at least one missing
+ *         schema:
+ *           type: boolean
+ *       - in: query
+ *         name: search
+ *         description: Name, email, phone or teacherId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Applications with pagination
+ *       403:
+ *         description: Forbidden - Admin or Manager only
+ */
+router.get(
+  '/',
+  authenticate,
+  reviewers,
+  listApplicationsValidation,
+  handleTutorApplicationValidationErrors,
+  listApplications
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications/{id}:
+ *   get:
+ *     summary: One application with its document checklist and review history
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Application
+ *       404:
+ *         description: Application not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  reviewers,
+  applicationIdParamValidation,
+  handleTutorApplicationValidationErrors,
+  getApplication
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications/{id}/documents/{document}:
+ *   put:
+ *     summary: Verify or reject a document on the checklist
+ *     description: The first check moves a submitted application under review. A rejected document is emailed to the applicant with the note; uploading it again resets the check to pending.
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: document
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [aadhar, avatar]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [verified, rejected]
+ *               note:
+ *                 type: string
+ *                 description: Required when rejecting
+ *     responses:
+ *       200:
+ *         description: Document checked
+ *       400:
+ *         description: Document not uploaded
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application already approved or rejected
+ */
+router.put(
+  '/:id/documents/:document',
+  authenticate,
+  reviewers,
+  checkDocumentValidation,
+  handleTutorApplicationValidationErrors,
+  checkDocument
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications/{id}/request-changes:
+ *   post:
+ *     summary: Send the application back to the applicant with what to change
+ *     description: The applicant is emailed the note. Their next update returns the application to submitted.
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [note]
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Changes requested
+ *       409:
+ *         description: Application is not submitted or under review
+ */
+router.post(
+  '/:id/request-changes',
+  authenticate,
+  reviewers,
+  requestChangesValidation,
+  handleTutorApplicationValidationErrors,
+  requestChanges
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications/{id}/approve:
+ *   post:
+ *     summary: Approve an application whose documents are all verified
+ *     description: Sets isVerification, which makes the applicant available in tutor matching, and emails the applicant.
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Application approved
+ *       409:
+ *         description: A document is not verified, or the application is not submitted or under review
+ */
+router.post(
+  '/:id/approve',
+  authenticate,
+  reviewers,
+  approveApplicationValidation,
+  handleTutorApplicationValidationErrors,
+  approveApplication
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications/{id}/reject:
+ *   post:
+ *     summary: Reject an application with a reason
+ *     description: The applicant is emailed the reason.
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Application rejected
+ *       409:
+ *         description: Application already approved or rejected
+ */
+router.post(
+  '/:id/reject',
+  authenticate,
+  reviewers,
+  rejectApplicationValidation,
+  handleTutorApplicationValidationErrors,
+  rejectApplication
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-applications/{id}/promote:
+ *   post:
+ *     summary: Turn an approved applicant into a teacher account and Tutor profile
+ *     description: |
+ *       Runs in one transaction. Creates a teacher User that keeps the password the applicant
+ *       applied with, and a Tutor with personal details, education, work experience, location
+ *       preferences and the uploaded Aadhaar and photo. The tutor can then log in through
+ *       /auth/login; a new account is emailed. When a teacher account with the application's
+ *       email already exists the promotion is refused unless linkExistingAccount confirms that
+ *       account belongs to the applicant.
+ *     tags: [TutorApplications]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               note:
+ *                 type: string
+ *               linkExistingAccount:
+ *                 type: boolean
+ *                 description: Link the existing teacher account with the same email instead of refusing
+ *     responses:
+ *       201:
+ *         description: Teacher account and Tutor profile created
+ *       404:
+ *         description: Application not found
+ *       409:
+ *         description: Application not approved or already promoted, the email belongs to another role or an existing Tutor, or to a teacher account and linkExistingAccount was not set
+ */
+router.post(
+  '/:id/promote',
+  authenticate,
+  reviewers,
+  promoteApplicationValidation,
+  handleTutorApplicationValidationErrors,
+  promoteApplication
+);
+
+export default router;
@@ -1,20 +1,239 @@
 import { Router } from 'express';
-import { tutorLeadLogin, tutorLeadMe, updateTutorLeadMe } from '../controllers/tutorLeadAuthController';
-import { body } from 'express-validator';
-import { handleValidationErrors } from '../validators/authValidator';
+import {
+  changePassword,
+  forgotPassword,
+  logout,
+  refreshToken,
+  register,
+  resetPassword,
+  tutorLeadLogin,
+  tutorLeadMe,
+  updateTutorLeadMe,
+} from '../controllers/tutorLeadAuthController';
+import authenticateTutorLead from '../middlewares/tutorLeadAuth';
+import { handleValidationErrors, loginValidation, refreshTokenValidation } from '../validators/authValidator';
+import {
+  createTutorLeadValidation,
+  tutorLeadChangePasswordValidation,
+  tutorLeadForgotPasswordValidation,
+  tutorLeadResetPasswordValidation,
+} from '../validators/tutorLeadValidator';
 
 const router = Router();
 
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/register:
+ *   post:
+ *     summary: Apply as a tutor and sign in
+ *     description: Same body as POST /tutor-leads, but also returns an access and refresh token.
+ *     tags: [TutorLeadAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [fullName, gender, phoneNumber, email, qualification, experience, subjects, city, preferredAreas, pincode, password]
+ *     responses:
+ *       201:
+ *         description: Application submitted
+ *       409:
+ *         description: An application with this email or phone already exists
+ */
+router.post('/register', createTutorLeadValidation, handleValidationErrors, register);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/login:
+ *   post:
+ *     summary: Sign in as a tutor applicant
+ *     description: Returns an access token (also as `token` for older clients) and a refresh token.
+ *     tags: [TutorLeadAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email, password]
+ *             properties:
+ *               email:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Login successful
+ *       401:
+ *         description: Invalid email or password
+ */
+router.post('/login', loginValidation, handleValidationErrors, tutorLeadLogin);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/refresh:
+ *   post:
+ *     summary: Exchange a refresh token for a new token pair
+ *     description: Only the most recently issued refresh token is accepted.
+ *     tags: [TutorLeadAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [refreshToken]
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens refreshed
+ *       401:
+ *         description: Invalid or expired refresh token
+ */
+router.post('/refresh', refreshTokenValidation, handleValidationErrors, refreshToken);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/logout:
+ *   post:
+ *     summary: Sign out and revoke the refresh token
+ *     tags: [TutorLeadAuth]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Logout successful
+ */
+router.post('/logout', authenticateTutorLead, logout);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/me:
+ *   get:
+ *     summary: The signed-in applicant's application, status and document checklist
+ *     tags: [TutorLeadAuth]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Application
+ *       401:
+ *         description: Missing, invalid or expired token
+ *   patch:
+ *     summary: Update the signed-in applicant's details
+ *     description: Verification goes back to pending; a sent-back application returns to submitted. Approved or promoted applications cannot be changed.
+ *     tags: [TutorLeadAuth]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               email:
+ *                 type: string
+ *               profile:
+ *                 type: object
+ *               tutorLead:
+ *                 type: object
+ *     responses:
+ *       200:
+ *         description: Details updated
+ *       409:
+ *         description: Application already approved
+ */
+router.get('/me', authenticateTutorLead, tutorLeadMe);
+router.patch('/me', authenticateTutorLead, updateTutorLeadMe);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/forgot-password:
+ *   post:
+ *     summary: Email a password reset link
+ *     description: Always answers 200 so registered emails can't be discovered.
+ *     tags: [TutorLeadAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [email]
+ *             properties:
+ *               email:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Reset link sent if the application exists
+ */
+router.post('/forgot-password', tutorLeadForgotPasswordValidation, handleValidationErrors, forgotPassword);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/reset-password:
+ *   post:
+ *     summary: Set a new password with the token from the reset email
+ *     description: The token is single use. Every existing session is signed out.
+ *     tags: [TutorLeadAuth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [token, password]
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password reset
+ *       400:
+ *         description: Reset link invalid or expired
+ */
+router.post('/reset-password', tutorLeadResetPasswordValidation, handleValidationErrors, resetPassword);
+
+/**
+ * @swagger
+ * /api/v1/tutor-lead-auth/change-password:
+ *   post:
+ *     summary: Change the password while signed in
+ *     description: Other sessions are signed out; a new token pair is returned for this one.
+ *     tags: [TutorLeadAuth]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [currentPassword, newPassword, confirmPassword]
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *               newPassword:
+ *                 type: string
+ *               confirmPassword:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Password changed
+ *       400:
+ *         description: Current password incorrect or unchanged
+ */
 router.post(
-  '/login',
-  [
-    body('email').isEmail().withMessage('Valid email is required').normalizeEmail().trim(),
-    body('password').notEmpty().withMessage('Password is required'),
-  ],
+  '/change-password',
+  authenticateTutorLead,
+  tutorLeadChangePasswordValidation,
   handleValidationErrors,
-  tutorLeadLogin
+  changePassword
 );
 
 export default router;
-router.get('/me', tutorLeadMe);
-router.patch('/me', updateTutorLeadMe);
@@ -0,0 +1,421 @@
+import { Router } from 'express';
+import authenticate from '../middlewares/auth';
+import { authorize } from '../middlewares/rbac';
+import { UserRole } from '../types/enums';
+import {
+  addAdjustment,
+  generatePayouts,
+  getMyStatement,
+  getPayout,
+  getRates,
+  getStatement,
+  listPayouts,
+  payPayout,
+  removeAdjustment,
+  updateRates,
+} from '../controllers/tutorPayoutController';
+import {
+  addAdjustmentValidation,
+  generatePayoutsValidation,
+  handleTutorPayoutValidationErrors,
+  listPayoutsValidation,
+  myStatementValidation,
+  payoutIdParamValidation,
+  payPayoutValidation,
+  removeAdjustmentValidation,
+  tutorStatementValidation,
+  updatePayoutRatesValidation,
+} from '../validators/tutorPayoutValidator';
+
+const router = Router();
+
+const payoutStaff = authorize(UserRole.ADMIN, UserRole.MANAGER);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/rates:
+ *   get:
+ *     summary: Hourly payout rate per tutor tier
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Current rates (none until an admin sets them)
+ *       403:
+ *         description: Forbidden - Admin or Manager only
+ *   put:
+ *     summary: Replace the payout rates (Admin)
+ *     description: Tier names match the class's tutorTier, ignoring case. Sessions logged without a duration count as defaultSessionMinutes.
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [hourlyRates]
+ *             properties:
+ *               hourlyRates:
+ *                 type: object
+ *                 additionalProperties:
+ *                   type: number
+ *                 example: { "silver": 300, "gold": 450 }
+ *               defaultSessionMinutes:
+ *                 type: integer
+ *                 example: 60
+ *     responses:
+ *       200:
+ *         description: Rates updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Forbidden - Admin only
+ */
+router.get('/rates', authenticate, payoutStaff, getRates);
+router.put(
+  '/rates',
+  authenticate,
+  authorize(UserRole.ADMIN),
+  updatePayoutRatesValidation,
+  handleTutorPayoutValidationErrors,
+  updateRates
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/generate:
+ *   post:
+ *     summary: Compute payouts from attendance sheets
+ *     description: |
+ *       One payout per tutor per class month. Each present session is paid at the hourly rate of
+ *       the tier the tutor taught it at; sessions are split by who logged them, so a mid-month
+ *       handover pays both tutors. Months approved by the parent become Pending, open or disputed
+ *       ones Upcoming. Running it again recomputes unpaid payouts and keeps their adjustments;
+ *       paid payouts are never changed.
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               month:
+ *                 type: string
+ *                 description: YYYY-MM the attendance month starts in; every month when omitted
+ *                 example: 2025-07
+ *               finalClassId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Counts of created, updated, removed and already paid payouts, and what was skipped and why
+ *       404:
+ *         description: Final class not found
+ */
+router.post(
+  '/generate',
+  authenticate,
+  payoutStaff,
+  generatePayoutsValidation,
+  handleTutorPayoutValidationErrors,
+  generatePayouts
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts:
+ *   get:
+ *     summary: List payouts, newest month first, with totals by status
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [Paid, Pending, Upcoming]
+ *       - in: query
+ *         name: tutorId
+ *         description: Tutor profile id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: finalClassId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: paymentCycle
+ *         description: Month label, e.g. "July 2025"
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Payouts with pagination
+ */
+router.get(
+  '/',
+  authenticate,
+  payoutStaff,
+  listPayoutsValidation,
+  handleTutorPayoutValidationErrors,
+  listPayouts
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/me/statement:
+ *   get:
+ *     summary: The signed-in tutor's payout statement
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Payouts with sessions, adjustments and payment references, and totals paid, pending and upcoming
+ *       404:
+ *         description: No tutor profile for this account
+ */
+router.get(
+  '/me/statement',
+  authenticate,
+  authorize(UserRole.TEACHER),
+  myStatementValidation,
+  handleTutorPayoutValidationErrors,
+  getMyStatement
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/tutors/{tutorId}/statement:
+ *   get:
+ *     summary: A tutor's payout statement
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: tutorId
+ *         required: true
+ *         description: Tutor profile id
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Statement
+ *       404:
+ *         description: Tutor not found
+ */
+router.get(
+  '/tutors/:tutorId/statement',
+  authenticate,
+  payoutStaff,
+  tutorStatementValidation,
+  handleTutorPayoutValidationErrors,
+  getStatement
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/{id}:
+ *   get:
+ *     summary: One payout with its sessions and adjustments
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Payout
+ *       404:
+ *         description: Payout not found
+ */
+router.get(
+  '/:id',
+  authenticate,
+  payoutStaff,
+  payoutIdParamValidation,
+  handleTutorPayoutValidationErrors,
+  getPayout
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/{id}/adjustments:
+ *   post:
+ *     summary: Add to or deduct from an unpaid payout
+ *     description: Adjustments survive regenerating the payout. Deductions cannot take the amount below zero.
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [kind, amount, reason]
+ *             properties:
+ *               kind:
+ *                 type: string
+ *                 enum: [addition, deduction]
+ *               amount:
+ *                 type: number
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Adjustment added
+ *       400:
+ *         description: Deduction larger than the amount owed
+ *       409:
+ *         description: Payout already paid
+ */
+router.post(
+  '/:id/adjustments',
+  authenticate,
+  payoutStaff,
+  addAdjustmentValidation,
+  handleTutorPayoutValidationErrors,
+  addAdjustment
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/{id}/adjustments/{adjustmentId}:
+ *   delete:
+ *     summary: Remove an adjustment from an unpaid payout
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: adjustmentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Adjustment removed
+ *       404:
+ *         description: Payout or adjustment not found
+ *       409:
+ *         description: Payout already paid
+ */
+router.delete(
+  '/:id/adjustments/:adjustmentId',
+  authenticate,
+  payoutStaff,
+  removeAdjustmentValidation,
+  handleTutorPayoutValidationErrors,
+  removeAdjustment
+);
+
+/**
+ * @swagger
+ * /api/v1/tutor-payouts/{id}/pay:
+ *   post:
+ *     summary: Mark a Pending payout paid
+ *     description: The tutor is notified with the amount and reference.
+ *     tags: [TutorPayouts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [paymentReference]
+ *             properties:
+ *               paymentReference:
+ *                 type: string
+ *                 description: Bank or UPI transaction reference
+ *               paymentMode:
+ *                 type: string
+ *               paidAt:
+ *                 type: string
+ *                 format: date-time
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Payout marked paid
+ *       409:
+ *         description: Already paid, attendance not approved yet, or nothing owed
+ */
+router.post(
+  '/:id/pay',
+  authenticate,
+  payoutStaff,
+  payPayoutValidation,
+  handleTutorPayoutValidationErrors,
+  payPayout
+);
+
+export default router;
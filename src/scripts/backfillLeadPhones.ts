@@ -0,0 +1,61 @@
+/**
+ * One-off backfill of Lead.normalizedPhones for leads saved before duplicate
+ * detection existed. The field is only filled in on save, so without this
+ * older leads never show up as duplicates.
+ *
+ * Safe to re-run: every lead's value is recomputed from its phone numbers.
+ *
+ *   npm run backfill:lead-phones
+ */
+import connectDB, { disconnectDB } from '../config/database';
+import Lead from '../models/Lead';
+import { normalizePhones } from '../utils/phone';
+
+const BATCH_SIZE = 500;
+
+async function backfillLeadPhones(): Promise<{ scanned: number; updated: number }> {
+  let scanned = 0;
+  let updated = 0;
+  let batch: Parameters<typeof Lead.bulkWrite>[0] = [];
+
+  const flush = async () => {
+    if (!batch.length) return;
+    const result = await Lead.bulkWrite(batch, { ordered: false });
+    updated += result.modifiedCount;
+    batch = [];
+  };
+
+  const cursor = Lead.find({}, { contactNumber: 1, alternateNumber: 1 }).lean().cursor();
+  for await (const lead of cursor) {
+    scanned += 1;
+    batch.push({
+      updateOne: {
+        filter: { _id: lead._id },
+        update: {
+          $set: { normalizedPhones: normalizePhones(lead.contactNumber, lead.alternateNumber) },
+        },
+      },
+    });
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  return { scanned, updated };
+}
+
+async function main() {
+  await connectDB();
+  try {
+    const { scanned, updated } = await backfillLeadPhones();
+    // eslint-disable-next-line no-console
+    console.log(`Lead phones backfilled: ${scanned} scanned, ${updated} updated`);
+  } finally {
+    await disconnectDB();
+  }
+}
+
+main().catch((error) => {
+  // eslint-disable-next-line no-console
+  console.error('❌ Lead phone backfill failed:', error);
+  process.exit(1);
+});
@@ -3,6 +3,8 @@ import app from './app';
 import connectDB, { disconnectDB } from './config/database';
 import { verifyEmailConnection } from './config/email';
 import logger from './config/logger';
+import { startScheduledJobs, stopScheduledJobs } from './jobs';
+import { tutorLeadPasswordResetUrl } from './services/tutorLeadAuthService';
 
 dotenv.config();
 
@@ -13,6 +15,9 @@ let server: ReturnType<typeof app.listen>;
 
 async function startServer(): Promise<void> {
   try {
+    // Fail fast on settings that would otherwise only break when first used
+    tutorLeadPasswordResetUrl();
+
     await connectDB();
     logger.info('✅ Database connected successfully');
 
@@ -27,6 +32,8 @@ async function startServer(): Promise<void> {
       const timestamp = new Date().toISOString();
       logger.info('🚀 Server running', { port: PORT, environment: NODE_ENV, timestamp });
     });
+
+    startScheduledJobs();
   } catch (error) {
     logger.error('❌ Failed to start server', { error: (error as any)?.message, stack: (error as any)?.stack });
     process.exit(1);
@@ -58,6 +65,7 @@ process.on('uncaughtException', async (error: Error) => {
 // Graceful shutdown on SIGTERM
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received. Shutting down gracefully...');
+  stopScheduledJobs();
   try {
     await disconnectDB();
   } finally {
@@ -149,6 +149,7 @@ export async function updateUserByAdmin(params: UpdateUserParams): Promise<IUser
     const oldRole = user.role;
     const oldIsActive = user.isActive;
     const oldEmail = user.email;
+    const oldManagedCities = user.managedCities;
 
     // Check email uniqueness if email is being updated
     if (params.updates.email && params.updates.email !== user.email) {
@@ -175,8 +176,18 @@ export async function updateUserByAdmin(params: UpdateUserParams): Promise<IUser
       metadata: {
         targetUserId: params.userId,
         targetUserEmail: user.email,
-        oldValue: { role: oldRole, isActive: oldIsActive, email: oldEmail },
-        newValue: { role: user.role, isActive: user.isActive, email: user.email },
+        oldValue: {
+          role: oldRole,
+          isActive: oldIsActive,
+          email: oldEmail,
+          managedCities: oldManagedCities,
+        },
+        newValue: {
+          role: user.role,
+          isActive: user.isActive,
+          email: user.email,
+          managedCities: user.managedCities,
+        },
       },
     });
 
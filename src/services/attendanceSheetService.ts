@@ -0,0 +1,367 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import FinalClass, {
+  AttendanceSheetStatus,
+  ClassStatus,
+  IAttendanceSheet,
+  IFinalClass,
+} from '../models/FinalClass';
+import Lead from '../models/Lead';
+import User from '../models/User';
+import { createNotification } from './notificationService';
+import { isSameDay, startOfDay } from './renewalService';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+} from '../utils/errors';
+import { generateAttendanceApprovalToken, verifyAttendanceApprovalToken } from '../utils/jwt';
+import { NotificationCategory, NotificationPriority, NotificationType } from '../types/enums';
+
+export type AttendanceReviewDecision = 'approve' | 'dispute';
+
+export interface LogSessionParams {
+  finalClassId: string;
+  tutorId: string;
+  date: Date;
+  present: boolean;
+  durationMinutes?: number;
+  notes?: string;
+}
+
+export interface ReviewAttendanceParams {
+  finalClassId: string;
+  sheetId: string;
+  decision: AttendanceReviewDecision;
+  comment?: string;
+  approvalNonce?: string; // set when the decision comes through the signed link
+}
+
+export interface AttendanceApprovalLink {
+  token: string;
+  url: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function monthLabel(date: Date): string {
+  return new Date(date).toLocaleString('en-IN', { month: 'long', year: 'numeric' });
+}
+
+function findSheet(finalClass: IFinalClass, sheetId: string): IAttendanceSheet {
+  const sheet = finalClass.attendanceSheets.find((s) => String(s._id) === sheetId);
+  if (!sheet) {
+    throw new NotFoundError('Attendance sheet');
+  }
+  return sheet;
+}
+
+async function getFinalClassOrThrow(finalClassId: string): Promise<IFinalClass> {
+  const finalClass = await FinalClass.findById(finalClassId);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  return finalClass;
+}
+
+function summarize(sheet: IAttendanceSheet): void {
+  const present = sheet.records.filter((r) => r.present);
+  sheet.sessionsPresent = present.length;
+  sheet.minutesTaught = present.reduce((sum, r) => sum + (r.durationMinutes || 0), 0);
+}
+
+/**
+ * The sheet a session on `date` belongs to: an existing sheet covering that
+ * day, or a new one for the class's current cycle.
+ */
+function sheetForDate(finalClass: IFinalClass, date: Date): IAttendanceSheet {
+  const day = startOfDay(date);
+  const existing = finalClass.attendanceSheets.find(
+    (s) => startOfDay(s.startDate) <= day && day <= startOfDay(s.endDate)
+  );
+  if (existing) return existing;
+
+  const { monthStartDate, monthRenewDate } = finalClass;
+  if (!monthStartDate || !monthRenewDate) {
+    throw new BadRequestError('Class has no current cycle; set monthStartDate first');
+  }
+  if (day < startOfDay(monthStartDate) || day >= startOfDay(monthRenewDate)) {
+    throw new BadRequestError("date is outside the class's current month");
+  }
+
+  finalClass.attendanceSheets.push({
+    monthLabel: monthLabel(monthStartDate),
+    startDate: startOfDay(monthStartDate),
+    endDate: new Date(startOfDay(monthRenewDate).getTime() - DAY_MS),
+    tutor: finalClass.tutorAssigned,
+    records: [],
+    status: AttendanceSheetStatus.OPEN,
+    sessionsPresent: 0,
+    minutesTaught: 0,
+  });
+  return finalClass.attendanceSheets[finalClass.attendanceSheets.length - 1];
+}
+
+/**
+ * Log (or correct) the session on one day. Only the assigned tutor can log,
+ * and only while the month is neither approved by the parent nor locked.
+ */
+export async function logSession(params: LogSessionParams): Promise<IAttendanceSheet> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  if (String(finalClass.tutorAssigned) !== params.tutorId) {
+    throw new AuthorizationError('Only the tutor assigned to this class can log sessions');
+  }
+  if (finalClass.classStatus !== ClassStatus.ACTIVE) {
+    throw new ConflictError('Class is inactive');
+  }
+  if (params.date.getTime() > Date.now()) {
+    throw new BadRequestError('Sessions cannot be logged in advance');
+  }
+
+  const sheet = sheetForDate(finalClass, params.date);
+  if (sheet.lockedAt) {
+    throw new ConflictError(`Attendance for ${sheet.monthLabel} is locked`);
+  }
+  if (sheet.status === AttendanceSheetStatus.APPROVED) {
+    throw new ConflictError(`Attendance for ${sheet.monthLabel} is already approved by the parent`);
+  }
+
+  const record = {
+    date: startOfDay(params.date),
+    present: params.present,
+    durationMinutes: params.durationMinutes,
+    notes: params.notes,
+    loggedBy: new mongoose.Types.ObjectId(params.tutorId),
+  };
+  const index = sheet.records.findIndex((r) => isSameDay(r.date, params.date));
+  if (index >= 0) {
+    sheet.records.splice(index, 1, record);
+  } else {
+    sheet.records.push(record);
+    sheet.records.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+  // A correction after a dispute goes back to the parent for review
+  sheet.status = AttendanceSheetStatus.OPEN;
+  summarize(sheet);
+
+  await finalClass.save();
+  return sheet;
+}
+
+export async function listAttendanceSheets(finalClassId: string): Promise<IAttendanceSheet[]> {
+  const finalClass = await FinalClass.findById(finalClassId)
+    .select('attendanceSheets')
+    .populate('attendanceSheets.tutor', 'profile.firstName profile.lastName email');
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  return [...finalClass.attendanceSheets].sort(
+    (a, b) => b.startDate.getTime() - a.startDate.getTime()
+  );
+}
+
+/**
+ * Record the parent's decision on a month. Approval marks the month as payable
+ * to the tutor; a dispute sends it back to the tutor and the lead owner.
+ * Any decision retires the outstanding approval link.
+ */
+export async function reviewAttendanceSheet(
+  params: ReviewAttendanceParams
+): Promise<IAttendanceSheet> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  const sheet = findSheet(finalClass, params.sheetId);
+  if (sheet.lockedAt) {
+    throw new ConflictError(`Attendance for ${sheet.monthLabel} is locked`);
+  }
+  if (sheet.records.length === 0) {
+    throw new ConflictError('No sessions have been logged for this month yet');
+  }
+  if (params.decision === 'dispute' && !params.comment?.trim()) {
+    throw new BadRequestError('comment is required when disputing attendance');
+  }
+  if (params.approvalNonce !== undefined) {
+    await consumeApprovalNonce(finalClass, sheet, params.approvalNonce);
+  }
+
+  const isCurrentMonth =
+    Boolean(finalClass.monthStartDate) && isSameDay(sheet.startDate, finalClass.monthStartDate!);
+  if (params.decision === 'approve') {
+    sheet.status = AttendanceSheetStatus.APPROVED;
+    sheet.parentApprovedAt = new Date();
+    if (isCurrentMonth) finalClass.parentApprovedCurrentMonth = true;
+  } else {
+    sheet.status = AttendanceSheetStatus.DISPUTED;
+    sheet.parentApprovedAt = undefined;
+    if (isCurrentMonth) finalClass.parentApprovedCurrentMonth = false;
+  }
+  sheet.parentComment = params.comment?.trim() || undefined;
+  sheet.approvalNonce = undefined;
+  await finalClass.save();
+
+  await notifyReview(finalClass, sheet, params.decision);
+  return sheet;
+}
+
+const USED_APPROVAL_LINK_MESSAGE = 'This approval link has already been used or replaced';
+
+// Clears the nonce only if it still matches, so two submissions of one link cannot both count
+async function consumeApprovalNonce(
+  finalClass: IFinalClass,
+  sheet: IAttendanceSheet,
+  nonce: string
+): Promise<void> {
+  const result = await FinalClass.updateOne(
+    {
+      _id: finalClass._id,
+      attendanceSheets: { $elemMatch: { _id: sheet._id, approvalNonce: nonce } },
+    },
+    { $unset: { 'attendanceSheets.$.approvalNonce': '' } }
+  );
+  if (result.modifiedCount === 0) {
+    throw new AuthenticationError(USED_APPROVAL_LINK_MESSAGE);
+  }
+}
+
+async function notifyReview(
+  finalClass: IFinalClass,
+  sheet: IAttendanceSheet,
+  decision: AttendanceReviewDecision
+): Promise<void> {
+  const lead = await Lead.findById(finalClass.lead).select('studentName leadAssignedTo');
+  const recipients = new Set<string>();
+  if (sheet.tutor) recipients.add(sheet.tutor.toString());
+  if (decision === 'dispute' && lead?.leadAssignedTo)
+    recipients.add(lead.leadAssignedTo.toString());
+
+  const student = lead?.studentName || 'the student';
+  const title =
+    decision === 'approve' ? 'Attendance approved by parent' : 'Attendance disputed by parent';
+  const message =
+    decision === 'approve'
+      ? `The parent of ${student} approved attendance for ${sheet.monthLabel} (class ${finalClass.classId}).`
+      : `The parent of ${student} disputed attendance for ${sheet.monthLabel} (class ${finalClass.classId}): ${sheet.parentComment}`;
+
+  for (const userId of recipients) {
+    try {
+      await createNotification({
+        userId,
+        type: NotificationType.IN_APP,
+        category: NotificationCategory.ATTENDANCE_MARKED,
+        priority: decision === 'approve' ? NotificationPriority.LOW : NotificationPriority.HIGH,
+        title,
+        message,
+        metadata: { finalClassId: String(finalClass._id), sheetId: String(sheet._id) },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(
+        `Failed to notify ${userId} of attendance review on ${finalClass.classId}:`,
+        error
+      );
+    }
+  }
+}
+
+// Coordinators lock a month once it is settled; nothing on it changes afterwards
+export async function lockAttendanceSheet(
+  finalClassId: string,
+  sheetId: string,
+  lockedBy: string
+): Promise<IAttendanceSheet> {
+  const finalClass = await getFinalClassOrThrow(finalClassId);
+  const sheet = findSheet(finalClass, sheetId);
+  if (sheet.lockedAt) {
+    throw new ConflictError(`Attendance for ${sheet.monthLabel} is already locked`);
+  }
+
+  sheet.lockedAt = new Date();
+  sheet.lockedBy = new mongoose.Types.ObjectId(lockedBy);
+  await finalClass.save();
+  return sheet;
+}
+
+/**
+ * Signed link for the parent to review one month. ATTENDANCE_APPROVAL_URL
+ * points at the website page that renders it; otherwise the API URL is used.
+ * Each link replaces the previous one for the month and is good for one decision.
+ */
+export async function createAttendanceApprovalLink(
+  finalClassId: string,
+  sheetId: string
+): Promise<AttendanceApprovalLink> {
+  const finalClass = await getFinalClassOrThrow(finalClassId);
+  const sheet = findSheet(finalClass, sheetId);
+  if (sheet.lockedAt) {
+    throw new ConflictError(`Attendance for ${sheet.monthLabel} is locked`);
+  }
+
+  const nonce = crypto.randomBytes(16).toString('hex');
+  sheet.approvalNonce = nonce;
+  await finalClass.save();
+
+  const token = generateAttendanceApprovalToken({ finalClassId, sheetId, nonce });
+  const base = process.env.ATTENDANCE_APPROVAL_URL;
+  const url = base
+    ? `${base.replace(/\/$/, '')}?token=${encodeURIComponent(token)}`
+    : `/api/${process.env.API_VERSION || 'v1'}/public/attendance-approvals/${token}`;
+  return { token, url };
+}
+
+export function resolveAttendanceApprovalToken(token: string): {
+  finalClassId: string;
+  sheetId: string;
+  nonce: string;
+} {
+  const payload = verifyAttendanceApprovalToken(token);
+  if (!payload) {
+    throw new AuthenticationError('This approval link is invalid or has expired');
+  }
+  return payload;
+}
+
+// What a parent sees of one month: the sessions, nothing internal
+export function presentSheetForParent(sheet: IAttendanceSheet) {
+  return {
+    _id: sheet._id,
+    monthLabel: sheet.monthLabel,
+    startDate: sheet.startDate,
+    endDate: sheet.endDate,
+    status: sheet.status,
+    locked: Boolean(sheet.lockedAt),
+    sessionsPresent: sheet.sessionsPresent,
+    minutesTaught: sheet.minutesTaught,
+    records: sheet.records.map((r) => ({
+      date: r.date,
+      present: r.present,
+      durationMinutes: r.durationMinutes,
+      notes: r.notes,
+    })),
+    parentComment: sheet.parentComment,
+  };
+}
+
+// The review page behind an approval link
+export async function getAttendanceForParentReview(
+  finalClassId: string,
+  sheetId: string,
+  approvalNonce: string
+) {
+  const finalClass = await getFinalClassOrThrow(finalClassId);
+  const sheet = findSheet(finalClass, sheetId);
+  if (!sheet.approvalNonce || sheet.approvalNonce !== approvalNonce) {
+    throw new AuthenticationError(USED_APPROVAL_LINK_MESSAGE);
+  }
+  const [lead, tutor] = await Promise.all([
+    Lead.findById(finalClass.lead).select('studentName'),
+    sheet.tutor ? User.findById(sheet.tutor).select('profile.firstName profile.lastName') : null,
+  ]);
+
+  return {
+    classId: finalClass.classId,
+    studentName: lead?.studentName,
+    tutorName: tutor ? `${tutor.profile.firstName} ${tutor.profile.lastName}`.trim() : undefined,
+    ...presentSheetForParent(sheet),
+  };
+}
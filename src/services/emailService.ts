@@ -2,6 +2,7 @@ import mongoose from 'mongoose';
 import transporter, { EMAIL_FROM, EMAIL_TEMPLATES } from '../config/email';
 import User from '../models/User';
 import { NotificationCategory } from '../types/enums';
+import { escapeHtml } from '../utils/html';
 
 export interface SendEmailParams {
   to: string | string[];
@@ -173,6 +174,143 @@ export function buildEmailTemplate(
   return { subject, html: htmlContent, text: textContent };
 }
 
+export type TutorApplicationEmailStep =
+  | 'document_rejected'
+  | 'changes_requested'
+  | 'approved'
+  | 'rejected'
+  | 'promoted';
+
+export interface SendTutorApplicationEmailParams {
+  to: string;
+  name: string;
+  teacherId: string;
+  step: TutorApplicationEmailStep;
+  note?: string; // what to fix, or why the application was rejected
+}
+
+const TUTOR_APPLICATION_EMAILS: Record<TutorApplicationEmailStep, { subject: string; heading: string; body: string }> = {
+  document_rejected: {
+    subject: 'Action needed on your tutor application',
+    heading: 'A document needs to be uploaded again',
+    body: 'We could not verify one of the documents on your tutor application. Please upload it again from your account.',
+  },
+  changes_requested: {
+    subject: 'Changes requested on your tutor application',
+    heading: 'Please update your application',
+    body: 'We have reviewed your tutor application and need a few changes before we can continue. Please log in and update it.',
+  },
+  approved: {
+    subject: 'Your tutor application is approved',
+    heading: 'Welcome aboard!',
+    body: 'Your tutor application has been approved. Our team will be in touch with your first class.',
+  },
+  promoted: {
+    subject: 'Your tutor account is ready',
+    heading: 'Welcome to Your Shikshak',
+    body: 'You can now log in to Your Shikshak as a tutor with the email address and password you applied with.',
+  },
+  rejected: {
+    subject: 'Update on your tutor application',
+    heading: 'Your application was not approved',
+    body: 'Thank you for applying to teach with Your Shikshak. We are unable to take your application forward at this time.',
+  },
+};
+
+// Applicants are not Users yet, so these go straight to the address on the application
+export async function sendTutorApplicationEmail(params: SendTutorApplicationEmailParams): Promise<EmailResult> {
+  const { subject, heading, body } = TUTOR_APPLICATION_EMAILS[params.step];
+  const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">${heading}</h2>
+          <p>Hi ${escapeHtml(params.name)},</p>
+          <p>${body}</p>
+          ${params.note ? `<p><strong>${params.step === 'rejected' ? 'Reason' : 'Details'}:</strong> ${escapeHtml(params.note)}</p>` : ''}
+          <p>Application ID: <strong>${escapeHtml(params.teacherId)}</strong></p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+          <p style="color: #666; font-size: 12px;">This is an automated notification from Your Shikshak.</p>
+        </div>
+      `;
+  const text = `Hi ${params.name},\n\n${body}\n${params.note ? `\n${params.step === 'rejected' ? 'Reason' : 'Details'}: ${params.note}\n` : ''}\nApplication ID: ${params.teacherId}`;
+
+  return sendEmail({ to: params.to, subject, html, text });
+}
+
+export interface SendPasswordResetEmailParams {
+  to: string;
+  name: string;
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export async function sendPasswordResetEmail(params: SendPasswordResetEmailParams): Promise<EmailResult> {
+  const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Reset your password</h2>
+          <p>Hi ${escapeHtml(params.name)},</p>
+          <p>We received a request to reset the password of your tutor application account. The link is valid for ${params.expiresInMinutes} minutes.</p>
+          <p><a href="${params.resetUrl}" style="background-color: #007bff; color: white; padding: 10px 20px; text-decoration: none; border-radius: 5px;">Reset Password</a></p>
+          <p>If you did not ask for this, you can ignore this email; your password stays the same.</p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+          <p style="color: #666; font-size: 12px;">This is an automated notification from Your Shikshak.</p>
+        </div>
+      `;
+  const text = `Hi ${params.name},\n\nReset the password of your tutor application account within ${params.expiresInMinutes} minutes: ${params.resetUrl}\n\nIf you did not ask for this, you can ignore this email.`;
+
+  return sendEmail({ to: params.to, subject: 'Reset your password', html, text });
+}
+
+export interface SendAccountCreatedEmailParams {
+  to: string;
+  name: string;
+  role: string;
+  temporaryPassword: string;
+}
+
+// Accounts opened for a family on conversion; the temporary password is only ever sent here
+export async function sendAccountCreatedEmail(params: SendAccountCreatedEmailParams): Promise<EmailResult> {
+  const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Your account is ready</h2>
+          <p>Hi ${escapeHtml(params.name)},</p>
+          <p>We have opened a ${escapeHtml(params.role)} account for you. Log in with the details below and keep them safe.</p>
+          <p><strong>Email:</strong> ${escapeHtml(params.to)}<br><strong>Temporary password:</strong> ${escapeHtml(params.temporaryPassword)}</p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+          <p style="color: #666; font-size: 12px;">This is an automated notification from Your Shikshak.</p>
+        </div>
+      `;
+  const text = `Hi ${params.name},\n\nWe have opened a ${params.role} account for you. Log in with the details below and keep them safe.\n\nEmail: ${params.to}\nTemporary password: ${params.temporaryPassword}`;
+
+  return sendEmail({ to: params.to, subject: 'Welcome to Your Shikshak', html, text });
+}
+
+export interface SendClassRenewalReminderEmailParams {
+  to: string;
+  name: string;
+  classId: string;
+  studentName: string;
+  renewOn: string;
+  daysLeft: number;
+}
+
+export async function sendClassRenewalReminderEmail(
+  params: SendClassRenewalReminderEmailParams
+): Promise<EmailResult> {
+  const html = `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #333;">Class renewal due</h2>
+          <p>Hi ${escapeHtml(params.name)},</p>
+          <p>${escapeHtml(params.studentName)}'s class <strong>${escapeHtml(params.classId)}</strong> renews on <strong>${escapeHtml(params.renewOn)}</strong> (${params.daysLeft} days left). Please pay the renewal fee so classes continue without a break.</p>
+          <p>Your coordinator will be in touch with the payment details.</p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+          <p style="color: #666; font-size: 12px;">This is an automated notification from Your Shikshak.</p>
+        </div>
+      `;
+  const text = `Hi ${params.name},\n\n${params.studentName}'s class ${params.classId} renews on ${params.renewOn} (${params.daysLeft} days left). Please pay the renewal fee so classes continue without a break.\n\nYour coordinator will be in touch with the payment details.`;
+
+  return sendEmail({ to: params.to, subject: 'Class renewal due', html, text });
+}
+
 export async function sendBulkEmails(
   recipients: Array<{ userId: string; category: NotificationCategory; data: Record<string, any> }>
 ): Promise<{ sent: number; failed: number; results: EmailResult[] }> {
@@ -1,7 +1,54 @@
 import mongoose from 'mongoose';
-import Lead, { ILead, LeadStatus } from '../models/Lead';
-import FinalClass, { IFinalClass, ClassStatus } from '../models/FinalClass';
-import { generateClassId } from '../utils/classId';
+import Invoice, { IInvoice, InvoiceStatus } from '../models/Invoice';
+import Lead, { ILead } from '../models/Lead';
+import FinalClass, {
+  IFinalClass,
+  ClassStatus,
+  ITutorAssignment,
+  TutorChangeReason,
+} from '../models/FinalClass';
+import Tutor from '../models/Tutor';
+import User, { IUser } from '../models/User';
+import { allocateId, IdKind, resolveCityCode } from '../utils/idAllocator';
+import {
+  createInvoice,
+  InvoiceLineItemInput,
+  issueInvoice,
+  markInvoicePaid,
+} from './invoiceService';
+import { sendAccountCreatedEmail } from './emailService';
+import { createNotification } from './notificationService';
+import {
+  NotificationCategory,
+  NotificationPriority,
+  NotificationType,
+  UserRole,
+} from '../types/enums';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { generateRandomPassword } from '../utils/password';
+import { escapeRegex } from '../utils/regex';
+import { isDemoApprovedByParent } from './leadService';
+import { daysUntilRenewal, nextRenewalDate } from './renewalService';
+
+export interface ConversionAccountParams {
+  email: string;
+  // A temporary password is generated and emailed to the account when omitted
+  password?: string;
+  firstName?: string;
+  lastName?: string;
+  phone?: string;
+  linkExisting?: boolean; // staff confirmed the existing account with this email is the family's
+}
+
+export interface ConversionInvoiceParams {
+  lineItems?: InvoiceLineItemInput[];
+  gstRate?: number;
+  interState?: boolean;
+  customerGstin?: string;
+  notes?: string;
+  paymentMode?: string;
+  paymentReference?: string;
+}
 
 export interface ConvertLeadParams {
   leadId: string;
@@ -10,41 +57,639 @@ export interface ConvertLeadParams {
   tutorTier?: string;
   firstMonthStartDate?: Date;
   monthStartDate?: Date;
+  student?: ConversionAccountParams;
+  parent?: ConversionAccountParams;
+  invoice?: ConversionInvoiceParams;
+  convertedBy: string;
+}
+
+export interface ConversionAccount {
+  user: IUser;
+  created: boolean;
+  credentialsEmailed?: boolean; // set when a generated password was sent to the account
+}
+
+// Only lives until the credentials email is sent; never part of a response
+interface NewConversionAccount extends ConversionAccount {
+  temporaryPassword?: string;
+}
+
+interface PendingConversion extends LeadConversionResult {
+  student?: NewConversionAccount;
+  parent?: NewConversionAccount;
+}
+
+export interface LeadConversionResult {
+  finalClass: IFinalClass;
+  lead: ILead;
+  student?: ConversionAccount;
+  parent?: ConversionAccount;
+  invoice?: IInvoice;
+}
+
+export interface FinalClassListFilters {
+  classStatus?: ClassStatus;
+  tutorAssigned?: string;
+  leadId?: string;
+  cityCode?: string;
+  renewalFrom?: Date;
+  renewalTo?: Date;
+  renewsWithinDays?: number;
+}
+
+export interface FinalClassListOptions {
+  page?: number;
+  limit?: number;
+  // Lead access filter from getLeadAccessScope; applied to the class's lead
+  scope?: Record<string, any>;
+}
+
+export interface UpdateFinalClassParams {
+  tutorTier?: string;
+  firstMonthStartDate?: Date;
+  monthStartDate?: Date;
+  monthRenewDate?: Date;
+  testDate?: Date;
+  testTutorAssigned?: string | null;
+}
+
+export interface AssignFinalClassTutorParams {
+  finalClassId: string;
+  tutorId: string;
+  tutorTier?: string;
+  assignedBy?: string;
+}
+
+export interface ReassignFinalClassTutorParams {
+  finalClassId: string;
+  tutorId: string;
+  reason: TutorChangeReason;
+  reasonNotes?: string;
+  effectiveDate?: Date;
+  handoverNotes?: string;
+  tutorTier?: string;
+  changedBy: string;
+}
+
+export interface ChangeFinalClassStatusParams {
+  finalClassId: string;
+  status: ClassStatus;
+  reason: string;
+  changedBy: string;
+}
+
+const DEFAULT_FINAL_CLASS_PAGE_SIZE = 20;
+const MAX_FINAL_CLASS_PAGE_SIZE = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TUTOR_FIELDS = 'profile.firstName profile.lastName email phone';
+
+async function getFinalClassOrThrow(finalClassId: string): Promise<IFinalClass> {
+  const finalClass = await FinalClass.findById(finalClassId);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  return finalClass;
+}
+
+async function findActiveTutor(tutorId: string) {
+  const tutor = await User.findById(tutorId);
+  if (!tutor || tutor.role !== UserRole.TEACHER) {
+    throw new NotFoundError('Tutor');
+  }
+  if (!tutor.isActive) {
+    throw new ConflictError('Tutor account is not active');
+  }
+  return tutor;
 }
 
-export async function convertLeadToFinalClass(params: ConvertLeadParams): Promise<IFinalClass> {
+function splitName(fullName?: string): { firstName: string; lastName?: string } {
+  const [firstName, ...rest] = (fullName || '').trim().split(/\s+/);
+  return { firstName: firstName || 'Parent', lastName: rest.join(' ') || undefined };
+}
+
+/**
+ * Create the account, or reuse one with the same email and role (a parent
+ * with a second child, a student taking another class) once staff confirm
+ * with linkExisting that it belongs to this family.
+ */
+async function findOrCreateAccount(
+  role: UserRole,
+  params: ConversionAccountParams,
+  fallbackName: string,
+  fallbackPhone?: string
+): Promise<NewConversionAccount> {
+  const email = params.email.trim().toLowerCase();
+  const existing = await User.findOne({ email });
+  if (existing) {
+    if (existing.role !== role) {
+      throw new ConflictError(`${email} is already registered as ${existing.role}`);
+    }
+    if (!params.linkExisting) {
+      throw new ConflictError(
+        `${email} already has a ${role} account; confirm with linkExisting to use it`
+      );
+    }
+    return { user: existing, created: false };
+  }
+
+  const temporaryPassword = params.password ? undefined : generateRandomPassword(12);
+  const name = splitName(fallbackName);
+  const [user] = await User.create([
+    {
+      email,
+      password: params.password || temporaryPassword,
+      role,
+      profile: {
+        firstName: params.firstName || name.firstName,
+        lastName: params.lastName ?? name.lastName,
+        phone: params.phone || fallbackPhone,
+      },
+    },
+  ]);
+  return { user, created: true, temporaryPassword };
+}
+
+/**
+ * Bill the first month. A conversion invoice already raised for the lead is
+ * linked to the class rather than billed twice; otherwise one is created,
+ * issued and marked paid with the payment the lead already received.
+ */
+async function billFirstMonth(
+  lead: ILead,
+  finalClass: IFinalClass,
+  params: ConversionInvoiceParams,
+  convertedBy: string
+): Promise<IInvoice> {
+  const existing = await Invoice.findOne({
+    lead: lead._id,
+    finalClass: { $exists: false },
+    status: { $ne: InvoiceStatus.VOID },
+  }).sort({ createdAt: -1 });
+  if (existing) {
+    existing.finalClass = finalClass._id as mongoose.Types.ObjectId;
+    await existing.save();
+    return existing;
+  }
+
+  const draft = await createInvoice({
+    finalClassId: String(finalClass._id),
+    periodStart: finalClass.monthStartDate,
+    lineItems: params.lineItems,
+    gstRate: params.gstRate,
+    interState: params.interState,
+    customerGstin: params.customerGstin,
+    notes: params.notes,
+    createdBy: convertedBy,
+  });
+  await issueInvoice(String(draft._id), convertedBy);
+  return markInvoicePaid({
+    invoiceId: String(draft._id),
+    paymentMode: params.paymentMode || lead.paymentMode,
+    paymentReference: params.paymentReference,
+    recordedBy: convertedBy,
+  });
+}
+
+async function convertInTransaction(params: ConvertLeadParams): Promise<PendingConversion> {
   const { leadId, cityCode, tutorAssigned, tutorTier, firstMonthStartDate, monthStartDate } = params;
 
   const lead = await Lead.findById(leadId);
   if (!lead) {
-    throw new Error('Lead not found');
+    throw new NotFoundError('Lead');
   }
 
-  // Must be approved demo and payment received
-  if (lead.leadStatus !== LeadStatus.DEMO_APPROVED_BY_PARENT) {
-    throw new Error('Lead is not approved by parent');
+  // Must be approved demo (per status history) and payment received
+  if (!isDemoApprovedByParent(lead)) {
+    throw new BadRequestError('Lead is not approved by parent');
+  }
+  if (lead.isConverted) {
+    throw new BadRequestError('Lead is already converted');
   }
   if (!lead.paymentReceived?.received) {
-    throw new Error('Payment not received');
+    throw new BadRequestError('Payment not received');
+  }
+  const sameEmail =
+    params.student &&
+    params.parent &&
+    params.student.email.trim().toLowerCase() === params.parent.email.trim().toLowerCase();
+  if (sameEmail) {
+    throw new BadRequestError('Student and parent need different email addresses');
   }
 
-  const classId = generateClassId(cityCode);
+  const tutorId = tutorAssigned
+    ? ((await findActiveTutor(tutorAssigned))._id as mongoose.Types.ObjectId)
+    : undefined;
+  const student = params.student
+    ? await findOrCreateAccount(UserRole.STUDENT, params.student, lead.studentName)
+    : undefined;
+  const parent = params.parent
+    ? await findOrCreateAccount(UserRole.PARENT, params.parent, lead.parentsName, lead.contactNumber)
+    : undefined;
 
-  const doc = await FinalClass.create({
-    lead: lead._id as mongoose.Types.ObjectId,
-    classId,
-    classStatus: ClassStatus.ACTIVE,
-    tutorAssigned: tutorAssigned ? new mongoose.Types.ObjectId(tutorAssigned) : undefined,
-    tutorTier,
-    firstMonthStartDate,
-    monthStartDate,
-  });
+  const classCityCode = resolveCityCode({ cityCode });
+  const classId = await allocateId(IdKind.CLASS, { cityCode: classCityCode });
+  const cycleStart = monthStartDate || firstMonthStartDate;
+  const monthRenewDate = cycleStart ? nextRenewalDate(cycleStart) : undefined;
+
+  const [finalClass] = await FinalClass.create([
+    {
+      lead: lead._id as mongoose.Types.ObjectId,
+      student: student?.user._id,
+      parent: parent?.user._id,
+      classId,
+      cityCode: classCityCode,
+      classStatus: ClassStatus.ACTIVE,
+      tutorAssigned: tutorId,
+      tutorTier,
+      tutorHistory: tutorId
+        ? [
+            {
+              tutor: tutorId,
+              tutorTier,
+              startedAt: cycleStart || new Date(),
+              assignedBy: new mongoose.Types.ObjectId(params.convertedBy),
+            },
+          ]
+        : [],
+      firstMonthStartDate,
+      monthStartDate: cycleStart,
+      monthRenewDate,
+      daysLeftUntilRenewal: daysUntilRenewal(monthRenewDate),
+    },
+  ]);
 
   // mark lead converted for easy filtering
   lead.isConverted = true;
   await lead.save();
 
-  return doc;
+  if (tutorId) await moveTutorAssignedClass(finalClass, undefined, tutorId);
+  const invoice = params.invoice
+    ? await billFirstMonth(lead, finalClass, params.invoice, params.convertedBy)
+    : undefined;
+
+  return { finalClass, lead, student, parent, invoice };
+}
+
+// Generated passwords go to the account holder by email, never back to staff
+async function deliverCredentials(
+  account: NewConversionAccount | undefined
+): Promise<ConversionAccount | undefined> {
+  if (!account) return undefined;
+  const { temporaryPassword, ...rest } = account;
+  if (!temporaryPassword) return rest;
+
+  const email = await sendAccountCreatedEmail({
+    to: account.user.email,
+    name: account.user.profile?.firstName || account.user.email,
+    role: account.user.role,
+    temporaryPassword,
+  });
+  if (!email.success) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to email credentials to ${account.user.email}:`, email.error);
+  }
+  return { ...rest, credentialsEmailed: email.success };
+}
+
+/**
+ * Convert an approved, paid lead into a FinalClass, optionally creating the
+ * student and parent accounts and the first month's invoice on the way. It
+ * all runs in one transaction: any failure leaves nothing behind.
+ */
+export async function convertLeadToFinalClass(
+  params: ConvertLeadParams
+): Promise<LeadConversionResult> {
+  const result = await mongoose.connection.transaction(() => convertInTransaction(params));
+  // Only after commit, so nobody is sent a password for an account that was rolled back
+  return {
+    ...result,
+    student: await deliverCredentials(result.student),
+    parent: await deliverCredentials(result.parent),
+  };
+}
+
+
+
+/**
+ * List final classes, soonest renewal first. The renewal window filters on
+ * monthRenewDate; renewsWithinDays is shorthand for "from now to now + N days".
+ */
+export async function listFinalClasses(
+  filters: FinalClassListFilters,
+  options: FinalClassListOptions = {}
+) {
+  const limit = Math.min(
+    Math.max(options.limit || DEFAULT_FINAL_CLASS_PAGE_SIZE, 1),
+    MAX_FINAL_CLASS_PAGE_SIZE
+  );
+  const page = Math.max(options.page || 1, 1);
+
+  const query: Record<string, any> = {};
+  if (filters.classStatus) query.classStatus = filters.classStatus;
+  if (filters.tutorAssigned) query.tutorAssigned = new mongoose.Types.ObjectId(filters.tutorAssigned);
+  if (filters.cityCode) {
+    const code = filters.cityCode.toUpperCase();
+    query.$or = [
+      { cityCode: code },
+      { cityCode: { $exists: false }, classId: new RegExp(`^CL-${escapeRegex(code)}-`) },
+    ];
+  }
+
+  const renewal: Record<string, Date> = {};
+  if (filters.renewsWithinDays !== undefined) {
+    const now = new Date();
+    renewal.$gte = now;
+    renewal.$lte = new Date(now.getTime() + filters.renewsWithinDays * DAY_MS);
+  }
+  if (filters.renewalFrom) renewal.$gte = filters.renewalFrom;
+  if (filters.renewalTo) renewal.$lte = filters.renewalTo;
+  if (Object.keys(renewal).length > 0) query.monthRenewDate = renewal;
+
+  const leadConditions: Record<string, any>[] = [];
+  if (filters.leadId) leadConditions.push({ lead: new mongoose.Types.ObjectId(filters.leadId) });
+  if (options.scope && Object.keys(options.scope).length > 0) {
+    const visibleLeads = await Lead.distinct('_id', options.scope);
+    leadConditions.push({ lead: { $in: visibleLeads } });
+  }
+  if (leadConditions.length > 0) query.$and = leadConditions;
+
+  const [finalClasses, total] = await Promise.all([
+    FinalClass.find(query)
+      .select('-attendanceSheets -testReports')
+      .sort({ monthRenewDate: 1, createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('lead', 'parentsName studentName classLocation.city')
+      .populate('tutorAssigned', TUTOR_FIELDS),
+    FinalClass.countDocuments(query),
+  ]);
+
+  return { finalClasses, count: finalClasses.length, total, page, totalPages: Math.ceil(total / limit) };
+}
+
+export async function getFinalClass(finalClassId: string): Promise<IFinalClass> {
+  const finalClass = await FinalClass.findById(finalClassId)
+    .populate('lead')
+    .populate('tutorAssigned', TUTOR_FIELDS)
+    .populate('testTutorAssigned', TUTOR_FIELDS)
+    .populate('statusHistory.changedBy', 'profile.firstName profile.lastName email')
+    .populate('tutorHistory.tutor', TUTOR_FIELDS);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  return finalClass;
+}
+
+export async function updateFinalClass(
+  finalClassId: string,
+  params: UpdateFinalClassParams
+): Promise<IFinalClass> {
+  const finalClass = await getFinalClassOrThrow(finalClassId);
+
+  if (params.tutorTier !== undefined) finalClass.tutorTier = params.tutorTier;
+  if (params.firstMonthStartDate) finalClass.firstMonthStartDate = params.firstMonthStartDate;
+  if (params.monthStartDate) finalClass.monthStartDate = params.monthStartDate;
+  // Moving the cycle start moves its renewal unless one is given explicitly
+  const renewDate =
+    params.monthRenewDate || (params.monthStartDate && nextRenewalDate(params.monthStartDate));
+  if (renewDate && renewDate.getTime() !== finalClass.monthRenewDate?.getTime()) {
+    finalClass.monthRenewDate = renewDate;
+    finalClass.renewalReminderSentAt = undefined;
+  }
+  if (params.testDate) finalClass.testDate = params.testDate;
+  if (params.testTutorAssigned === null) {
+    finalClass.testTutorAssigned = undefined;
+  } else if (params.testTutorAssigned) {
+    const tutor = await findActiveTutor(params.testTutorAssigned);
+    finalClass.testTutorAssigned = tutor._id as mongoose.Types.ObjectId;
+  }
+
+  if (
+    finalClass.monthStartDate &&
+    finalClass.monthRenewDate &&
+    finalClass.monthRenewDate <= finalClass.monthStartDate
+  ) {
+    throw new BadRequestError('monthRenewDate must be after monthStartDate');
+  }
+  finalClass.daysLeftUntilRenewal = daysUntilRenewal(finalClass.monthRenewDate);
+
+  await finalClass.save();
+  return finalClass;
+}
+
+/**
+ * The open tutorHistory entry of the current tutor. Classes assigned before
+ * the history existed get one backdated to the start of the class.
+ */
+function currentTutorStint(finalClass: IFinalClass): ITutorAssignment | undefined {
+  if (!finalClass.tutorAssigned) return undefined;
+  const current = finalClass.tutorHistory.find(
+    (h) => !h.endedAt && String(h.tutor) === String(finalClass.tutorAssigned)
+  );
+  if (current) return current;
+
+  finalClass.tutorHistory.push({
+    tutor: finalClass.tutorAssigned,
+    tutorTier: finalClass.tutorTier,
+    startedAt: finalClass.firstMonthStartDate || finalClass.createdAt,
+  });
+  return finalClass.tutorHistory[finalClass.tutorHistory.length - 1];
+}
+
+/**
+ * Keep the tutors' own class lists in step with the class: drop it from the
+ * outgoing tutor and add it (once) for the incoming one. Tutors without a
+ * Tutor profile have no list to update.
+ */
+async function moveTutorAssignedClass(
+  finalClass: IFinalClass,
+  fromTutor: mongoose.Types.ObjectId | undefined,
+  toTutor: mongoose.Types.ObjectId
+): Promise<void> {
+  if (fromTutor) {
+    await Tutor.updateOne(
+      { user: fromTutor },
+      { $pull: { assignedClasses: { classId: finalClass.classId } } }
+    );
+  }
+
+  const lead = await Lead.findById(finalClass.lead).select(
+    'studentName subjectsRequired classAndBoard'
+  );
+  await Tutor.updateOne(
+    { user: toTutor, 'assignedClasses.classId': { $ne: finalClass.classId } },
+    {
+      $push: {
+        assignedClasses: {
+          classId: finalClass.classId,
+          studentName: lead?.studentName,
+          subject: lead?.subjectsRequired?.join(', ') || undefined,
+          grade: lead?.classAndBoard?.classLevel,
+        },
+      },
+    }
+  );
+}
+
+/**
+ * Assign the first tutor of an active class (or change the tier of the
+ * current one). Replacing a tutor goes through reassignFinalClassTutor so the
+ * history records why.
+ */
+export async function assignFinalClassTutor(
+  params: AssignFinalClassTutorParams
+): Promise<IFinalClass> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  if (finalClass.classStatus !== ClassStatus.ACTIVE) {
+    throw new ConflictError('Cannot assign a tutor to an inactive class');
+  }
+
+  const tutor = await findActiveTutor(params.tutorId);
+  const tutorId = tutor._id as mongoose.Types.ObjectId;
+  if (finalClass.tutorAssigned && String(finalClass.tutorAssigned) !== String(tutorId)) {
+    throw new ConflictError('Class already has a tutor; use reassignment to replace them');
+  }
+
+  if (params.tutorTier !== undefined) finalClass.tutorTier = params.tutorTier;
+  const isNew = !finalClass.tutorAssigned;
+  if (isNew) {
+    finalClass.tutorAssigned = tutorId;
+    finalClass.tutorHistory.push({
+      tutor: tutorId,
+      tutorTier: finalClass.tutorTier,
+      startedAt: new Date(),
+      assignedBy: params.assignedBy ? new mongoose.Types.ObjectId(params.assignedBy) : undefined,
+    });
+  } else {
+    currentTutorStint(finalClass)!.tutorTier = finalClass.tutorTier;
+  }
+  await finalClass.save();
+
+  if (isNew) await moveTutorAssignedClass(finalClass, undefined, tutorId);
+  await finalClass.populate('tutorAssigned', TUTOR_FIELDS);
+  return finalClass;
 }
 
+/**
+ * Hand an active class over to another tutor. The outgoing tutor's stint is
+ * closed with the reason and effective date, the incoming tutor's starts on
+ * the same date, and both tutors' assignedClasses follow.
+ */
+export async function reassignFinalClassTutor(
+  params: ReassignFinalClassTutorParams
+): Promise<IFinalClass> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  if (finalClass.classStatus !== ClassStatus.ACTIVE) {
+    throw new ConflictError('Cannot reassign the tutor of an inactive class');
+  }
+  if (!finalClass.tutorAssigned) {
+    throw new ConflictError('Class has no tutor to replace; assign one instead');
+  }
+  if (String(finalClass.tutorAssigned) === params.tutorId) {
+    throw new ConflictError('This tutor is already assigned to the class');
+  }
+
+  const effectiveDate = params.effectiveDate || new Date();
+  if (effectiveDate.getTime() > Date.now()) {
+    throw new BadRequestError('effectiveDate cannot be in the future');
+  }
+  const previous = currentTutorStint(finalClass)!;
+  if (effectiveDate < previous.startedAt) {
+    throw new BadRequestError("effectiveDate is before the current tutor's start");
+  }
+
+  const tutor = await findActiveTutor(params.tutorId);
+  const tutorId = tutor._id as mongoose.Types.ObjectId;
+  const changedBy = new mongoose.Types.ObjectId(params.changedBy);
+  const previousTutor = finalClass.tutorAssigned;
 
+  previous.endedAt = effectiveDate;
+  previous.endReason = params.reason;
+  previous.endNotes = params.reasonNotes;
+  previous.handoverNotes = params.handoverNotes;
+  previous.endedBy = changedBy;
+
+  if (params.tutorTier !== undefined) finalClass.tutorTier = params.tutorTier;
+  finalClass.tutorAssigned = tutorId;
+  finalClass.tutorHistory.push({
+    tutor: tutorId,
+    tutorTier: finalClass.tutorTier,
+    startedAt: effectiveDate,
+    assignedBy: changedBy,
+  });
+  await finalClass.save();
+
+  await moveTutorAssignedClass(finalClass, previousTutor, tutorId);
+  await notifyTutorChange(finalClass, previousTutor, tutorId, params.handoverNotes);
+
+  await finalClass.populate('tutorAssigned', TUTOR_FIELDS);
+  return finalClass;
+}
+
+async function notifyTutorChange(
+  finalClass: IFinalClass,
+  previousTutor: mongoose.Types.ObjectId,
+  newTutor: mongoose.Types.ObjectId,
+  handoverNotes?: string
+): Promise<void> {
+  const lead = await Lead.findById(finalClass.lead).select('studentName');
+  const student = lead?.studentName || 'a student';
+  const notices = [
+    {
+      userId: String(newTutor),
+      category: NotificationCategory.CLASS_SCHEDULED,
+      title: 'New class assigned',
+      message: `You are now teaching ${student} (class ${finalClass.classId}).${
+        handoverNotes ? ` Handover notes: ${handoverNotes}` : ''
+      }`,
+    },
+    {
+      userId: String(previousTutor),
+      category: NotificationCategory.CLASS_CANCELLED,
+      title: 'Class reassigned',
+      message: `Class ${finalClass.classId} (${student}) has been handed over to another tutor.`,
+    },
+  ];
+
+  for (const notice of notices) {
+    try {
+      await createNotification({
+        ...notice,
+        type: NotificationType.IN_APP,
+        priority: NotificationPriority.HIGH,
+        metadata: { finalClassId: String(finalClass._id) },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to notify ${notice.userId} of tutor change on ${finalClass.classId}:`, error);
+    }
+  }
+}
+
+/**
+ * Activate or deactivate a class. The reason is kept in statusHistory so the
+ * team can see why a class stopped (or restarted) without digging elsewhere.
+ */
+export async function changeFinalClassStatus(
+  params: ChangeFinalClassStatusParams
+): Promise<IFinalClass> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  if (finalClass.classStatus === params.status) {
+    throw new ConflictError(`Class is already ${params.status}`);
+  }
+  if (finalClass.lapsedAt && params.status === ClassStatus.ACTIVE) {
+    throw new ConflictError('Class lapsed for non-payment; record the renewal payment to reactivate it');
+  }
+
+  finalClass.statusHistory.push({
+    from: finalClass.classStatus,
+    to: params.status,
+    reason: params.reason,
+    changedBy: new mongoose.Types.ObjectId(params.changedBy),
+    changedAt: new Date(),
+  });
+  finalClass.classStatus = params.status;
+  await finalClass.save();
+  return finalClass;
+}
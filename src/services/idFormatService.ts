@@ -0,0 +1,25 @@
+import { updateSystemSetting } from './adminService';
+import {
+  getIdFormats,
+  ID_FORMATS_SETTING_KEY,
+  IdFormats,
+  validateIdFormat,
+} from '../utils/idAllocator';
+import { ValidationError } from '../utils/errors';
+
+export async function updateIdFormats(
+  formats: Partial<IdFormats>,
+  updatedBy: string
+): Promise<IdFormats> {
+  const errors: Array<{ field: string; message: string }> = [];
+  Object.entries(formats).forEach(([kind, format]) => {
+    validateIdFormat(format || '').forEach((message) => errors.push({ field: kind, message }));
+  });
+  if (errors.length > 0) {
+    throw new ValidationError('Validation failed', errors);
+  }
+
+  const value: IdFormats = { ...(await getIdFormats()), ...formats };
+  await updateSystemSetting(ID_FORMATS_SETTING_KEY, value, updatedBy);
+  return value;
+}
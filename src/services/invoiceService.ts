@@ -0,0 +1,640 @@
+import mongoose from 'mongoose';
+import Invoice, {
+  IInvoice,
+  IInvoiceLineItem,
+  IInvoiceParty,
+  InvoiceStatus,
+} from '../models/Invoice';
+import Lead, { ILead } from '../models/Lead';
+import FinalClass, { IFinalClass } from '../models/FinalClass';
+import Counter from '../models/Counter';
+import { withTransaction } from '../config/database';
+import { LeadActivityType } from '../models/LeadActivity';
+import { addLeadActivity } from './leadActivityService';
+import { applyRenewalPayment, assertRenewable, isSameDay } from './renewalService';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { escapeHtml } from '../utils/html';
+import { PdfLine, renderTextPdf } from '../utils/pdf';
+
+export interface InvoiceLineItemInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface CreateInvoiceParams {
+  leadId?: string;
+  finalClassId?: string;
+  cityCode?: string;
+  periodStart?: Date;
+  lineItems?: InvoiceLineItemInput[];
+  gstRate?: number;
+  interState?: boolean;
+  customerGstin?: string;
+  notes?: string;
+  createdBy?: string;
+}
+
+export interface UpdateInvoiceParams {
+  lineItems?: InvoiceLineItemInput[];
+  gstRate?: number;
+  interState?: boolean;
+  customerGstin?: string;
+  notes?: string;
+}
+
+export interface RecordInvoicePaymentParams {
+  invoiceId: string;
+  paymentMode?: string;
+  paymentReference?: string;
+  paidAt?: Date;
+  recordedBy: string;
+}
+
+export interface InvoiceListFilters {
+  status?: InvoiceStatus;
+  leadId?: string;
+  finalClassId?: string;
+  cityCode?: string;
+  issuedFrom?: Date;
+  issuedTo?: Date;
+}
+
+export interface InvoiceListOptions {
+  page?: number;
+  limit?: number;
+  // Row-level lead access filter from getLeadAccessScope
+  scope?: Record<string, any>;
+}
+
+const DEFAULT_INVOICE_PAGE_SIZE = 20;
+const MAX_INVOICE_PAGE_SIZE = 100;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function getDefaultGstRate(): number {
+  return envNumber('INVOICE_GST_RATE', 18);
+}
+
+function getSeller(): IInvoiceParty {
+  return {
+    name: process.env.INVOICE_SELLER_NAME || 'Your Shikshak',
+    address: process.env.INVOICE_SELLER_ADDRESS || undefined,
+    gstin: process.env.INVOICE_SELLER_GSTIN || undefined,
+  };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Indian financial year, April to March: "2026-27"
+export function financialYear(date: Date): string {
+  const year = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${year}-${String((year + 1) % 100).padStart(2, '0')}`;
+}
+
+// Classes created before cityCode was stored: CL-BPL-ABCD-12 -> BPL
+function cityCodeFromClassId(classId?: string): string | undefined {
+  return classId?.split('-')[1] || undefined;
+}
+
+function billingPeriod(start: Date): { periodStart: Date; periodEnd: Date; periodLabel: string } {
+  const periodStart = new Date(start);
+  periodStart.setHours(0, 0, 0, 0);
+  const periodEnd = new Date(periodStart);
+  periodEnd.setMonth(periodEnd.getMonth() + 1);
+  periodEnd.setDate(periodEnd.getDate() - 1);
+  const periodLabel = periodStart.toLocaleString('en-IN', { month: 'long', year: 'numeric' });
+  return { periodStart, periodEnd, periodLabel };
+}
+
+// Fees on the lead are per class; leads without a class count bill one monthly fee
+function defaultLineItems(lead: ILead): InvoiceLineItemInput[] {
+  if (lead.fees == null) {
+    throw new ValidationError('Validation failed', [
+      { field: 'lineItems', message: 'Lead has no fees; pass lineItems explicitly' },
+    ]);
+  }
+  const subjects = (lead.subjectsRequired || []).join(', ') || 'All subjects';
+  const { classLevel, board } = lead.classAndBoard;
+  if (lead.numClassesPerMonth) {
+    return [
+      {
+        description: `Tuition classes: ${subjects} (Class ${classLevel}, ${board})`,
+        quantity: lead.numClassesPerMonth,
+        unitPrice: lead.fees,
+      },
+    ];
+  }
+  return [
+    {
+      description: `Monthly tuition fee: ${subjects} (Class ${classLevel}, ${board})`,
+      quantity: 1,
+      unitPrice: lead.fees,
+    },
+  ];
+}
+
+function computeTotals(items: InvoiceLineItemInput[], gstRate: number, interState: boolean) {
+  const lineItems: IInvoiceLineItem[] = items.map((item) => ({
+    description: item.description,
+    quantity: item.quantity,
+    unitPrice: round2(item.unitPrice),
+    amount: round2(item.quantity * item.unitPrice),
+  }));
+  const subtotal = round2(lineItems.reduce((sum, item) => sum + item.amount, 0));
+  const taxTotal = round2((subtotal * gstRate) / 100);
+  const cgst = interState ? 0 : round2(taxTotal / 2);
+  return {
+    lineItems,
+    subtotal,
+    gstRate,
+    interState,
+    cgst,
+    sgst: interState ? 0 : round2(taxTotal - cgst),
+    igst: interState ? taxTotal : 0,
+    taxTotal,
+    total: round2(subtotal + taxTotal),
+  };
+}
+
+async function getInvoiceOrThrow(invoiceId: string): Promise<IInvoice> {
+  const invoice = await Invoice.findById(invoiceId);
+  if (!invoice) {
+    throw new NotFoundError('Invoice');
+  }
+  return invoice;
+}
+
+/**
+ * Draft an invoice for one monthly cycle of a lead (before conversion) or of
+ * its FinalClass. Line items default to classes per month x fee from the lead.
+ */
+export async function createInvoice(params: CreateInvoiceParams): Promise<IInvoice> {
+  let finalClass: IFinalClass | null = null;
+  if (params.finalClassId) {
+    finalClass = await FinalClass.findById(params.finalClassId);
+    if (!finalClass) {
+      throw new NotFoundError('FinalClass');
+    }
+  }
+
+  const leadId = params.leadId || finalClass?.lead.toString();
+  if (!leadId) {
+    throw new BadRequestError('leadId or finalClassId is required');
+  }
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  if (finalClass && finalClass.lead.toString() !== String(lead._id)) {
+    throw new BadRequestError('Final class does not belong to this lead');
+  }
+
+  const cityCode = (
+    params.cityCode ||
+    finalClass?.cityCode ||
+    cityCodeFromClassId(finalClass?.classId) ||
+    ''
+  ).toUpperCase();
+  if (!cityCode) {
+    throw new ValidationError('Validation failed', [
+      {
+        field: 'cityCode',
+        message: 'cityCode is required when the invoice is not linked to a final class',
+      },
+    ]);
+  }
+
+  const { periodStart, periodEnd, periodLabel } = billingPeriod(
+    params.periodStart ||
+      finalClass?.monthStartDate ||
+      finalClass?.firstMonthStartDate ||
+      new Date()
+  );
+
+  const existing = await Invoice.exists({
+    lead: lead._id,
+    finalClass: finalClass ? finalClass._id : { $exists: false },
+    periodStart,
+    status: { $ne: InvoiceStatus.VOID },
+  });
+  if (existing) {
+    throw new ConflictError(`An invoice for ${periodLabel} already exists`);
+  }
+
+  const totals = computeTotals(
+    params.lineItems?.length ? params.lineItems : defaultLineItems(lead),
+    params.gstRate ?? getDefaultGstRate(),
+    params.interState ?? false
+  );
+
+  try {
+    return await Invoice.create({
+      cityCode,
+      status: InvoiceStatus.DRAFT,
+      lead: lead._id,
+      finalClass: finalClass?._id,
+      periodStart,
+      periodEnd,
+      periodLabel,
+      billTo: {
+        name: lead.parentsName,
+        studentName: lead.studentName,
+        address: lead.classLocation?.addressText,
+        gstin: params.customerGstin,
+      },
+      ...totals,
+      notes: params.notes,
+      createdBy: params.createdBy ? new mongoose.Types.ObjectId(params.createdBy) : undefined,
+    });
+  } catch (error: any) {
+    // Lost a race with another request creating the same period's invoice
+    if (error?.code === 11000 && error.keyPattern?.periodStart) {
+      throw new ConflictError(`An invoice for ${periodLabel} already exists`);
+    }
+    throw error;
+  }
+}
+
+export async function updateDraftInvoice(
+  invoiceId: string,
+  updates: UpdateInvoiceParams
+): Promise<IInvoice> {
+  const invoice = await getInvoiceOrThrow(invoiceId);
+  if (invoice.status !== InvoiceStatus.DRAFT) {
+    throw new ConflictError('Only draft invoices can be edited');
+  }
+
+  const totals = computeTotals(
+    updates.lineItems?.length ? updates.lineItems : invoice.lineItems,
+    updates.gstRate ?? invoice.gstRate,
+    updates.interState ?? invoice.interState
+  );
+  Object.assign(invoice, totals);
+  if (updates.customerGstin !== undefined)
+    invoice.billTo.gstin = updates.customerGstin || undefined;
+  if (updates.notes !== undefined) invoice.notes = updates.notes;
+
+  await invoice.save();
+  return invoice;
+}
+
+/**
+ * Issue a draft: allocate the next number in the city's sequence for the
+ * current financial year and freeze the seller details. The number and the
+ * status change commit together, so a request that loses a race to issue the
+ * same draft leaves no gap in the sequence.
+ */
+export async function issueInvoice(
+  invoiceId: string,
+  issuedBy: string,
+  dueDate?: Date
+): Promise<IInvoice> {
+  return withTransaction(async () => {
+    const draft = await getInvoiceOrThrow(invoiceId);
+    if (draft.status !== InvoiceStatus.DRAFT) {
+      throw new ConflictError(`Invoice is already ${draft.status}`);
+    }
+
+    const issuedAt = new Date();
+    const fy = financialYear(issuedAt);
+    const seq = await Counter.next(`invoice:${draft.cityCode}:${fy}`);
+
+    const invoice = await Invoice.findOneAndUpdate(
+      { _id: invoiceId, status: InvoiceStatus.DRAFT },
+      {
+        $set: {
+          status: InvoiceStatus.ISSUED,
+          issuedAt,
+          invoiceNumber: `INV/${draft.cityCode}/${fy}/${String(seq).padStart(5, '0')}`,
+          issuedBy: new mongoose.Types.ObjectId(issuedBy),
+          dueDate:
+            dueDate ||
+            new Date(issuedAt.getTime() + envNumber('INVOICE_DUE_DAYS', 7) * 24 * 60 * 60 * 1000),
+          seller: getSeller(),
+        },
+      },
+      { new: true }
+    );
+    if (!invoice) {
+      // Throwing rolls back the counter increment
+      const existing = await getInvoiceOrThrow(invoiceId);
+      throw new ConflictError(`Invoice is already ${existing.status}`);
+    }
+
+    // The lead keeps the number of its first (conversion) invoice
+    await Lead.updateOne(
+      { _id: invoice.lead, invoiceId: { $in: [null, ''] } },
+      { $set: { invoiceId: invoice.invoiceNumber } }
+    );
+
+    return invoice;
+  });
+}
+
+/**
+ * Mark an issued invoice as paid. Paying a lead's conversion invoice (one not
+ * yet linked to a final class) also records the payment on the lead; paying a
+ * class invoice for the cycle starting on its renewal date renews the class.
+ * All of it runs in one transaction, and only the request that moves the
+ * invoice out of ISSUED records the payment.
+ */
+export async function markInvoicePaid(params: RecordInvoicePaymentParams): Promise<IInvoice> {
+  return withTransaction(async () => {
+    const issued = await getInvoiceOrThrow(params.invoiceId);
+    if (issued.status !== InvoiceStatus.ISSUED) {
+      throw new ConflictError(
+        issued.status === InvoiceStatus.DRAFT
+          ? 'Issue the invoice before recording payment'
+          : `Invoice is already ${issued.status}`
+      );
+    }
+    // Paying the invoice for the class's next cycle is its renewal. An inactive
+    // class is refused before the invoice is touched, so it stays issued.
+    const finalClass = issued.finalClass ? await FinalClass.findById(issued.finalClass) : null;
+    const renewal = finalClass?.monthRenewDate
+      ? isSameDay(issued.periodStart, finalClass.monthRenewDate)
+      : false;
+    if (renewal) assertRenewable(finalClass!);
+
+    const invoice = await Invoice.findOneAndUpdate(
+      { _id: params.invoiceId, status: InvoiceStatus.ISSUED },
+      {
+        $set: {
+          status: InvoiceStatus.PAID,
+          paidAt: params.paidAt || new Date(),
+          paymentMode: params.paymentMode,
+          paymentReference: params.paymentReference,
+          recordedBy: new mongoose.Types.ObjectId(params.recordedBy),
+        },
+      },
+      { new: true }
+    );
+    if (!invoice) {
+      const existing = await getInvoiceOrThrow(params.invoiceId);
+      throw new ConflictError(`Invoice is already ${existing.status}`);
+    }
+
+    if (!invoice.finalClass) {
+      await Lead.updateOne(
+        { _id: invoice.lead },
+        {
+          $set: {
+            paymentReceived: { received: true, amount: invoice.total },
+            ...(params.paymentMode ? { paymentMode: params.paymentMode } : {}),
+          },
+        }
+      );
+    }
+    if (renewal) {
+      await applyRenewalPayment(finalClass!, {
+        amount: invoice.total,
+        paymentMode: params.paymentMode,
+        paymentReference: params.paymentReference,
+        invoice: invoice._id as mongoose.Types.ObjectId,
+        paidAt: invoice.paidAt!,
+        recordedBy: invoice.recordedBy,
+      });
+    }
+    await addLeadActivity({
+      leadId: invoice.lead.toString(),
+      type: LeadActivityType.PAYMENT_RECORDED,
+      authorId: params.recordedBy,
+      content: `Invoice ${invoice.invoiceNumber} paid (${invoice.periodLabel})`,
+      payment: {
+        amount: invoice.total,
+        mode: params.paymentMode,
+        reference: params.paymentReference,
+      },
+      occurredAt: invoice.paidAt,
+    });
+
+    return invoice;
+  });
+}
+
+export async function voidInvoice(
+  invoiceId: string,
+  voidedBy: string,
+  reason: string
+): Promise<IInvoice> {
+  const invoice = await getInvoiceOrThrow(invoiceId);
+  if (invoice.status === InvoiceStatus.PAID) {
+    throw new ConflictError('Paid invoices cannot be voided');
+  }
+  if (invoice.status === InvoiceStatus.VOID) {
+    throw new ConflictError('Invoice is already void');
+  }
+
+  // Issued numbers stay on the voided invoice so the sequence has no gaps
+  invoice.status = InvoiceStatus.VOID;
+  invoice.voidedAt = new Date();
+  invoice.voidedBy = new mongoose.Types.ObjectId(voidedBy);
+  invoice.voidReason = reason;
+  await invoice.save();
+
+  if (invoice.invoiceNumber) {
+    await Lead.updateOne(
+      { _id: invoice.lead, invoiceId: invoice.invoiceNumber },
+      { $unset: { invoiceId: 1 } }
+    );
+  }
+  return invoice;
+}
+
+export async function getInvoice(invoiceId: string): Promise<IInvoice> {
+  const invoice = await Invoice.findById(invoiceId)
+    .populate('lead', 'parentsName studentName leadStatus isConverted')
+    .populate('finalClass', 'classId classStatus monthStartDate monthRenewDate');
+  if (!invoice) {
+    throw new NotFoundError('Invoice');
+  }
+  return invoice;
+}
+
+export async function listInvoices(filters: InvoiceListFilters, options: InvoiceListOptions = {}) {
+  const limit = Math.min(
+    Math.max(options.limit || DEFAULT_INVOICE_PAGE_SIZE, 1),
+    MAX_INVOICE_PAGE_SIZE
+  );
+  const page = Math.max(options.page || 1, 1);
+
+  const query: Record<string, any> = {};
+  if (filters.status) query.status = filters.status;
+  if (filters.cityCode) query.cityCode = filters.cityCode.toUpperCase();
+  if (filters.finalClassId) query.finalClass = new mongoose.Types.ObjectId(filters.finalClassId);
+  if (filters.issuedFrom || filters.issuedTo) {
+    query.issuedAt = {};
+    if (filters.issuedFrom) query.issuedAt.$gte = filters.issuedFrom;
+    if (filters.issuedTo) query.issuedAt.$lte = filters.issuedTo;
+  }
+
+  const leadConditions: Record<string, any>[] = [];
+  if (filters.leadId) leadConditions.push({ lead: new mongoose.Types.ObjectId(filters.leadId) });
+  if (options.scope && Object.keys(options.scope).length > 0) {
+    const visibleLeads = await Lead.distinct('_id', options.scope);
+    leadConditions.push({ lead: { $in: visibleLeads } });
+  }
+  if (leadConditions.length > 0) query.$and = leadConditions;
+
+  const [invoices, total] = await Promise.all([
+    Invoice.find(query)
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('lead', 'parentsName studentName')
+      .populate('finalClass', 'classId'),
+    Invoice.countDocuments(query),
+  ]);
+
+  return { invoices, count: invoices.length, total, page, totalPages: Math.ceil(total / limit) };
+}
+
+function formatAmount(value: number): string {
+  return value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function formatDate(value?: Date): string {
+  return value
+    ? new Date(value).toLocaleDateString('en-IN', {
+        day: '2-digit',
+        month: 'short',
+        year: 'numeric',
+      })
+    : '-';
+}
+
+function invoiceTitle(invoice: IInvoice): string {
+  if (invoice.status === InvoiceStatus.DRAFT) return 'DRAFT INVOICE';
+  return `TAX INVOICE ${invoice.invoiceNumber}${invoice.status === InvoiceStatus.VOID ? ' (VOID)' : ''}`;
+}
+
+function taxRows(invoice: IInvoice): Array<[string, number]> {
+  return invoice.interState
+    ? [[`IGST @ ${invoice.gstRate}%`, invoice.igst]]
+    : [
+        [`CGST @ ${invoice.gstRate / 2}%`, invoice.cgst],
+        [`SGST @ ${invoice.gstRate / 2}%`, invoice.sgst],
+      ];
+}
+
+export function renderInvoiceHtml(invoice: IInvoice): string {
+  const seller = invoice.seller || getSeller();
+  const rows = invoice.lineItems
+    .map(
+      (item) =>
+        `<tr><td>${escapeHtml(item.description)}</td><td class="num">${escapeHtml(item.quantity)}</td>` +
+        `<td class="num">${formatAmount(item.unitPrice)}</td><td class="num">${formatAmount(item.amount)}</td></tr>`
+    )
+    .join('\n');
+  const totals = [
+    ['Subtotal', invoice.subtotal] as [string, number],
+    ...taxRows(invoice),
+    [`Total (${invoice.currency})`, invoice.total] as [string, number],
+  ]
+    .map(
+      ([label, value]) =>
+        `<tr><td colspan="3" class="num">${escapeHtml(label)}</td><td class="num">${formatAmount(value)}</td></tr>`
+    )
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(invoiceTitle(invoice))}</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 13px; color: #222; margin: 32px; }
+  h1 { font-size: 18px; margin-bottom: 4px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th, td { border: 1px solid #ccc; padding: 6px 8px; text-align: left; }
+  .num { text-align: right; }
+  .parties { display: flex; justify-content: space-between; margin-top: 16px; }
+  .status { text-transform: uppercase; font-weight: bold; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(invoiceTitle(invoice))}</h1>
+<div>Status: <span class="status">${escapeHtml(invoice.status)}</span></div>
+<div>Issued: ${formatDate(invoice.issuedAt)} &middot; Due: ${formatDate(invoice.dueDate)}</div>
+<div>Billing period: ${escapeHtml(invoice.periodLabel)} (${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)})</div>
+<div class="parties">
+  <div><strong>From</strong><br>${escapeHtml(seller.name)}<br>${escapeHtml(seller.address)}${
+    seller.gstin ? `<br>GSTIN: ${escapeHtml(seller.gstin)}` : ''
+  }</div>
+  <div><strong>Bill to</strong><br>${escapeHtml(invoice.billTo.name)}${
+    invoice.billTo.studentName ? `<br>Student: ${escapeHtml(invoice.billTo.studentName)}` : ''
+  }<br>${escapeHtml(invoice.billTo.address)}${invoice.billTo.gstin ? `<br>GSTIN: ${escapeHtml(invoice.billTo.gstin)}` : ''}</div>
+</div>
+<table>
+<thead><tr><th>Description</th><th class="num">Qty</th><th class="num">Rate</th><th class="num">Amount</th></tr></thead>
+<tbody>
+${rows}
+${totals}
+</tbody>
+</table>
+${invoice.status === InvoiceStatus.PAID ? `<p>Paid on ${formatDate(invoice.paidAt)}${invoice.paymentMode ? ` via ${escapeHtml(invoice.paymentMode)}` : ''}${invoice.paymentReference ? ` (ref ${escapeHtml(invoice.paymentReference)})` : ''}</p>` : ''}
+${invoice.status === InvoiceStatus.VOID ? `<p>Voided on ${formatDate(invoice.voidedAt)}: ${escapeHtml(invoice.voidReason)}</p>` : ''}
+${invoice.notes ? `<p>${escapeHtml(invoice.notes)}</p>` : ''}
+</body>
+</html>
+`;
+}
+
+export function renderInvoicePdf(invoice: IInvoice): Buffer {
+  const seller = invoice.seller || getSeller();
+  const money = (value: number) => `Rs. ${formatAmount(value)}`;
+  const lines: PdfLine[] = [
+    { text: invoiceTitle(invoice), size: 16, bold: true },
+    { text: `Status: ${invoice.status.toUpperCase()}` },
+    { text: `Issued: ${formatDate(invoice.issuedAt)}    Due: ${formatDate(invoice.dueDate)}` },
+    {
+      text: `Billing period: ${invoice.periodLabel} (${formatDate(invoice.periodStart)} to ${formatDate(invoice.periodEnd)})`,
+    },
+    { text: 'From', bold: true, gap: 10 },
+    { text: seller.name },
+  ];
+  if (seller.address) lines.push({ text: seller.address });
+  if (seller.gstin) lines.push({ text: `GSTIN: ${seller.gstin}` });
+  lines.push({ text: 'Bill to', bold: true, gap: 10 }, { text: invoice.billTo.name });
+  if (invoice.billTo.studentName) lines.push({ text: `Student: ${invoice.billTo.studentName}` });
+  if (invoice.billTo.address) lines.push({ text: invoice.billTo.address });
+  if (invoice.billTo.gstin) lines.push({ text: `GSTIN: ${invoice.billTo.gstin}` });
+
+  lines.push({ text: 'Items', bold: true, gap: 10 });
+  invoice.lineItems.forEach((item) => {
+    lines.push({
+      text: `${item.description}  -  ${item.quantity} x ${money(item.unitPrice)} = ${money(item.amount)}`,
+    });
+  });
+  lines.push({ text: `Subtotal: ${money(invoice.subtotal)}`, gap: 10 });
+  taxRows(invoice).forEach(([label, value]) => lines.push({ text: `${label}: ${money(value)}` }));
+  lines.push({
+    text: `Total (${invoice.currency}): ${money(invoice.total)}`,
+    bold: true,
+    size: 12,
+  });
+
+  if (invoice.status === InvoiceStatus.PAID) {
+    lines.push({
+      text: `Paid on ${formatDate(invoice.paidAt)}${invoice.paymentMode ? ` via ${invoice.paymentMode}` : ''}${
+        invoice.paymentReference ? ` (ref ${invoice.paymentReference})` : ''
+      }`,
+      gap: 10,
+    });
+  }
+  if (invoice.status === InvoiceStatus.VOID) {
+    lines.push({
+      text: `Voided on ${formatDate(invoice.voidedAt)}: ${invoice.voidReason || ''}`,
+      gap: 10,
+    });
+  }
+  if (invoice.notes) lines.push({ text: invoice.notes, gap: 10 });
+
+  return renderTextPdf(lines);
+}
@@ -0,0 +1,124 @@
+import mongoose from 'mongoose';
+import Lead, { ILead } from '../models/Lead';
+import FinalClass from '../models/FinalClass';
+import Invoice from '../models/Invoice';
+import LeadDemo from '../models/LeadDemo';
+import LeadFollowUp from '../models/LeadFollowUp';
+import { IUser } from '../models/User';
+import { UserRole } from '../types/enums';
+import { LeadDuplicateMatch } from './leadService';
+import { escapeRegex } from '../utils/regex';
+
+export type LeadViewer = Pick<IUser, 'role' | 'managedCities' | 'profile'> & {
+  _id: unknown;
+};
+
+// Roles that work with leads at all; teachers and students never see them
+export const LEAD_STAFF_ROLES: UserRole[] = [
+  UserRole.ADMIN,
+  UserRole.MANAGER,
+  UserRole.COORDINATOR,
+];
+
+// Roles that call parents and so see full phone numbers on every lead they can
+// access. Others (managers) get masked numbers unless they own the lead.
+const CONTACT_ROLES: UserRole[] = [UserRole.ADMIN, UserRole.COORDINATOR];
+
+export function getManagedCities(viewer: LeadViewer): string[] {
+  const cities = (viewer.managedCities || []).map((c) => c.trim()).filter(Boolean);
+  if (cities.length > 0) return cities;
+  const home = viewer.profile?.address?.city?.trim();
+  return home ? [home] : [];
+}
+
+/**
+ * Query filter restricting leads to what the viewer may see: admins see all,
+ * managers the leads in their cities (plus any they own), coordinators only
+ * leads assigned to them. Returns null for roles with no lead access.
+ */
+export function getLeadAccessScope(viewer: LeadViewer): Record<string, any> | null {
+  const userId = new mongoose.Types.ObjectId(String(viewer._id));
+  switch (viewer.role) {
+    case UserRole.ADMIN:
+      return {};
+    case UserRole.MANAGER: {
+      const cities = getManagedCities(viewer).map((c) => new RegExp(`^${escapeRegex(c)}$`, 'i'));
+      if (cities.length === 0) return { leadAssignedTo: userId };
+      return { $or: [{ leadAssignedTo: userId }, { 'classLocation.city': { $in: cities } }] };
+    }
+    case UserRole.COORDINATOR:
+      return { leadAssignedTo: userId };
+    default:
+      return null;
+  }
+}
+
+export async function canAccessLead(viewer: LeadViewer, leadId: string): Promise<boolean> {
+  const scope = getLeadAccessScope(viewer);
+  if (!scope) return false;
+  if (!mongoose.Types.ObjectId.isValid(leadId)) return false;
+  const found = await Lead.exists({ $and: [{ _id: new mongoose.Types.ObjectId(leadId) }, scope] });
+  return Boolean(found);
+}
+
+export function canViewLeadContact(
+  viewer: LeadViewer,
+  lead: Pick<ILead, 'leadAssignedTo'>
+): boolean {
+  if (CONTACT_ROLES.includes(viewer.role)) return true;
+  return Boolean(lead.leadAssignedTo) && String(lead.leadAssignedTo) === String(viewer._id);
+}
+
+// "+91 98765 43210" -> "+** ***** **210"
+export function maskPhone(value?: string | null): string | undefined {
+  if (!value) return undefined;
+  return value.replace(/\d(?=(?:\D*\d){3})/g, '*');
+}
+
+/**
+ * Serialize a lead for the viewer, masking the parent's phone numbers when
+ * the viewer only needs a summary.
+ */
+export function presentLead(lead: ILead, viewer: LeadViewer): Record<string, any> {
+  const json: Record<string, any> = typeof lead.toJSON === 'function' ? lead.toJSON() : { ...lead };
+  if (canViewLeadContact(viewer, lead)) return json;
+
+  json.contactNumber = maskPhone(json.contactNumber);
+  if (json.alternateNumber) json.alternateNumber = maskPhone(json.alternateNumber);
+  delete json.normalizedPhones;
+  json.contactMasked = true;
+  return json;
+}
+
+// Duplicates can belong to anyone, so only admins see their numbers in full
+export function presentDuplicateMatches(
+  matches: LeadDuplicateMatch[],
+  viewer: LeadViewer
+): LeadDuplicateMatch[] {
+  if (viewer.role === UserRole.ADMIN) return matches;
+  return matches.map((m) => ({ ...m, contactNumber: maskPhone(m.contactNumber) || '' }));
+}
+
+export async function findLeadIdOfFollowUp(followUpId: string): Promise<string | null> {
+  if (!mongoose.Types.ObjectId.isValid(followUpId)) return null;
+  const followUp = await LeadFollowUp.findById(followUpId).select('lead');
+  return followUp ? String(followUp.lead) : null;
+}
+
+export async function findLeadIdOfDemo(demoId: string): Promise<string | null> {
+  if (!mongoose.Types.ObjectId.isValid(demoId)) return null;
+  const demo = await LeadDemo.findById(demoId).select('lead');
+  return demo ? String(demo.lead) : null;
+}
+
+export async function findLeadIdOfFinalClass(finalClassId?: string): Promise<string | null> {
+  if (!finalClassId || !mongoose.Types.ObjectId.isValid(finalClassId)) return null;
+  const finalClass = await FinalClass.findById(finalClassId).select('lead');
+  return finalClass ? String(finalClass.lead) : null;
+}
+
+export async function findLeadIdOfInvoice(invoiceId: string): Promise<string | null> {
+  if (!mongoose.Types.ObjectId.isValid(invoiceId)) return null;
+  const invoice = await Invoice.findById(invoiceId).select('lead');
+  return invoice ? String(invoice.lead) : null;
+}
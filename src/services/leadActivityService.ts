@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import Lead from '../models/Lead';
+import LeadActivity, {
+  ILeadActivity,
+  ILeadActivityCall,
+  ILeadActivityDemoFeedback,
+  ILeadActivityPayment,
+  LeadActivityType,
+} from '../models/LeadActivity';
+import { NotFoundError, ValidationError } from '../utils/errors';
+
+export interface AddLeadActivityParams {
+  leadId: string;
+  type: LeadActivityType;
+  authorId: string;
+  content?: string;
+  call?: ILeadActivityCall;
+  payment?: ILeadActivityPayment;
+  demoFeedback?: { rating?: number; tutor?: string };
+  occurredAt?: Date;
+}
+
+export interface LeadActivityFilters {
+  type?: LeadActivityType;
+  authorId?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface LeadActivityListResult {
+  activities: ILeadActivity[];
+  count: number;
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+// Which payload each activity type must carry
+function validateActivityPayload(params: AddLeadActivityParams): void {
+  const errors: Array<{ field: string; message: string }> = [];
+
+  switch (params.type) {
+    case LeadActivityType.CALL:
+      if (!params.call?.outcome)
+        errors.push({ field: 'call.outcome', message: 'Call outcome is required' });
+      break;
+    case LeadActivityType.PAYMENT_RECORDED:
+      if (params.payment?.amount == null) {
+        errors.push({ field: 'payment.amount', message: 'Payment amount is required' });
+      }
+      break;
+    case LeadActivityType.NOTE:
+    case LeadActivityType.WHATSAPP_MESSAGE:
+    case LeadActivityType.DEMO_FEEDBACK:
+      if (!params.content?.trim())
+        errors.push({ field: 'content', message: `content is required for ${params.type}` });
+      break;
+    default:
+      break;
+  }
+
+  if (errors.length > 0) {
+    throw new ValidationError('Validation failed', errors);
+  }
+}
+
+export async function addLeadActivity(params: AddLeadActivityParams): Promise<ILeadActivity> {
+  validateActivityPayload(params);
+
+  const lead = await Lead.findById(params.leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+
+  let demoFeedback: ILeadActivityDemoFeedback | undefined;
+  if (params.type === LeadActivityType.DEMO_FEEDBACK) {
+    const tutor = params.demoFeedback?.tutor || lead.demoTutor?.toString();
+    demoFeedback = {
+      rating: params.demoFeedback?.rating,
+      tutor: tutor ? new mongoose.Types.ObjectId(tutor) : undefined,
+    };
+  }
+
+  const activity = await LeadActivity.create({
+    lead: lead._id,
+    type: params.type,
+    author: new mongoose.Types.ObjectId(params.authorId),
+    content: params.content,
+    call: params.type === LeadActivityType.CALL ? params.call : undefined,
+    payment: params.type === LeadActivityType.PAYMENT_RECORDED ? params.payment : undefined,
+    demoFeedback,
+    occurredAt: params.occurredAt || new Date(),
+  });
+
+  await activity.populate('author', 'profile.firstName profile.lastName email role');
+  return activity;
+}
+
+export async function listLeadActivities(
+  leadId: string,
+  filters: LeadActivityFilters = {}
+): Promise<LeadActivityListResult> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+
+  const query: Record<string, any> = { lead: lead._id };
+  if (filters.type) query.type = filters.type;
+  if (filters.authorId) query.author = new mongoose.Types.ObjectId(filters.authorId);
+
+  const page = Math.max(filters.page || 1, 1);
+  const limit = Math.min(Math.max(filters.limit || 50, 1), 100);
+
+  const [activities, total] = await Promise.all([
+    LeadActivity.find(query)
+      .sort({ occurredAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('author', 'profile.firstName profile.lastName email role'),
+    LeadActivity.countDocuments(query),
+  ]);
+
+  return {
+    activities,
+    count: activities.length,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+  };
+}
@@ -0,0 +1,329 @@
+import mongoose from 'mongoose';
+import Lead, { ILead, LeadAssignmentMethod } from '../models/Lead';
+import LeadFollowUp, { FollowUpStatus } from '../models/LeadFollowUp';
+import SystemSettings from '../models/SystemSettings';
+import User, { IUser } from '../models/User';
+import { createNotification } from './notificationService';
+import { updateSystemSetting } from './adminService';
+import { ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { escapeRegex } from '../utils/regex';
+import {
+  NotificationCategory,
+  NotificationPriority,
+  NotificationType,
+  UserRole,
+} from '../types/enums';
+
+export enum LeadAssignmentRuleType {
+  CITY = 'city',
+  AREA = 'area',
+  SUBJECT = 'subject',
+}
+
+// How to choose between the coordinators a rule (or the fallback pool) allows
+export enum LeadAssignmentBalance {
+  ROUND_ROBIN = 'round_robin',
+  LOAD = 'load',
+}
+
+export interface LeadAssignmentRule {
+  type: LeadAssignmentRuleType;
+  values: string[];
+  // Empty for city rules means "coordinators whose profile city matches"
+  coordinators: string[];
+}
+
+export interface LeadAssignmentConfig {
+  enabled: boolean;
+  balanceBy: LeadAssignmentBalance;
+  // Evaluated in order; the first matching rule with an available coordinator wins
+  rules: LeadAssignmentRule[];
+}
+
+export interface LeadAssignmentDecision {
+  coordinatorId: string;
+  rule: string;
+}
+
+export interface ReassignLeadParams {
+  leadId: string;
+  assigneeId: string;
+  changedBy: string;
+  note?: string;
+}
+
+interface LeadAssignmentInput {
+  subjectsRequired?: string[];
+  classLocation?: ILead['classLocation'];
+}
+
+export const LEAD_ASSIGNMENT_SETTING_KEY = 'LEAD_ASSIGNMENT_RULES';
+
+export const DEFAULT_LEAD_ASSIGNMENT_CONFIG: LeadAssignmentConfig = {
+  enabled: true,
+  balanceBy: LeadAssignmentBalance.ROUND_ROBIN,
+  rules: [],
+};
+
+// Roles that can own a lead
+const LEAD_OWNER_ROLES: UserRole[] = [UserRole.COORDINATOR, UserRole.MANAGER];
+
+function normalize(value?: string): string {
+  return (value || '').trim().toLowerCase();
+}
+
+export async function getLeadAssignmentConfig(): Promise<LeadAssignmentConfig> {
+  const stored = await SystemSettings.getSetting(LEAD_ASSIGNMENT_SETTING_KEY, null);
+  if (!stored || typeof stored !== 'object') return DEFAULT_LEAD_ASSIGNMENT_CONFIG;
+  return {
+    enabled: stored.enabled ?? DEFAULT_LEAD_ASSIGNMENT_CONFIG.enabled,
+    balanceBy: stored.balanceBy ?? DEFAULT_LEAD_ASSIGNMENT_CONFIG.balanceBy,
+    rules: Array.isArray(stored.rules) ? stored.rules : [],
+  };
+}
+
+export async function updateLeadAssignmentConfig(
+  config: LeadAssignmentConfig,
+  updatedBy: string
+): Promise<LeadAssignmentConfig> {
+  const errors: Array<{ field: string; message: string }> = [];
+  const coordinatorIds = Array.from(new Set(config.rules.flatMap((r) => r.coordinators || [])));
+
+  if (coordinatorIds.length > 0) {
+    const found = await User.find({
+      _id: { $in: coordinatorIds.map((id) => new mongoose.Types.ObjectId(id)) },
+      role: { $in: LEAD_OWNER_ROLES },
+    }).select('_id');
+    const foundIds = new Set(found.map((u) => String(u._id)));
+    coordinatorIds
+      .filter((id) => !foundIds.has(id))
+      .forEach((id) =>
+        errors.push({ field: 'rules', message: `User ${id} is not a coordinator or manager` })
+      );
+  }
+  config.rules.forEach((rule, idx) => {
+    if (rule.type !== LeadAssignmentRuleType.CITY && (rule.coordinators || []).length === 0) {
+      errors.push({
+        field: `rules[${idx}].coordinators`,
+        message: `${rule.type} rules need at least one coordinator`,
+      });
+    }
+  });
+  if (errors.length > 0) {
+    throw new ValidationError('Validation failed', errors);
+  }
+
+  const value: LeadAssignmentConfig = {
+    enabled: config.enabled,
+    balanceBy: config.balanceBy,
+    rules: config.rules.map((rule) => ({
+      type: rule.type,
+      values: rule.values.map((v) => v.trim()).filter(Boolean),
+      coordinators: rule.coordinators || [],
+    })),
+  };
+  await updateSystemSetting(LEAD_ASSIGNMENT_SETTING_KEY, value, updatedBy);
+  return value;
+}
+
+function ruleMatches(rule: LeadAssignmentRule, lead: LeadAssignmentInput): string | null {
+  const values = rule.values.map(normalize);
+  switch (rule.type) {
+    case LeadAssignmentRuleType.CITY: {
+      const city = normalize(lead.classLocation?.city);
+      if (city && values.includes(city)) return city;
+      // Older leads only have a free-text address
+      const address = normalize(lead.classLocation?.addressText);
+      return values.find((v) => v && address.includes(v)) || null;
+    }
+    case LeadAssignmentRuleType.AREA: {
+      const area = normalize(lead.classLocation?.area);
+      if (area && values.includes(area)) return area;
+      const address = normalize(lead.classLocation?.addressText);
+      return values.find((v) => v && address.includes(v)) || null;
+    }
+    case LeadAssignmentRuleType.SUBJECT: {
+      const subjects = (lead.subjectsRequired || []).map(normalize);
+      return values.find((v) => subjects.includes(v)) || null;
+    }
+    default:
+      return null;
+  }
+}
+
+async function getActiveOwnerIds(filter: Record<string, any>): Promise<string[]> {
+  const users = await User.find({ isActive: true, ...filter })
+    .select('_id')
+    .sort({ _id: 1 });
+  return users.map((u) => String(u._id));
+}
+
+/**
+ * Order a pool so the first entry is the next owner: coordinators who have gone
+ * longest without a new lead come first (round robin), or the fewest open
+ * leads when balancing by load.
+ */
+async function rankCandidates(pool: string[], balanceBy: LeadAssignmentBalance): Promise<string[]> {
+  const ids = pool.map((id) => new mongoose.Types.ObjectId(id));
+
+  const lastAssigned = await Lead.aggregate<{ _id: mongoose.Types.ObjectId; last: Date }>([
+    { $match: { leadAssignedTo: { $in: ids } } },
+    { $group: { _id: '$leadAssignedTo', last: { $max: '$createdAt' } } },
+  ]);
+  const lastById = new Map(lastAssigned.map((r) => [String(r._id), new Date(r.last).getTime()]));
+
+  let openById = new Map<string, number>();
+  if (balanceBy === LeadAssignmentBalance.LOAD) {
+    const open = await Lead.aggregate<{ _id: mongoose.Types.ObjectId; count: number }>([
+      {
+        $match: {
+          leadAssignedTo: { $in: ids },
+          isConverted: { $ne: true },
+          mergedInto: { $exists: false },
+        },
+      },
+      { $group: { _id: '$leadAssignedTo', count: { $sum: 1 } } },
+    ]);
+    openById = new Map(open.map((r) => [String(r._id), r.count]));
+  }
+
+  return [...pool].sort((a, b) => {
+    if (balanceBy === LeadAssignmentBalance.LOAD) {
+      const diff = (openById.get(a) || 0) - (openById.get(b) || 0);
+      if (diff !== 0) return diff;
+    }
+    return (lastById.get(a) || 0) - (lastById.get(b) || 0);
+  });
+}
+
+/**
+ * Pick an owner for a new lead using the configured rules. Returns null when
+ * auto-assignment is disabled or no active coordinator is available.
+ */
+export async function pickLeadAssignee(
+  lead: LeadAssignmentInput
+): Promise<LeadAssignmentDecision | null> {
+  const config = await getLeadAssignmentConfig();
+  if (!config.enabled) return null;
+
+  for (const rule of config.rules) {
+    const matched = ruleMatches(rule, lead);
+    if (!matched) continue;
+
+    const pool =
+      rule.coordinators.length > 0
+        ? await getActiveOwnerIds({
+            _id: { $in: rule.coordinators.map((id) => new mongoose.Types.ObjectId(id)) },
+            role: { $in: LEAD_OWNER_ROLES },
+          })
+        : await getActiveOwnerIds({
+            role: UserRole.COORDINATOR,
+            'profile.address.city': {
+              $regex: `^${escapeRegex(matched)}$`,
+              $options: 'i',
+            },
+          });
+    if (pool.length === 0) continue;
+
+    const [coordinatorId] = await rankCandidates(pool, config.balanceBy);
+    return { coordinatorId, rule: `${rule.type}:${matched}/${config.balanceBy}` };
+  }
+
+  const pool = await getActiveOwnerIds({ role: UserRole.COORDINATOR });
+  if (pool.length === 0) return null;
+  const [coordinatorId] = await rankCandidates(pool, config.balanceBy);
+  return { coordinatorId, rule: config.balanceBy };
+}
+
+export async function notifyLeadAssignee(lead: ILead, note?: string): Promise<void> {
+  if (!lead.leadAssignedTo) return;
+  const leadId = String(lead._id);
+  try {
+    await createNotification({
+      userId: lead.leadAssignedTo.toString(),
+      type: NotificationType.IN_APP,
+      category: NotificationCategory.LEAD_ASSIGNMENT,
+      priority: NotificationPriority.MEDIUM,
+      title: 'New lead assigned to you',
+      message: `${lead.studentName} (parent: ${lead.parentsName}, ${lead.contactNumber})${
+        note ? ` — ${note}` : ''
+      }`,
+      metadata: { leadId, actionUrl: `/leads/${leadId}` },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to notify assignee of lead ${leadId}:`, error);
+  }
+}
+
+// A user leads can be handed to by hand: an active coordinator or manager
+export async function findLeadOwnerOrThrow(userId: string): Promise<IUser> {
+  const owner = mongoose.Types.ObjectId.isValid(userId) ? await User.findById(userId) : null;
+  if (!owner || !LEAD_OWNER_ROLES.includes(owner.role)) {
+    throw new NotFoundError('Coordinator');
+  }
+  if (!owner.isActive) {
+    throw new ConflictError('Coordinator account is not active');
+  }
+  return owner;
+}
+
+/**
+ * Manually hand a lead to another coordinator. Pending follow-ups owned by the
+ * previous owner move with the lead.
+ */
+export async function reassignLead(params: ReassignLeadParams): Promise<ILead> {
+  const lead = await Lead.findById(params.leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  if (lead.mergedInto) {
+    throw new ConflictError('Lead has been merged into another lead');
+  }
+
+  const assignee = await findLeadOwnerOrThrow(params.assigneeId);
+
+  const previous = lead.leadAssignedTo?.toString();
+  if (previous === params.assigneeId) {
+    throw new ConflictError('Lead is already assigned to this user');
+  }
+
+  lead.leadAssignedTo = assignee._id as mongoose.Types.ObjectId;
+  lead.assignmentHistory.push({
+    from: previous ? new mongoose.Types.ObjectId(previous) : undefined,
+    to: assignee._id as mongoose.Types.ObjectId,
+    method: LeadAssignmentMethod.MANUAL,
+    changedBy: new mongoose.Types.ObjectId(params.changedBy),
+    changedAt: new Date(),
+    note: params.note,
+  });
+  await lead.save();
+
+  if (previous) {
+    await LeadFollowUp.updateMany(
+      {
+        lead: lead._id,
+        status: FollowUpStatus.PENDING,
+        assignedTo: new mongoose.Types.ObjectId(previous),
+      },
+      { $set: { assignedTo: assignee._id } }
+    );
+  }
+  await notifyLeadAssignee(lead, params.note);
+
+  return lead;
+}
+
+export async function getLeadAssignmentHistory(
+  leadId: string
+): Promise<ILead['assignmentHistory']> {
+  const lead = await Lead.findById(leadId)
+    .select('assignmentHistory leadAssignedTo')
+    .populate('assignmentHistory.from', 'profile.firstName profile.lastName email role')
+    .populate('assignmentHistory.to', 'profile.firstName profile.lastName email role')
+    .populate('assignmentHistory.changedBy', 'profile.firstName profile.lastName email role');
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  return lead.assignmentHistory;
+}
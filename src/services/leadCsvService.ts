@@ -0,0 +1,271 @@
+import { validationResult } from 'express-validator';
+import Lead, { ILead } from '../models/Lead';
+import { createLeadValidation } from '../validators/leadValidator';
+import { AuthorizationError, BadRequestError } from '../utils/errors';
+import { parseCsv, toCsvLine } from '../utils/csv';
+import { normalizePhones } from '../utils/phone';
+import { UserRole } from '../types/enums';
+import {
+  buildLeadQuery,
+  createLead,
+  findDuplicateLeads,
+  LeadDuplicateMatch,
+  LeadListFilters,
+} from './leadService';
+import { canViewLeadContact, getLeadAccessScope, LeadViewer, maskPhone } from './leadAccessService';
+
+interface LeadCsvColumn {
+  header: string;
+  path: string;
+  // Exported only (server-owned, ignored on import)
+  exportOnly?: boolean;
+  // Multi-value cell, separated by ';' or '|'
+  list?: boolean;
+}
+
+export interface LeadImportRowResult {
+  row: number; // 1-based line number in the file (header is line 1)
+  status: 'valid' | 'invalid' | 'created' | 'failed';
+  errors?: Array<{ field: string; message: string }>;
+  duplicates?: LeadDuplicateMatch[];
+  duplicateInFile?: number; // earlier row sharing a phone number
+  leadId?: string;
+}
+
+export interface LeadImportResult {
+  dryRun: boolean;
+  totalRows: number;
+  valid: number;
+  invalid: number;
+  created: number;
+  failed: number;
+  ignoredColumns: string[];
+  rows: LeadImportRowResult[];
+}
+
+export const MAX_LEAD_IMPORT_ROWS = 1000;
+
+// Column order is also the export order; headers match the create-lead body
+export const LEAD_CSV_COLUMNS: LeadCsvColumn[] = [
+  { header: 'leadId', path: '_id', exportOnly: true },
+  { header: 'parentsName', path: 'parentsName' },
+  { header: 'studentName', path: 'studentName' },
+  { header: 'contactNumber', path: 'contactNumber' },
+  { header: 'alternateNumber', path: 'alternateNumber' },
+  { header: 'classLevel', path: 'classAndBoard.classLevel' },
+  { header: 'board', path: 'classAndBoard.board' },
+  { header: 'subjectsRequired', path: 'subjectsRequired', list: true },
+  { header: 'numClassesPerMonth', path: 'numClassesPerMonth' },
+  { header: 'classDurationMinutes', path: 'classDurationMinutes' },
+  { header: 'preferredTuitionMode', path: 'preferredTuitionMode' },
+  { header: 'addressText', path: 'classLocation.addressText' },
+  { header: 'googleMapLink', path: 'classLocation.googleMapLink' },
+  { header: 'city', path: 'classLocation.city' },
+  { header: 'area', path: 'classLocation.area' },
+  { header: 'pinCode', path: 'classLocation.pinCode' },
+  { header: 'preferredTimeSlots', path: 'preferredTimeSlots', list: true },
+  { header: 'preferredTutor', path: 'preferredTutor' },
+  { header: 'fees', path: 'fees' },
+  { header: 'parentsCustomizedDemands', path: 'parentsCustomizedDemands' },
+  { header: 'leadSource', path: 'leadSource' },
+  { header: 'leadStatus', path: 'leadStatus' },
+  { header: 'paymentReceived', path: 'paymentReceived.received' },
+  { header: 'paymentAmount', path: 'paymentReceived.amount' },
+  { header: 'paymentMode', path: 'paymentMode' },
+  { header: 'mentorNote', path: 'mentorNote' },
+  { header: 'leadAssignedTo', path: 'leadAssignedTo' },
+  { header: 'isConverted', path: 'isConverted', exportOnly: true },
+  { header: 'createdAt', path: 'createdAt', exportOnly: true },
+];
+
+const REQUIRED_IMPORT_HEADERS = [
+  'parentsName',
+  'studentName',
+  'contactNumber',
+  'classLevel',
+  'board',
+];
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let node = target;
+  keys.slice(0, -1).forEach((key) => {
+    if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+    node = node[key];
+  });
+  node[keys[keys.length - 1]] = value;
+}
+
+function getPath(source: any, path: string): unknown {
+  return path.split('.').reduce((node, key) => (node == null ? undefined : node[key]), source);
+}
+
+function rowToLeadData(headers: string[], cells: string[]): Record<string, any> {
+  const data: Record<string, any> = {};
+  headers.forEach((header, idx) => {
+    const column = LEAD_CSV_COLUMNS.find((c) => !c.exportOnly && c.header === header);
+    const raw = (cells[idx] ?? '').trim();
+    if (!column || raw === '') return;
+    const value = column.list
+      ? raw
+          .split(/[;|]/)
+          .map((s) => s.trim())
+          .filter(Boolean)
+      : raw;
+    setPath(data, column.path, value);
+  });
+
+  // Spreadsheets of fresh enquiries rarely carry payment info
+  if (getPath(data, 'paymentReceived.received') === undefined) {
+    setPath(data, 'paymentReceived.received', 'false');
+  }
+  return data;
+}
+
+/**
+ * Run the create-lead validation chains against a single row, exactly as the
+ * POST /leads route would. Returns the sanitized body alongside any errors.
+ */
+async function validateLeadRow(
+  data: Record<string, any>
+): Promise<{ body: Record<string, any>; errors: Array<{ field: string; message: string }> }> {
+  const req: Record<string, any> = { body: data };
+  for (const chain of createLeadValidation) {
+    await chain.run(req);
+  }
+  const errors = validationResult(req)
+    .array()
+    .map((err: any) => ({ field: err.path ?? err.param, message: err.msg }));
+  return { body: req.body, errors };
+}
+
+/**
+ * Import leads from CSV. With dryRun every row is validated and checked for
+ * duplicates but nothing is written; otherwise valid rows are created (invalid
+ * rows are reported and skipped).
+ */
+export async function importLeadsFromCsv(params: {
+  csv: string;
+  dryRun: boolean;
+  importedBy: string;
+  importerRole?: UserRole;
+}): Promise<LeadImportResult> {
+  let rows: string[][];
+  try {
+    rows = parseCsv(params.csv);
+  } catch (error) {
+    throw new BadRequestError((error as Error).message);
+  }
+  if (rows.length < 2) {
+    throw new BadRequestError('CSV must contain a header row and at least one lead');
+  }
+
+  const headers = rows[0].map((h) => h.trim());
+  const missing = REQUIRED_IMPORT_HEADERS.filter((h) => !headers.includes(h));
+  if (missing.length > 0) {
+    throw new BadRequestError(`Missing required CSV columns: ${missing.join(', ')}`);
+  }
+  const dataRows = rows.slice(1);
+  if (dataRows.length > MAX_LEAD_IMPORT_ROWS) {
+    throw new BadRequestError(
+      `CSV has ${dataRows.length} rows; at most ${MAX_LEAD_IMPORT_ROWS} can be imported at once`
+    );
+  }
+
+  const importable = LEAD_CSV_COLUMNS.filter((c) => !c.exportOnly).map((c) => c.header);
+  const result: LeadImportResult = {
+    dryRun: params.dryRun,
+    totalRows: dataRows.length,
+    valid: 0,
+    invalid: 0,
+    created: 0,
+    failed: 0,
+    ignoredColumns: headers.filter((h) => h && !importable.includes(h)),
+    rows: [],
+  };
+
+  const seenPhones = new Map<string, number>();
+
+  for (let i = 0; i < dataRows.length; i++) {
+    const rowNumber = i + 2;
+    const { body, errors } = await validateLeadRow(rowToLeadData(headers, dataRows[i]));
+    const rowResult: LeadImportRowResult = { row: rowNumber, status: 'valid' };
+
+    if (errors.length > 0) {
+      rowResult.status = 'invalid';
+      rowResult.errors = errors;
+      result.invalid++;
+      result.rows.push(rowResult);
+      continue;
+    }
+    result.valid++;
+
+    const phones = normalizePhones(body.contactNumber, body.alternateNumber);
+    const earlierRow = phones.map((p) => seenPhones.get(p)).find((r) => r !== undefined);
+    if (earlierRow !== undefined) rowResult.duplicateInFile = earlierRow;
+    phones.forEach((p) => {
+      if (!seenPhones.has(p)) seenPhones.set(p, rowNumber);
+    });
+
+    if (params.dryRun) {
+      const duplicates = await findDuplicateLeads(body);
+      if (duplicates.length > 0) rowResult.duplicates = duplicates;
+      result.rows.push(rowResult);
+      continue;
+    }
+
+    try {
+      const { lead, duplicates } = await createLead({
+        data: body,
+        createdBy: params.importedBy,
+        creatorRole: params.importerRole,
+      });
+      rowResult.status = 'created';
+      rowResult.leadId = String(lead._id);
+      if (duplicates.length > 0) rowResult.duplicates = duplicates;
+      result.created++;
+    } catch (error: any) {
+      rowResult.status = 'failed';
+      rowResult.errors = error?.errors?.length
+        ? error.errors
+        : [{ field: 'row', message: error?.message || 'Failed to create lead' }];
+      result.failed++;
+    }
+    result.rows.push(rowResult);
+  }
+
+  return result;
+}
+
+function leadToCsvLine(lead: ILead, maskContact: boolean): string {
+  const plain = lead.toObject();
+  if (maskContact) {
+    plain.contactNumber = maskPhone(plain.contactNumber);
+    plain.alternateNumber = maskPhone(plain.alternateNumber);
+  }
+  return toCsvLine(
+    LEAD_CSV_COLUMNS.map((column) => {
+      const value = getPath(plain, column.path);
+      return Array.isArray(value) ? value.join(';') : value;
+    })
+  );
+}
+
+/**
+ * Stream the filtered lead list as CSV lines (header first), newest first.
+ * Uses a cursor so large exports are not buffered in memory.
+ */
+export async function* generateLeadsCsv(
+  filters: LeadListFilters,
+  viewer: LeadViewer
+): AsyncGenerator<string> {
+  const scope = getLeadAccessScope(viewer);
+  if (!scope) throw new AuthorizationError('Access denied. Insufficient permissions.');
+
+  yield toCsvLine(LEAD_CSV_COLUMNS.map((c) => c.header));
+
+  const cursor = Lead.find(buildLeadQuery(filters, scope)).sort({ createdAt: -1, _id: -1 }).cursor();
+  for await (const lead of cursor) {
+    yield leadToCsvLine(lead as ILead, !canViewLeadContact(viewer, lead as ILead));
+  }
+}
@@ -0,0 +1,381 @@
+import mongoose from 'mongoose';
+import Lead, { ILead, LeadStatus, TuitionMode } from '../models/Lead';
+import LeadDemo, { DemoOutcome, DemoStatus, ILeadDemo } from '../models/LeadDemo';
+import { LeadActivityType } from '../models/LeadActivity';
+import Class from '../models/Class';
+import Schedule from '../models/Schedule';
+import User from '../models/User';
+import { canTransitionLeadStatus, changeLeadStatus } from './leadService';
+import { addLeadActivity } from './leadActivityService';
+import { createNotification } from './notificationService';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import {
+  ClassStatus,
+  DayOfWeek,
+  NotificationCategory,
+  NotificationPriority,
+  NotificationType,
+  UserRole,
+} from '../types/enums';
+
+export interface ScheduleDemoParams {
+  leadId: string;
+  tutorId: string;
+  scheduledAt: Date;
+  durationMinutes?: number;
+  mode?: TuitionMode;
+  notes?: string;
+  scheduledBy: string;
+}
+
+export interface RecordDemoOutcomeParams {
+  demoId: string;
+  outcome: DemoOutcome;
+  parentFeedback?: string;
+  parentRating?: number;
+  recordedBy: string;
+}
+
+export interface CancelDemoParams {
+  demoId: string;
+  reason?: string;
+  cancelledBy: string;
+}
+
+export interface TutorConflict {
+  type: 'demo' | 'class_session' | 'weekly_schedule';
+  id: string;
+  startsAt?: Date;
+  endsAt?: Date;
+  description: string;
+}
+
+export const DEFAULT_DEMO_DURATION_MINUTES = 60;
+
+// Lead status each outcome moves the lead to
+export const DEMO_OUTCOME_LEAD_STATUS: Record<DemoOutcome, LeadStatus> = {
+  [DemoOutcome.APPROVED_BY_PARENT]: LeadStatus.DEMO_APPROVED_BY_PARENT,
+  [DemoOutcome.REJECTED_BY_PARENT]: LeadStatus.DEMO_REJECTED_BY_PARENT,
+  [DemoOutcome.TUTOR_NOT_FOUND]: LeadStatus.TUTOR_NOT_FOUND_FOR_DEMO,
+};
+
+const DAYS_BY_INDEX: DayOfWeek[] = [
+  DayOfWeek.SUNDAY,
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+  DayOfWeek.SATURDAY,
+];
+
+function toHHMM(date: Date): string {
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Everything already on the tutor's calendar that overlaps [start, end):
+ * other scheduled demos, class sessions and recurring weekly schedules.
+ */
+export async function findTutorConflicts(
+  tutorId: string,
+  start: Date,
+  end: Date,
+  excludeDemoId?: string
+): Promise<TutorConflict[]> {
+  const tutor = new mongoose.Types.ObjectId(tutorId);
+  const conflicts: TutorConflict[] = [];
+
+  const demoQuery: Record<string, any> = {
+    tutor,
+    status: DemoStatus.SCHEDULED,
+    // demos are at most 4h long, so only look a little before the slot
+    scheduledAt: { $lt: end, $gte: new Date(start.getTime() - 4 * 60 * 60 * 1000) },
+  };
+  if (excludeDemoId) demoQuery._id = { $ne: new mongoose.Types.ObjectId(excludeDemoId) };
+  const demos = await LeadDemo.find(demoQuery);
+  demos
+    .filter((demo) => demo.endsAt > start)
+    .forEach((demo) =>
+      conflicts.push({
+        type: 'demo',
+        id: String(demo._id),
+        startsAt: demo.scheduledAt,
+        endsAt: demo.endsAt,
+        description: `Demo for lead ${String(demo.lead)}`,
+      })
+    );
+
+  const sessions = await Class.find({
+    teacher: tutor,
+    status: { $in: [ClassStatus.SCHEDULED, ClassStatus.IN_PROGRESS] },
+    startTime: { $lt: end },
+    endTime: { $gt: start },
+  });
+  sessions.forEach((session) =>
+    conflicts.push({
+      type: 'class_session',
+      id: String(session._id),
+      startsAt: session.startTime,
+      endsAt: session.endTime,
+      description: `Class session "${session.title}"`,
+    })
+  );
+
+  // Weekly schedules are wall-clock times; only same-day slots are compared
+  if (start.toDateString() === new Date(end.getTime() - 1).toDateString()) {
+    const weekly = await Schedule.checkTeacherConflict(
+      tutorId,
+      DAYS_BY_INDEX[start.getDay()],
+      toHHMM(start),
+      toHHMM(end)
+    );
+    const activeOnDate =
+      weekly &&
+      weekly.effectiveFrom <= start &&
+      (!weekly.effectiveTo || weekly.effectiveTo >= start);
+    if (weekly && activeOnDate) {
+      conflicts.push({
+        type: 'weekly_schedule',
+        id: String(weekly._id),
+        description: `Weekly class on ${weekly.dayOfWeek} ${weekly.startTime}-${weekly.endTime}`,
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+async function notifyDemoParticipants(
+  lead: ILead,
+  demo: ILeadDemo,
+  title: string,
+  message: string,
+  actorId: string
+): Promise<void> {
+  const leadId = String(lead._id);
+  const recipients = new Set<string>([String(demo.tutor)]);
+  if (lead.leadAssignedTo) recipients.add(lead.leadAssignedTo.toString());
+  recipients.delete(actorId);
+
+  for (const userId of recipients) {
+    try {
+      await createNotification({
+        userId,
+        type: NotificationType.IN_APP,
+        category: NotificationCategory.LEAD_DEMO,
+        priority: NotificationPriority.HIGH,
+        title,
+        message,
+        metadata: { leadId, actionUrl: `/leads/${leadId}` },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to send demo notification for lead ${leadId}:`, error);
+    }
+  }
+}
+
+function describeDemo(lead: ILead, demo: ILeadDemo): string {
+  return `${lead.studentName} (${lead.classAndBoard.classLevel} ${lead.classAndBoard.board}) on ${demo.scheduledAt.toLocaleString()}${
+    demo.mode ? `, ${demo.mode}` : ''
+  }`;
+}
+
+/**
+ * Book a demo slot with a tutor. Fails with 409 when the tutor is busy, the
+ * lead already has a scheduled demo, or the lead cannot move to DEMO SCHEDULE.
+ */
+export async function scheduleDemo(params: ScheduleDemoParams): Promise<ILeadDemo> {
+  const lead = await Lead.findById(params.leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  if (lead.mergedInto) {
+    throw new ConflictError('Lead has been merged into another lead');
+  }
+  if (lead.isConverted) {
+    throw new ConflictError('Lead is already converted');
+  }
+  if (
+    lead.leadStatus !== LeadStatus.DEMO_SCHEDULE &&
+    !canTransitionLeadStatus(lead.leadStatus, LeadStatus.DEMO_SCHEDULE)
+  ) {
+    throw new ConflictError(`Cannot schedule a demo for a lead in status "${lead.leadStatus}"`);
+  }
+  if (params.scheduledAt.getTime() <= Date.now()) {
+    throw new BadRequestError('scheduledAt must be in the future');
+  }
+
+  const tutor = await User.findById(params.tutorId);
+  if (!tutor || tutor.role !== UserRole.TEACHER) {
+    throw new NotFoundError('Tutor');
+  }
+  if (!tutor.isActive) {
+    throw new ConflictError('Tutor account is not active');
+  }
+
+  const existing = await LeadDemo.exists({ lead: lead._id, status: DemoStatus.SCHEDULED });
+  if (existing) {
+    throw new ConflictError('Lead already has a scheduled demo; cancel it before booking another');
+  }
+
+  const durationMinutes = params.durationMinutes || DEFAULT_DEMO_DURATION_MINUTES;
+  const endsAt = new Date(params.scheduledAt.getTime() + durationMinutes * 60 * 1000);
+  const conflicts = await findTutorConflicts(params.tutorId, params.scheduledAt, endsAt);
+  if (conflicts.length > 0) {
+    throw new ConflictError(
+      `Tutor is not available: ${conflicts.map((c) => c.description).join('; ')}`
+    );
+  }
+
+  if (lead.leadStatus !== LeadStatus.DEMO_SCHEDULE) {
+    await changeLeadStatus({
+      leadId: params.leadId,
+      status: LeadStatus.DEMO_SCHEDULE,
+      changedBy: params.scheduledBy,
+      note: `Demo booked for ${params.scheduledAt.toISOString()}`,
+    });
+  }
+
+  const demo = await LeadDemo.create({
+    lead: lead._id,
+    tutor: tutor._id,
+    scheduledAt: params.scheduledAt,
+    durationMinutes,
+    mode: params.mode || lead.preferredTuitionMode,
+    notes: params.notes,
+    scheduledBy: new mongoose.Types.ObjectId(params.scheduledBy),
+  });
+  await Lead.updateOne(
+    { _id: lead._id },
+    { $set: { demoTutor: tutor._id, demoAt: params.scheduledAt } }
+  );
+
+  await notifyDemoParticipants(
+    lead,
+    demo,
+    'Demo class scheduled',
+    `Demo for ${describeDemo(lead, demo)}`,
+    params.scheduledBy
+  );
+
+  return demo;
+}
+
+/**
+ * Close a demo with its outcome and parent feedback, and move the lead to the
+ * matching status (approved / rejected / tutor not found).
+ */
+export async function recordDemoOutcome(params: RecordDemoOutcomeParams): Promise<ILeadDemo> {
+  const demo = await LeadDemo.findById(params.demoId);
+  if (!demo) {
+    throw new NotFoundError('Demo');
+  }
+  if (demo.status !== DemoStatus.SCHEDULED) {
+    throw new ConflictError(`Demo is already ${demo.status}`);
+  }
+
+  const parentFeedback = params.parentFeedback?.trim();
+  if (params.outcome !== DemoOutcome.TUTOR_NOT_FOUND && demo.scheduledAt.getTime() > Date.now()) {
+    throw new BadRequestError('The parent can only respond after the demo has taken place');
+  }
+  if (params.outcome === DemoOutcome.REJECTED_BY_PARENT && !parentFeedback) {
+    throw new ValidationError('Validation failed', [
+      { field: 'parentFeedback', message: 'Parent feedback is required when the demo is rejected' },
+    ]);
+  }
+
+  const lead = await changeLeadStatus({
+    leadId: String(demo.lead),
+    status: DEMO_OUTCOME_LEAD_STATUS[params.outcome],
+    changedBy: params.recordedBy,
+    note: parentFeedback || `Demo outcome: ${params.outcome}`,
+  });
+
+  demo.status = DemoStatus.COMPLETED;
+  demo.outcome = params.outcome;
+  demo.parentFeedback = parentFeedback;
+  demo.parentRating = params.parentRating;
+  demo.completedAt = new Date();
+  demo.completedBy = new mongoose.Types.ObjectId(params.recordedBy);
+  await demo.save();
+
+  if (parentFeedback || params.parentRating) {
+    await addLeadActivity({
+      leadId: String(lead._id),
+      type: LeadActivityType.DEMO_FEEDBACK,
+      authorId: params.recordedBy,
+      content: parentFeedback || `Demo outcome: ${params.outcome}`,
+      demoFeedback: { rating: params.parentRating, tutor: String(demo.tutor) },
+    });
+  }
+
+  await notifyDemoParticipants(
+    lead,
+    demo,
+    'Demo outcome recorded',
+    `Demo for ${describeDemo(lead, demo)}: ${lead.leadStatus}`,
+    params.recordedBy
+  );
+
+  return demo;
+}
+
+export async function cancelDemo(params: CancelDemoParams): Promise<ILeadDemo> {
+  const demo = await LeadDemo.findById(params.demoId);
+  if (!demo) {
+    throw new NotFoundError('Demo');
+  }
+  if (demo.status !== DemoStatus.SCHEDULED) {
+    throw new ConflictError(`Demo is already ${demo.status}`);
+  }
+
+  demo.status = DemoStatus.CANCELLED;
+  demo.cancelledAt = new Date();
+  demo.cancelledBy = new mongoose.Types.ObjectId(params.cancelledBy);
+  demo.cancelReason = params.reason;
+  await demo.save();
+
+  // Only clear the lead's demo fields if they still point at this booking
+  await Lead.updateOne(
+    { _id: demo.lead, demoTutor: demo.tutor, demoAt: demo.scheduledAt },
+    { $unset: { demoTutor: 1, demoAt: 1 } }
+  );
+
+  const lead = await Lead.findById(demo.lead);
+  if (lead) {
+    await notifyDemoParticipants(
+      lead,
+      demo,
+      'Demo class cancelled',
+      `Demo for ${describeDemo(lead, demo)} was cancelled${params.reason ? `: ${params.reason}` : ''}`,
+      params.cancelledBy
+    );
+  }
+
+  return demo;
+}
+
+export async function listLeadDemos(leadId: string): Promise<ILeadDemo[]> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  return LeadDemo.find({ lead: lead._id })
+    .sort({ scheduledAt: -1 })
+    .populate('tutor', 'profile.firstName profile.lastName email');
+}
+
+export async function getTutorUpcomingDemos(tutorId: string): Promise<ILeadDemo[]> {
+  return LeadDemo.find({
+    tutor: new mongoose.Types.ObjectId(tutorId),
+    status: DemoStatus.SCHEDULED,
+    scheduledAt: { $gte: new Date(Date.now() - 4 * 60 * 60 * 1000) },
+  })
+    .sort({ scheduledAt: 1 })
+    .populate(
+      'lead',
+      'studentName parentsName classAndBoard subjectsRequired classLocation preferredTuitionMode'
+    );
+}
@@ -0,0 +1,221 @@
+import mongoose from 'mongoose';
+import Lead, { ILead, LeadStatus } from '../models/Lead';
+import LeadFollowUp, {
+  FollowUpOutcome,
+  FollowUpStatus,
+  ILeadFollowUp,
+} from '../models/LeadFollowUp';
+import { createNotification } from './notificationService';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { NotificationCategory, NotificationPriority, NotificationType } from '../types/enums';
+
+export interface CreateFollowUpParams {
+  leadId: string;
+  dueAt: Date;
+  assignedTo?: string;
+  purpose?: string;
+  createdBy: string;
+}
+
+export interface CompleteFollowUpParams {
+  followUpId: string;
+  outcome: FollowUpOutcome;
+  outcomeNote?: string;
+  nextAction?: string;
+  nextDueAt?: Date;
+  completedBy: string;
+}
+
+export type MyFollowUpsWindow = 'today' | 'overdue';
+
+// Lead statuses that get a callback scheduled automatically
+export const FOLLOW_UP_LEAD_STATUSES: LeadStatus[] = [
+  LeadStatus.ENQUIRY,
+  LeadStatus.PARENT_DIDNT_RESPOND,
+];
+
+function getDefaultFollowUpDelayMs(): number {
+  const hours = Number(process.env.LEAD_FOLLOW_UP_DEFAULT_DELAY_HOURS || 24);
+  return (Number.isFinite(hours) && hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+function getReminderLeadTimeMs(): number {
+  const minutes = Number(process.env.LEAD_FOLLOW_UP_REMINDER_MINUTES || 15);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : 15) * 60 * 1000;
+}
+
+async function getOpenLead(leadId: string): Promise<ILead> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  if (lead.mergedInto) {
+    throw new ConflictError('Lead has been merged into another lead');
+  }
+  if (lead.isConverted) {
+    throw new ConflictError('Lead is already converted');
+  }
+  return lead;
+}
+
+export async function createFollowUp(params: CreateFollowUpParams): Promise<ILeadFollowUp> {
+  const lead = await getOpenLead(params.leadId);
+
+  // Default to the lead owner so callbacks land with whoever handles the parent
+  const assignedTo = params.assignedTo || lead.leadAssignedTo?.toString() || params.createdBy;
+
+  const followUp = await LeadFollowUp.create({
+    lead: lead._id,
+    assignedTo: new mongoose.Types.ObjectId(assignedTo),
+    dueAt: params.dueAt,
+    purpose: params.purpose,
+    createdBy: new mongoose.Types.ObjectId(params.createdBy),
+  });
+
+  return followUp;
+}
+
+/**
+ * Schedule a default callback for leads that are waiting on the parent,
+ * unless one is already pending. Returns null when nothing was scheduled.
+ */
+export async function ensureFollowUpScheduled(
+  lead: ILead,
+  actorId?: string
+): Promise<ILeadFollowUp | null> {
+  if (!FOLLOW_UP_LEAD_STATUSES.includes(lead.leadStatus)) return null;
+
+  const assignee = lead.leadAssignedTo?.toString() || actorId;
+  if (!assignee) return null;
+
+  const pending = await LeadFollowUp.exists({ lead: lead._id, status: FollowUpStatus.PENDING });
+  if (pending) return null;
+
+  return LeadFollowUp.create({
+    lead: lead._id,
+    assignedTo: new mongoose.Types.ObjectId(assignee),
+    dueAt: new Date(Date.now() + getDefaultFollowUpDelayMs()),
+    purpose: `Call back parent (lead status: ${lead.leadStatus})`,
+    createdBy: actorId ? new mongoose.Types.ObjectId(actorId) : undefined,
+  });
+}
+
+export async function listLeadFollowUps(
+  leadId: string,
+  status?: FollowUpStatus
+): Promise<ILeadFollowUp[]> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+
+  const query: Record<string, any> = { lead: lead._id };
+  if (status) query.status = status;
+
+  return LeadFollowUp.find(query)
+    .sort({ dueAt: -1 })
+    .populate('assignedTo', 'profile.firstName profile.lastName email')
+    .populate('completedBy', 'profile.firstName profile.lastName email');
+}
+
+export async function getMyFollowUps(
+  userId: string,
+  window: MyFollowUpsWindow
+): Promise<ILeadFollowUp[]> {
+  const now = new Date();
+  const startOfDay = new Date(now);
+  startOfDay.setHours(0, 0, 0, 0);
+  const endOfDay = new Date(startOfDay);
+  endOfDay.setDate(endOfDay.getDate() + 1);
+
+  const dueAt = window === 'today' ? { $gte: startOfDay, $lt: endOfDay } : { $lt: now };
+
+  return LeadFollowUp.find({
+    assignedTo: new mongoose.Types.ObjectId(userId),
+    status: FollowUpStatus.PENDING,
+    dueAt,
+  })
+    .sort({ dueAt: 1 })
+    .populate('lead', 'parentsName studentName contactNumber leadStatus');
+}
+
+export async function completeFollowUp(params: CompleteFollowUpParams): Promise<ILeadFollowUp> {
+  const followUp = await LeadFollowUp.findById(params.followUpId);
+  if (!followUp) {
+    throw new NotFoundError('Follow-up');
+  }
+  if (followUp.status !== FollowUpStatus.PENDING) {
+    throw new ConflictError(`Follow-up is already ${followUp.status}`);
+  }
+  if (params.nextDueAt && params.nextDueAt.getTime() <= Date.now()) {
+    throw new BadRequestError('nextDueAt must be in the future');
+  }
+
+  followUp.status = FollowUpStatus.COMPLETED;
+  followUp.outcome = params.outcome;
+  followUp.outcomeNote = params.outcomeNote;
+  followUp.nextAction = params.nextAction;
+  followUp.completedAt = new Date();
+  followUp.completedBy = new mongoose.Types.ObjectId(params.completedBy);
+
+  if (params.nextDueAt) {
+    const next = await createFollowUp({
+      leadId: followUp.lead.toString(),
+      dueAt: params.nextDueAt,
+      assignedTo: followUp.assignedTo.toString(),
+      purpose: params.nextAction,
+      createdBy: params.completedBy,
+    });
+    followUp.nextFollowUp = next._id as mongoose.Types.ObjectId;
+  }
+
+  await followUp.save();
+  return followUp;
+}
+
+/**
+ * Send an in-app reminder for every pending follow-up that is due (or about
+ * to be) and has not been reminded yet. Safe to run repeatedly.
+ */
+export async function sendDueFollowUpReminders(
+  now: Date = new Date()
+): Promise<{ sent: number; failed: number }> {
+  const dueBefore = new Date(now.getTime() + getReminderLeadTimeMs());
+  const due = await LeadFollowUp.find({
+    status: FollowUpStatus.PENDING,
+    reminderSentAt: { $exists: false },
+    dueAt: { $lte: dueBefore },
+  })
+    .populate('lead', 'parentsName studentName contactNumber')
+    .limit(200);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const followUp of due) {
+    const lead = followUp.lead as unknown as ILead | null;
+    const leadId = lead?._id ? String(lead._id) : '';
+    try {
+      await createNotification({
+        userId: followUp.assignedTo.toString(),
+        type: NotificationType.IN_APP,
+        category: NotificationCategory.LEAD_FOLLOW_UP,
+        priority: NotificationPriority.HIGH,
+        title: 'Lead callback due',
+        message: `Call ${lead?.parentsName || 'parent'} (${lead?.contactNumber || 'n/a'}) about ${
+          lead?.studentName || 'the lead'
+        } — due ${followUp.dueAt.toLocaleString()}${followUp.purpose ? `: ${followUp.purpose}` : ''}`,
+        metadata: { leadId, actionUrl: `/leads/${leadId}` },
+      });
+      followUp.reminderSentAt = new Date();
+      await followUp.save();
+      sent++;
+    } catch (error) {
+      failed++;
+      // eslint-disable-next-line no-console
+      console.error(`Failed to send follow-up reminder ${String(followUp._id)}:`, error);
+    }
+  }
+
+  return { sent, failed };
+}
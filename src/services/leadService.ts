@@ -0,0 +1,594 @@
+import mongoose from 'mongoose';
+import Lead, {
+  ILead,
+  ILeadStatusChange,
+  LeadAssignmentMethod,
+  LeadSource,
+  LeadStatus,
+  TuitionMode,
+} from '../models/Lead';
+import {
+  AuthorizationError,
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../utils/errors';
+import { normalizePhone, normalizePhones } from '../utils/phone';
+import { escapeRegex } from '../utils/regex';
+import { AuditAction, UserRole } from '../types/enums';
+import { hasMinimumRole } from '../config/permissions';
+import { createAuditLog } from './adminService';
+import { ensureFollowUpScheduled } from './leadFollowUpService';
+import {
+  findLeadOwnerOrThrow,
+  notifyLeadAssignee,
+  pickLeadAssignee,
+} from './leadAssignmentService';
+
+export interface CreateLeadParams {
+  data: Record<string, any>;
+  createdBy?: string;
+  // Only managers and admins may choose the owner through leadAssignedTo
+  creatorRole?: UserRole;
+  // Recorded on the assignment and shown in the owner's notification
+  assignmentNote?: string;
+}
+
+export interface ChangeLeadStatusParams {
+  leadId: string;
+  status: LeadStatus;
+  note?: string;
+  changedBy?: string;
+}
+
+export interface CreateLeadResult {
+  lead: ILead;
+  duplicates: LeadDuplicateMatch[];
+}
+
+export interface LeadDuplicateCandidate {
+  contactNumber?: string;
+  alternateNumber?: string;
+  studentName?: string;
+  parentsName?: string;
+}
+
+export interface LeadDuplicateMatch {
+  leadId: string;
+  parentsName: string;
+  studentName: string;
+  contactNumber: string;
+  leadStatus: LeadStatus;
+  createdAt: Date;
+  matchedOn: Array<'phone' | 'studentName' | 'parentsName'>;
+  confidence: 'high' | 'medium';
+}
+
+export interface MergeLeadsParams {
+  primaryLeadId: string;
+  duplicateLeadId: string;
+  mergedBy: string;
+}
+
+export interface LeadListFilters {
+  leadStatus?: LeadStatus;
+  leadSource?: LeadSource;
+  preferredTuitionMode?: TuitionMode;
+  subject?: string;
+  classLevel?: string;
+  board?: string;
+  leadAssignedTo?: string;
+  isConverted?: boolean;
+  createdFrom?: Date;
+  createdTo?: Date;
+  search?: string;
+}
+
+export interface LeadListOptions {
+  page?: number;
+  limit?: number;
+  cursor?: string;
+  // Row-level access filter from getLeadAccessScope
+  scope?: Record<string, any>;
+}
+
+export interface LeadListResult {
+  leads: ILead[];
+  count: number;
+  total: number;
+  page?: number;
+  totalPages?: number;
+  nextCursor?: string | null;
+}
+
+export const DEFAULT_LEAD_PAGE_SIZE = 20;
+export const MAX_LEAD_PAGE_SIZE = 100;
+
+/**
+ * Statuses a lead may be created with. Anything later in the pipeline
+ * has to be reached through changeLeadStatus so it is recorded in history.
+ */
+export const INITIAL_LEAD_STATUSES: LeadStatus[] = [LeadStatus.ENQUIRY, LeadStatus.DEMO_SCHEDULE];
+
+/**
+ * Legal lead status transitions (from -> allowed targets).
+ * DEMO_APPROVED_BY_PARENT is terminal; the lead then moves on to conversion.
+ */
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  [LeadStatus.ENQUIRY]: [
+    LeadStatus.DEMO_SCHEDULE,
+    LeadStatus.PARENT_DIDNT_RESPOND,
+    LeadStatus.TUTOR_NOT_FOUND_FOR_DEMO,
+  ],
+  [LeadStatus.PARENT_DIDNT_RESPOND]: [LeadStatus.ENQUIRY, LeadStatus.DEMO_SCHEDULE],
+  [LeadStatus.TUTOR_NOT_FOUND_FOR_DEMO]: [LeadStatus.ENQUIRY, LeadStatus.DEMO_SCHEDULE],
+  [LeadStatus.DEMO_SCHEDULE]: [
+    LeadStatus.DEMO_APPROVED_BY_PARENT,
+    LeadStatus.DEMO_REJECTED_BY_PARENT,
+    LeadStatus.TUTOR_NOT_FOUND_FOR_DEMO,
+    LeadStatus.PARENT_DIDNT_RESPOND,
+  ],
+  [LeadStatus.DEMO_REJECTED_BY_PARENT]: [LeadStatus.DEMO_SCHEDULE, LeadStatus.PARENT_DIDNT_RESPOND],
+  [LeadStatus.DEMO_APPROVED_BY_PARENT]: [],
+};
+
+// Transitions that must carry a note explaining why
+const STATUSES_REQUIRING_REASON: LeadStatus[] = [LeadStatus.DEMO_REJECTED_BY_PARENT];
+
+export function canTransitionLeadStatus(from: LeadStatus, to: LeadStatus): boolean {
+  return (LEAD_STATUS_TRANSITIONS[from] || []).includes(to);
+}
+
+export function getLatestStatusChange(lead: ILead): ILeadStatusChange | null {
+  const history = lead.statusHistory || [];
+  return history.length > 0 ? history[history.length - 1] : null;
+}
+
+/**
+ * True only when the recorded history shows the parent approved the demo
+ * and nothing has moved the lead away from that status since. Legacy leads
+ * saved before status history was kept fall back to their current status.
+ */
+export function isDemoApprovedByParent(lead: ILead): boolean {
+  if (lead.leadStatus !== LeadStatus.DEMO_APPROVED_BY_PARENT) return false;
+  const latest = getLatestStatusChange(lead);
+  return !latest || latest.to === LeadStatus.DEMO_APPROVED_BY_PARENT;
+}
+
+function toObjectId(id?: string): mongoose.Types.ObjectId | undefined {
+  return id && mongoose.Types.ObjectId.isValid(id) ? new mongoose.Types.ObjectId(id) : undefined;
+}
+
+/**
+ * Build the Mongo filter for a lead listing. Shared by every lead query
+ * that accepts the listing filters so they behave identically.
+ */
+export function buildLeadQuery(
+  filters: LeadListFilters,
+  scope: Record<string, any> = {}
+): Record<string, any> {
+  const query: Record<string, any> = {};
+
+  if (filters.leadStatus) query.leadStatus = filters.leadStatus;
+  if (filters.leadSource) query.leadSource = filters.leadSource;
+  if (filters.preferredTuitionMode) query.preferredTuitionMode = filters.preferredTuitionMode;
+  if (filters.subject) {
+    query.subjectsRequired = { $regex: `^${escapeRegex(filters.subject.trim())}$`, $options: 'i' };
+  }
+  if (filters.classLevel) {
+    query['classAndBoard.classLevel'] = { $regex: `^${escapeRegex(filters.classLevel.trim())}$`, $options: 'i' };
+  }
+  if (filters.board) {
+    query['classAndBoard.board'] = { $regex: `^${escapeRegex(filters.board.trim())}$`, $options: 'i' };
+  }
+  if (filters.leadAssignedTo) query.leadAssignedTo = toObjectId(filters.leadAssignedTo);
+  if (filters.isConverted !== undefined) {
+    // legacy leads may not carry the flag at all
+    query.isConverted = filters.isConverted ? true : { $ne: true };
+  }
+  // merged-away leads only live on for the audit trail
+  query.mergedInto = { $exists: false };
+  if (filters.createdFrom || filters.createdTo) {
+    query.createdAt = {};
+    if (filters.createdFrom) query.createdAt.$gte = filters.createdFrom;
+    if (filters.createdTo) query.createdAt.$lte = filters.createdTo;
+  }
+
+  const search = filters.search?.trim();
+  if (search) {
+    const pattern = escapeRegex(search);
+    const or: Record<string, any>[] = [
+      { parentsName: { $regex: pattern, $options: 'i' } },
+      { studentName: { $regex: pattern, $options: 'i' } },
+    ];
+    const digits = search.replace(/\D/g, '');
+    if (digits.length >= 3) {
+      or.push({ contactNumber: { $regex: digits } }, { alternateNumber: { $regex: digits } });
+    }
+    query.$or = or;
+  }
+
+  return Object.keys(scope).length > 0 ? { $and: [query, scope] } : query;
+}
+
+function encodeLeadCursor(lead: ILead): string {
+  return Buffer.from(`${lead.createdAt.toISOString()}|${String(lead._id)}`).toString('base64url');
+}
+
+function decodeLeadCursor(cursor: string): { createdAt: Date; id: mongoose.Types.ObjectId } {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(createdAt);
+  if (!id || !mongoose.Types.ObjectId.isValid(id) || Number.isNaN(date.getTime())) {
+    throw new BadRequestError('Invalid cursor');
+  }
+  return { createdAt: date, id: new mongoose.Types.ObjectId(id) };
+}
+
+/**
+ * List leads newest first. Uses keyset pagination when a cursor is given,
+ * otherwise classic page/limit.
+ */
+export async function listLeads(filters: LeadListFilters, options: LeadListOptions = {}): Promise<LeadListResult> {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_LEAD_PAGE_SIZE, 1), MAX_LEAD_PAGE_SIZE);
+  const query = buildLeadQuery(filters, options.scope);
+  const total = await Lead.countDocuments(query);
+
+  if (options.cursor !== undefined) {
+    let pageQuery = query;
+    if (options.cursor) {
+      const { createdAt, id } = decodeLeadCursor(options.cursor);
+      pageQuery = {
+        $and: [query, { $or: [{ createdAt: { $lt: createdAt } }, { createdAt, _id: { $lt: id } }] }],
+      };
+    }
+    const rows = await Lead.find(pageQuery).sort({ createdAt: -1, _id: -1 }).limit(limit + 1);
+    const hasMore = rows.length > limit;
+    const leads = hasMore ? rows.slice(0, limit) : rows;
+    return {
+      leads,
+      count: leads.length,
+      total,
+      nextCursor: hasMore ? encodeLeadCursor(leads[leads.length - 1]) : null,
+    };
+  }
+
+  const page = Math.max(options.page || 1, 1);
+  const leads = await Lead.find(query)
+    .sort({ createdAt: -1, _id: -1 })
+    .skip((page - 1) * limit)
+    .limit(limit);
+
+  return { leads, count: leads.length, total, page, totalPages: Math.ceil(total / limit) };
+}
+
+const NAME_SIMILARITY_THRESHOLD = 0.8;
+const MAX_DUPLICATE_MATCHES = 10;
+
+function normalizeName(name?: string): string {
+  return String(name || '')
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_v, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+// 1 for identical names, 0 for nothing in common
+function nameSimilarity(a?: string, b?: string): number {
+  const x = normalizeName(a);
+  const y = normalizeName(b);
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  // "Aarav" vs "Aarav Sharma"
+  if (x.split(' ')[0] === y.split(' ')[0] && (x.includes(y) || y.includes(x))) return 0.9;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+/**
+ * Find existing leads that are probably the same enquiry: a shared
+ * (normalized) phone number, or the same student and parent names.
+ */
+export async function findDuplicateLeads(
+  candidate: LeadDuplicateCandidate,
+  excludeLeadId?: string
+): Promise<LeadDuplicateMatch[]> {
+  const phones = normalizePhones(candidate.contactNumber, candidate.alternateNumber);
+  const studentName = normalizeName(candidate.studentName);
+
+  const or: Record<string, any>[] = [];
+  if (phones.length > 0) or.push({ normalizedPhones: { $in: phones } });
+  if (studentName) {
+    or.push({
+      studentName: { $regex: `^${escapeRegex(candidate.studentName!.trim())}$`, $options: 'i' },
+    });
+  }
+  if (or.length === 0) return [];
+
+  const query: Record<string, any> = { $or: or, mergedInto: { $exists: false } };
+  if (excludeLeadId) query._id = { $ne: toObjectId(excludeLeadId) };
+
+  const existing = await Lead.find(query).sort({ createdAt: -1 }).limit(50);
+
+  const matches: LeadDuplicateMatch[] = [];
+  existing.forEach((lead) => {
+    const matchedOn: LeadDuplicateMatch['matchedOn'] = [];
+    if ((lead.normalizedPhones || []).some((p) => phones.includes(p))) matchedOn.push('phone');
+    if (nameSimilarity(lead.studentName, candidate.studentName) >= NAME_SIMILARITY_THRESHOLD) {
+      matchedOn.push('studentName');
+    }
+    if (nameSimilarity(lead.parentsName, candidate.parentsName) >= NAME_SIMILARITY_THRESHOLD) {
+      matchedOn.push('parentsName');
+    }
+
+    const phoneMatch = matchedOn.includes('phone');
+    const namesMatch = matchedOn.includes('studentName') && matchedOn.includes('parentsName');
+    if (!phoneMatch && !namesMatch) return;
+
+    matches.push({
+      leadId: String(lead._id),
+      parentsName: lead.parentsName,
+      studentName: lead.studentName,
+      contactNumber: lead.contactNumber,
+      leadStatus: lead.leadStatus,
+      createdAt: lead.createdAt,
+      matchedOn,
+      confidence: phoneMatch && matchedOn.includes('studentName') ? 'high' : 'medium',
+    });
+  });
+
+  return matches
+    .sort((a, b) => (a.confidence === b.confidence ? 0 : a.confidence === 'high' ? -1 : 1))
+    .slice(0, MAX_DUPLICATE_MATCHES);
+}
+
+export async function findDuplicatesOfLead(leadId: string): Promise<LeadDuplicateMatch[]> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  return findDuplicateLeads(lead, leadId);
+}
+
+export async function createLead(params: CreateLeadParams): Promise<CreateLeadResult> {
+  const { data, createdBy, creatorRole, assignmentNote } = params;
+  const initialStatus: LeadStatus = data.leadStatus || LeadStatus.ENQUIRY;
+
+  if (!INITIAL_LEAD_STATUSES.includes(initialStatus)) {
+    throw new ValidationError('Validation failed', [
+      { field: 'leadStatus', message: `New leads must start as one of: ${INITIAL_LEAD_STATUSES.join(', ')}` },
+    ]);
+  }
+
+  // History, conversion and merge bookkeeping are owned by the server
+  const {
+    statusHistory: _statusHistory,
+    isConverted: _isConverted,
+    normalizedPhones: _normalizedPhones,
+    mergedInto: _mergedInto,
+    mergedAt: _mergedAt,
+    assignmentHistory: _assignmentHistory,
+    ...rest
+  } = data;
+
+  const duplicates = await findDuplicateLeads(rest);
+
+  // An owner given explicitly wins; otherwise the assignment rules pick one.
+  // Choosing one is the same decision as PATCH /:id/assignee, so the same rules apply.
+  if (rest.leadAssignedTo) {
+    if (creatorRole && !hasMinimumRole(creatorRole, UserRole.MANAGER)) {
+      throw new AuthorizationError('Only managers and admins can choose the lead owner');
+    }
+    await findLeadOwnerOrThrow(String(rest.leadAssignedTo));
+  }
+  // Coordinators only see their own leads, so one they create stays with them
+  const creatorOwns = !rest.leadAssignedTo && creatorRole === UserRole.COORDINATOR && createdBy;
+  const auto = rest.leadAssignedTo || creatorOwns ? null : await pickLeadAssignee(rest);
+  const owner = rest.leadAssignedTo
+    ? String(rest.leadAssignedTo)
+    : creatorOwns
+      ? createdBy
+      : auto?.coordinatorId;
+
+  const lead = await Lead.create({
+    ...rest,
+    leadAssignedTo: toObjectId(owner),
+    assignmentHistory: owner
+      ? [
+          {
+            to: toObjectId(owner),
+            method: auto ? LeadAssignmentMethod.AUTO : LeadAssignmentMethod.MANUAL,
+            rule: auto?.rule,
+            changedBy: toObjectId(createdBy),
+            changedAt: new Date(),
+            note: assignmentNote,
+          },
+        ]
+      : [],
+    leadStatus: initialStatus,
+    statusHistory: [{ to: initialStatus, changedBy: toObjectId(createdBy), changedAt: new Date(), note: 'Lead created' }],
+  });
+  await ensureFollowUpScheduled(lead, createdBy);
+  if (owner && owner !== createdBy) await notifyLeadAssignee(lead, assignmentNote);
+
+  return { lead, duplicates };
+}
+
+export async function changeLeadStatus(params: ChangeLeadStatusParams): Promise<ILead> {
+  const { leadId, status, changedBy } = params;
+  const note = params.note?.trim();
+
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+  if (lead.mergedInto) {
+    throw new ConflictError('Lead has been merged into another lead');
+  }
+
+  const from = lead.leadStatus;
+  if (from === status) {
+    throw new ConflictError(`Lead is already in status "${status}"`);
+  }
+  if (!canTransitionLeadStatus(from, status)) {
+    throw new ConflictError(`Cannot move lead from "${from}" to "${status}"`);
+  }
+  if (STATUSES_REQUIRING_REASON.includes(status) && !note) {
+    throw new ValidationError('Validation failed', [{ field: 'note', message: `A reason is required for "${status}"` }]);
+  }
+
+  lead.leadStatus = status;
+  lead.statusHistory.push({ from, to: status, changedBy: toObjectId(changedBy), changedAt: new Date(), note });
+  await lead.save();
+  await ensureFollowUpScheduled(lead, changedBy);
+
+  return lead;
+}
+
+function joinNotes(a?: string, b?: string): string | undefined {
+  const parts = [a, b].map((x) => x?.trim()).filter(Boolean) as string[];
+  if (parts.length === 0) return undefined;
+  if (parts.length === 2 && parts[0] === parts[1]) return parts[0];
+  return parts.join('\n---\n');
+}
+
+/**
+ * Merge a duplicate lead into the primary one. The duplicate is kept (flagged
+ * with mergedInto) so the merge can be traced, and hidden from listings.
+ */
+export async function mergeLeads(params: MergeLeadsParams): Promise<ILead> {
+  const { primaryLeadId, duplicateLeadId, mergedBy } = params;
+
+  if (primaryLeadId === duplicateLeadId) {
+    throw new BadRequestError('Cannot merge a lead into itself');
+  }
+
+  const [primary, duplicate] = await Promise.all([
+    Lead.findById(primaryLeadId),
+    Lead.findById(duplicateLeadId),
+  ]);
+  if (!primary) throw new NotFoundError('Lead', 'Primary lead not found');
+  if (!duplicate) throw new NotFoundError('Lead', 'Duplicate lead not found');
+  if (primary.mergedInto || duplicate.mergedInto) {
+    throw new ConflictError('One of the leads has already been merged');
+  }
+  if (duplicate.isConverted) {
+    throw new ConflictError('Converted leads cannot be merged into another lead');
+  }
+
+  const before = { primary: primary.toObject(), duplicate: duplicate.toObject() };
+
+  primary.subjectsRequired = Array.from(
+    new Map(
+      [...(primary.subjectsRequired || []), ...(duplicate.subjectsRequired || [])].map((subj) => [
+        subj.trim().toLowerCase(),
+        subj.trim(),
+      ])
+    ).values()
+  );
+  primary.mentorNote = joinNotes(primary.mentorNote, duplicate.mentorNote);
+  primary.parentsCustomizedDemands = joinNotes(
+    primary.parentsCustomizedDemands,
+    duplicate.parentsCustomizedDemands
+  );
+
+  if (!primary.alternateNumber) {
+    const primaryPhone = normalizePhone(primary.contactNumber);
+    const otherPhone = [duplicate.contactNumber, duplicate.alternateNumber].find(
+      (p) => normalizePhone(p) && normalizePhone(p) !== primaryPhone
+    );
+    if (otherPhone) primary.alternateNumber = otherPhone;
+  }
+
+  // Payment info: each lead may have recorded a separate payment
+  const primaryPaid = primary.paymentReceived || { received: false };
+  const duplicatePaid = duplicate.paymentReceived || { received: false };
+  const amounts = [primaryPaid.amount, duplicatePaid.amount].filter(
+    (a): a is number => typeof a === 'number'
+  );
+  primary.paymentReceived = {
+    received: Boolean(primaryPaid.received || duplicatePaid.received),
+    amount: amounts.length > 0 ? amounts.reduce((sum, a) => sum + a, 0) : undefined,
+  };
+
+  const fillIfEmpty: Array<keyof ILead> = [
+    'fees',
+    'paymentMode',
+    'invoiceId',
+    'demoTutor',
+    'demoAt',
+    'leadAssignedTo',
+    'numClassesPerMonth',
+    'classDurationMinutes',
+  ];
+  if (!primary.leadAssignedTo && duplicate.leadAssignedTo) {
+    primary.assignmentHistory.push({
+      to: duplicate.leadAssignedTo,
+      method: LeadAssignmentMethod.MANUAL,
+      changedBy: toObjectId(mergedBy),
+      changedAt: new Date(),
+      note: `Owner inherited from merged lead ${duplicateLeadId}`,
+    });
+  }
+  fillIfEmpty.forEach((field) => {
+    if ((primary as any)[field] == null && (duplicate as any)[field] != null) {
+      (primary as any)[field] = (duplicate as any)[field];
+    }
+  });
+
+  const mergedAt = new Date();
+  const toPlain = (h: ILeadStatusChange) => ((h as any).toObject?.() ?? h) as ILeadStatusChange;
+  const combinedHistory: ILeadStatusChange[] = [
+    ...(primary.statusHistory || []).map(toPlain),
+    ...(duplicate.statusHistory || []).map((h) => ({
+      ...toPlain(h),
+      note: [`[merged from lead ${duplicateLeadId}]`, h.note].filter(Boolean).join(' '),
+    })),
+  ].sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime());
+  // closing entry keeps the latest history entry in line with the current status
+  combinedHistory.push({
+    from: primary.leadStatus,
+    to: primary.leadStatus,
+    changedBy: toObjectId(mergedBy),
+    changedAt: mergedAt,
+    note: `Merged lead ${duplicateLeadId} into this lead`,
+  });
+  primary.set('statusHistory', combinedHistory);
+
+  duplicate.mergedInto = primary._id as mongoose.Types.ObjectId;
+  duplicate.mergedAt = mergedAt;
+
+  // Both leads are saved or neither is, so a failure cannot leave a half-merged pair
+  await mongoose.connection.transaction(async () => {
+    await primary.save();
+    await duplicate.save();
+  });
+
+  await createAuditLog({
+    action: AuditAction.LEAD_MERGED,
+    performedBy: mergedBy,
+    targetResource: 'Lead',
+    targetResourceId: primaryLeadId,
+    description: `Merged lead ${duplicateLeadId} into ${primaryLeadId}`,
+    metadata: {
+      oldValue: before,
+      newValue: primary.toObject(),
+      additionalInfo: { duplicateLeadId },
+    },
+  });
+
+  return primary;
+}
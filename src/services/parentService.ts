@@ -0,0 +1,244 @@
+import mongoose from 'mongoose';
+import FinalClass, { IFinalClass, IParentConcern } from '../models/FinalClass';
+import Invoice, { IInvoice, InvoiceStatus } from '../models/Invoice';
+import Lead, { ILead } from '../models/Lead';
+import { LeadActivityType } from '../models/LeadActivity';
+import LeadFollowUp, { FollowUpStatus } from '../models/LeadFollowUp';
+import User, { IUser } from '../models/User';
+import { listAttendanceSheets, presentSheetForParent } from './attendanceSheetService';
+import { addLeadActivity } from './leadActivityService';
+import { createNotification } from './notificationService';
+import { listTestReports } from './testReportService';
+import { ConflictError, NotFoundError } from '../utils/errors';
+import {
+  NotificationCategory,
+  NotificationPriority,
+  NotificationType,
+  UserRole,
+} from '../types/enums';
+
+export interface RaiseConcernParams {
+  finalClassId: string;
+  parentId: string;
+  subject: string;
+  message: string;
+}
+
+// Parents see their child's tutor and how to reach them, nothing else about them
+const PARENT_TUTOR_FIELDS = 'profile.firstName profile.lastName profile.phone';
+const PARENT_LEAD_FIELDS = 'studentName subjectsRequired classAndBoard';
+// Drafts may still change and void invoices are not owed
+const PARENT_INVOICE_STATUSES = [InvoiceStatus.ISSUED, InvoiceStatus.PAID];
+
+function presentTutor(tutor: unknown) {
+  if (!tutor || !(tutor as IUser).profile) return null;
+  const { profile } = tutor as IUser;
+  return {
+    name: [profile.firstName, profile.lastName].filter(Boolean).join(' '),
+    phone: profile.phone,
+  };
+}
+
+function presentClass(finalClass: IFinalClass) {
+  const lead = finalClass.populated('lead') ? (finalClass.lead as unknown as ILead) : undefined;
+  return {
+    _id: finalClass._id,
+    classId: finalClass.classId,
+    classStatus: finalClass.classStatus,
+    studentName: lead?.studentName,
+    subjects: lead?.subjectsRequired,
+    classLevel: lead?.classAndBoard?.classLevel,
+    board: lead?.classAndBoard?.board,
+    tutor: presentTutor(finalClass.tutorAssigned),
+    monthStartDate: finalClass.monthStartDate,
+    monthRenewDate: finalClass.monthRenewDate,
+    daysLeftUntilRenewal: finalClass.daysLeftUntilRenewal,
+    parentApprovedCurrentMonth: finalClass.parentApprovedCurrentMonth,
+    testDate: finalClass.testDate,
+  };
+}
+
+async function getParentOrThrow(parentId: string): Promise<IUser> {
+  const parent = await User.findById(parentId);
+  if (!parent || parent.role !== UserRole.PARENT) {
+    throw new NotFoundError('Parent');
+  }
+  if (!parent.isActive) {
+    throw new ConflictError('Parent account is not active');
+  }
+  return parent;
+}
+
+/**
+ * Link a parent account to a class (classes converted before the account
+ * existed, or a second child). One parent can be linked to many classes.
+ */
+export async function linkParentToClass(finalClassId: string, parentId: string): Promise<IFinalClass> {
+  const parent = await getParentOrThrow(parentId);
+  const finalClass = await FinalClass.findById(finalClassId);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  finalClass.parent = parent._id as mongoose.Types.ObjectId;
+  await finalClass.save();
+  await finalClass.populate('parent', 'email profile.firstName profile.lastName profile.phone');
+  return finalClass;
+}
+
+// Every class linked to the parent, soonest renewal first
+export async function listParentClasses(parentId: string) {
+  const finalClasses = await FinalClass.find({ parent: new mongoose.Types.ObjectId(parentId) })
+    .select('-attendanceSheets -testReports -statusHistory -tutorHistory -renewalPayments -parentConcerns')
+    .sort({ monthRenewDate: 1, createdAt: -1 })
+    .populate('lead', PARENT_LEAD_FIELDS)
+    .populate('tutorAssigned', PARENT_TUTOR_FIELDS);
+  return finalClasses.map(presentClass);
+}
+
+export async function getParentClass(finalClassId: string) {
+  const finalClass = await FinalClass.findById(finalClassId)
+    .select('-attendanceSheets -testReports -statusHistory -tutorHistory -renewalPayments -parentConcerns')
+    .populate('lead', PARENT_LEAD_FIELDS)
+    .populate('tutorAssigned', PARENT_TUTOR_FIELDS);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  return presentClass(finalClass);
+}
+
+export async function listParentAttendance(finalClassId: string) {
+  const sheets = await listAttendanceSheets(finalClassId);
+  return sheets.map(presentSheetForParent);
+}
+
+export async function listParentTestReports(finalClassId: string) {
+  const { classId, scheduledTest, reports } = await listTestReports(finalClassId);
+  return {
+    classId,
+    nextTestDate: scheduledTest?.testDate,
+    reports: reports.map((r) => ({
+      _id: r._id,
+      monthLabel: r.monthLabel,
+      testDate: r.testDate,
+      reportUrl: r.reportUrl,
+      notes: r.notes,
+      uploadedAt: r.uploadedAt,
+    })),
+  };
+}
+
+// Issued and paid invoices for the leads behind the parent's classes, latest first
+export async function listParentInvoices(parentId: string): Promise<IInvoice[]> {
+  const leadIds = await FinalClass.distinct('lead', { parent: new mongoose.Types.ObjectId(parentId) });
+  return Invoice.find({ lead: { $in: leadIds }, status: { $in: PARENT_INVOICE_STATUSES } })
+    .select('-createdBy -issuedBy -recordedBy -voidedBy')
+    .sort({ issuedAt: -1 });
+}
+
+export async function getParentInvoice(parentId: string, invoiceId: string): Promise<IInvoice> {
+  const invoice = await Invoice.findById(invoiceId);
+  if (!invoice || !PARENT_INVOICE_STATUSES.includes(invoice.status)) {
+    throw new NotFoundError('Invoice');
+  }
+  const linked = await FinalClass.exists({
+    lead: invoice.lead,
+    parent: new mongoose.Types.ObjectId(parentId),
+  });
+  if (!linked) {
+    throw new NotFoundError('Invoice');
+  }
+  return invoice;
+}
+
+/**
+ * Pass a parent's concern to the coordinator who owns the lead: it is kept on
+ * the class, logged on the lead timeline and becomes a follow-up due now.
+ */
+export async function raiseConcern(params: RaiseConcernParams): Promise<IParentConcern> {
+  const finalClass = await FinalClass.findById(params.finalClassId);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  const lead = await Lead.findById(finalClass.lead).select('studentName leadAssignedTo');
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+
+  const now = new Date();
+  let followUpId: mongoose.Types.ObjectId | undefined;
+  if (lead.leadAssignedTo) {
+    const followUp = await LeadFollowUp.create({
+      lead: lead._id,
+      assignedTo: lead.leadAssignedTo,
+      dueAt: now,
+      purpose: `Parent concern on class ${finalClass.classId}: ${params.subject}`.slice(0, 500),
+      // The owner is notified below, so the follow-up job need not remind them again
+      reminderSentAt: now,
+      createdBy: new mongoose.Types.ObjectId(params.parentId),
+    });
+    followUpId = followUp._id as mongoose.Types.ObjectId;
+  }
+
+  finalClass.parentConcerns.push({
+    subject: params.subject,
+    message: params.message,
+    raisedBy: new mongoose.Types.ObjectId(params.parentId),
+    raisedAt: now,
+    followUp: followUpId,
+  });
+  await finalClass.save();
+
+  await addLeadActivity({
+    leadId: String(lead._id),
+    type: LeadActivityType.NOTE,
+    authorId: params.parentId,
+    content: `Parent concern on class ${finalClass.classId} - ${params.subject}: ${params.message}`,
+  });
+
+  if (lead.leadAssignedTo) {
+    try {
+      await createNotification({
+        userId: String(lead.leadAssignedTo),
+        type: NotificationType.IN_APP,
+        category: NotificationCategory.LEAD_FOLLOW_UP,
+        priority: NotificationPriority.HIGH,
+        title: 'Parent raised a concern',
+        message: `The parent of ${lead.studentName} (class ${finalClass.classId}): ${params.subject}`,
+        metadata: {
+          finalClassId: String(finalClass._id),
+          followUpId: followUpId ? String(followUpId) : undefined,
+        },
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to notify lead owner of concern on ${finalClass.classId}:`, error);
+    }
+  }
+
+  return finalClass.parentConcerns[finalClass.parentConcerns.length - 1];
+}
+
+// The parent's concerns on a class with where the coordinator has got to
+export async function listConcerns(finalClassId: string) {
+  const finalClass = await FinalClass.findById(finalClassId)
+    .select('parentConcerns')
+    .populate('parentConcerns.followUp', 'status completedAt outcomeNote');
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+
+  return [...finalClass.parentConcerns]
+    .sort((a, b) => b.raisedAt.getTime() - a.raisedAt.getTime())
+    .map((concern) => {
+      const followUp = concern.followUp as any;
+      return {
+        _id: concern._id,
+        subject: concern.subject,
+        message: concern.message,
+        raisedAt: concern.raisedAt,
+        status: followUp?.status || FollowUpStatus.PENDING,
+        resolvedAt: followUp?.completedAt,
+        resolution: followUp?.outcomeNote,
+      };
+    });
+}
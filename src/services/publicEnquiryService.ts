@@ -0,0 +1,119 @@
+import Lead, { ILead, LeadSource, LeadStatus, PreferredTutor, TuitionMode } from '../models/Lead';
+import logger from '../config/logger';
+import { createLead } from './leadService';
+import { ensureFollowUpScheduled } from './leadFollowUpService';
+import { createNotification } from './notificationService';
+import { ValidationError } from '../utils/errors';
+import { normalizePhone, normalizePhones } from '../utils/phone';
+import { NotificationCategory, NotificationPriority, NotificationType } from '../types/enums';
+
+// Shape of the website enquiry form; deliberately flatter than the staff lead form
+export interface PublicEnquiryInput {
+  parentName: string;
+  studentName: string;
+  phone: string;
+  alternatePhone?: string;
+  classLevel: string;
+  board: string;
+  subjects?: string[];
+  tuitionMode: TuitionMode;
+  preferredTutor?: PreferredTutor;
+  city?: string;
+  area?: string;
+  pinCode?: string;
+  address?: string;
+  preferredTimeSlots?: string[];
+  message?: string;
+}
+
+export type PublicEnquiryOutcome = 'created' | 'duplicate';
+
+export interface PublicEnquiryResult {
+  outcome: PublicEnquiryOutcome;
+  leadId: string;
+}
+
+const ENQUIRY_ASSIGNMENT_NOTE = 'New website enquiry, please call the parent back';
+
+// A parent who submits the form again while their lead is still open
+async function findOpenLeadByPhone(phones: string[]): Promise<ILead | null> {
+  return Lead.findOne({
+    normalizedPhones: { $in: phones },
+    isConverted: { $ne: true },
+    mergedInto: { $exists: false },
+  }).sort({ createdAt: -1 });
+}
+
+async function notifyRepeatEnquiry(lead: ILead, input: PublicEnquiryInput): Promise<void> {
+  if (!lead.leadAssignedTo) return;
+  const leadId = String(lead._id);
+  try {
+    await createNotification({
+      userId: lead.leadAssignedTo.toString(),
+      type: NotificationType.IN_APP,
+      category: NotificationCategory.LEAD_ASSIGNMENT,
+      priority: NotificationPriority.HIGH,
+      title: 'Parent enquired again on the website',
+      message: `${input.parentName} (${input.phone}) submitted another enquiry for ${
+        input.studentName
+      }${input.message ? `: ${input.message}` : ''}`,
+      metadata: { leadId, actionUrl: `/leads/${leadId}` },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to notify owner of repeat enquiry on lead ${leadId}:`, error);
+  }
+}
+
+/**
+ * Turn a website enquiry into a lead. A repeat submission from a phone number
+ * that already has an open lead does not create a second lead; the owner of
+ * the existing one is told the parent got in touch again instead.
+ */
+export async function submitPublicEnquiry(input: PublicEnquiryInput): Promise<PublicEnquiryResult> {
+  const contactNumber = normalizePhone(input.phone);
+  if (!contactNumber) {
+    throw new ValidationError('Validation failed', [
+      { field: 'phone', message: 'phone must contain at least 10 digits' },
+    ]);
+  }
+  const alternateNumber = normalizePhone(input.alternatePhone) || undefined;
+
+  const existing = await findOpenLeadByPhone(normalizePhones(contactNumber, alternateNumber));
+  if (existing) {
+    await notifyRepeatEnquiry(existing, input);
+    await ensureFollowUpScheduled(existing);
+    logger.info('Suppressed duplicate website enquiry', { leadId: String(existing._id) });
+    return { outcome: 'duplicate', leadId: String(existing._id) };
+  }
+
+  const { lead } = await createLead({
+    data: {
+      parentsName: input.parentName,
+      studentName: input.studentName,
+      contactNumber,
+      alternateNumber,
+      classAndBoard: { classLevel: input.classLevel, board: input.board },
+      subjectsRequired: input.subjects,
+      preferredTuitionMode: input.tuitionMode,
+      preferredTutor: input.preferredTutor || PreferredTutor.NO_PREFERENCE,
+      classLocation: {
+        addressText: input.address,
+        city: input.city,
+        area: input.area,
+        pinCode: input.pinCode,
+      },
+      preferredTimeSlots: input.preferredTimeSlots,
+      parentsCustomizedDemands: input.message,
+      leadSource: LeadSource.WEBSITE,
+      leadStatus: LeadStatus.ENQUIRY,
+      paymentReceived: { received: false },
+    },
+    assignmentNote: ENQUIRY_ASSIGNMENT_NOTE,
+  });
+
+  if (!lead.leadAssignedTo) {
+    logger.warn('Website enquiry created without an owner', { leadId: String(lead._id) });
+  }
+  return { outcome: 'created', leadId: String(lead._id) };
+}
@@ -0,0 +1,442 @@
+import mongoose from 'mongoose';
+import logger from '../config/logger';
+import FinalClass, { ClassStatus, IFinalClass, IRenewalPayment } from '../models/FinalClass';
+import Invoice, { InvoiceStatus } from '../models/Invoice';
+import { ILead } from '../models/Lead';
+import { IUser } from '../models/User';
+import { LeadActivityType } from '../models/LeadActivity';
+import LeadFollowUp from '../models/LeadFollowUp';
+import { addLeadActivity } from './leadActivityService';
+import { sendClassRenewalReminderEmail } from './emailService';
+import { createNotification } from './notificationService';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { NotificationCategory, NotificationPriority, NotificationType } from '../types/enums';
+
+export interface RecordRenewalPaymentParams {
+  finalClassId: string;
+  amount: number;
+  paymentMode?: string;
+  paymentReference?: string;
+  paidAt?: Date;
+  recordedBy: string;
+}
+
+export type RenewalPaymentInput = Pick<
+  IRenewalPayment,
+  'amount' | 'paymentMode' | 'paymentReference' | 'invoice' | 'paidAt' | 'recordedBy'
+>;
+
+export interface RenewalCycleResult {
+  refreshed: number;
+  reminded: number;
+  lapsed: number;
+  failed: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CLASSES_PER_RUN = 500;
+
+function getReminderDays(): number {
+  const days = Number(process.env.FINAL_CLASS_RENEWAL_REMINDER_DAYS || 3);
+  return Number.isFinite(days) && days >= 0 ? days : 3;
+}
+
+function getGraceDays(): number {
+  const days = Number(process.env.FINAL_CLASS_RENEWAL_GRACE_DAYS || 5);
+  return Number.isFinite(days) && days >= 0 ? days : 5;
+}
+
+export function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return startOfDay(a).getTime() === startOfDay(b).getTime();
+}
+
+/**
+ * One calendar month after the cycle start, clamped to the end of a shorter
+ * month (31 Jan -> 28/29 Feb) instead of spilling into the next one.
+ */
+export function nextRenewalDate(cycleStart: Date): Date {
+  const start = new Date(cycleStart);
+  const renew = new Date(start);
+  renew.setDate(1);
+  renew.setMonth(renew.getMonth() + 1);
+  const lastDay = new Date(renew.getFullYear(), renew.getMonth() + 1, 0).getDate();
+  renew.setDate(Math.min(start.getDate(), lastDay));
+  return renew;
+}
+
+// Whole days from today until the renewal date; 0 once it has passed
+export function daysUntilRenewal(renewDate?: Date, now = new Date()): number | undefined {
+  if (!renewDate) return undefined;
+  const diff = new Date(renewDate).getTime() - now.getTime();
+  return Math.max(Math.ceil(diff / DAY_MS), 0);
+}
+
+function formatDay(date: Date): string {
+  return new Date(date).toLocaleDateString('en-IN', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric',
+  });
+}
+
+async function notifyClassOwner(
+  lead: ILead | null,
+  finalClass: IFinalClass,
+  title: string,
+  message: string,
+  priority: NotificationPriority
+): Promise<void> {
+  if (!lead?.leadAssignedTo) {
+    logger.warn('Final class has no lead owner to notify', {
+      finalClassId: String(finalClass._id),
+    });
+    return;
+  }
+  await createNotification({
+    userId: lead.leadAssignedTo.toString(),
+    type: NotificationType.IN_APP,
+    category: NotificationCategory.CLASS_RENEWAL,
+    priority,
+    title,
+    message,
+    metadata: {
+      leadId: String(lead._id),
+      finalClassId: String(finalClass._id),
+      actionUrl: `/classes/${String(finalClass._id)}`,
+    },
+  });
+}
+
+// Lapsed classes are reactivated by their renewal; ones deactivated by staff are not
+export function assertRenewable(finalClass: IFinalClass): void {
+  if (finalClass.classStatus !== ClassStatus.ACTIVE && !finalClass.lapsedAt) {
+    throw new ConflictError('Class is inactive; activate it before recording a renewal');
+  }
+}
+
+/**
+ * Roll the class into its next monthly cycle after a renewal payment. A class
+ * that lapsed for non-payment restarts from the payment day and is reactivated.
+ */
+export async function applyRenewalPayment(
+  finalClass: IFinalClass,
+  payment: RenewalPaymentInput
+): Promise<IFinalClass> {
+  assertRenewable(finalClass);
+  if (!finalClass.monthRenewDate) {
+    throw new BadRequestError('Class has no renewal date; set monthStartDate first');
+  }
+
+  const lapsed = Boolean(finalClass.lapsedAt);
+  const periodStart = lapsed ? startOfDay(payment.paidAt) : finalClass.monthRenewDate;
+  const periodEnd = nextRenewalDate(periodStart);
+
+  finalClass.renewalPayments.push({ ...payment, periodStart, periodEnd });
+  finalClass.monthStartDate = periodStart;
+  finalClass.monthRenewDate = periodEnd;
+  finalClass.daysLeftUntilRenewal = daysUntilRenewal(periodEnd);
+  finalClass.renewalReminderSentAt = undefined;
+  finalClass.parentApprovedCurrentMonth = false;
+
+  if (lapsed) {
+    finalClass.statusHistory.push({
+      from: finalClass.classStatus,
+      to: ClassStatus.ACTIVE,
+      reason: 'Renewal payment received',
+      changedBy: payment.recordedBy,
+      changedAt: new Date(),
+    });
+    finalClass.classStatus = ClassStatus.ACTIVE;
+    finalClass.lapsedAt = undefined;
+  }
+
+  await finalClass.save();
+  return finalClass;
+}
+
+export async function recordRenewalPayment(
+  params: RecordRenewalPaymentParams
+): Promise<IFinalClass> {
+  const finalClass = await FinalClass.findById(params.finalClassId);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+
+  const paidAt = params.paidAt || new Date();
+  await applyRenewalPayment(finalClass, {
+    amount: params.amount,
+    paymentMode: params.paymentMode,
+    paymentReference: params.paymentReference,
+    paidAt,
+    recordedBy: new mongoose.Types.ObjectId(params.recordedBy),
+  });
+
+  await addLeadActivity({
+    leadId: finalClass.lead.toString(),
+    type: LeadActivityType.PAYMENT_RECORDED,
+    authorId: params.recordedBy,
+    content: `Renewal of class ${finalClass.classId} until ${formatDay(finalClass.monthRenewDate!)}`,
+    payment: {
+      amount: params.amount,
+      mode: params.paymentMode,
+      reference: params.paymentReference,
+    },
+    occurredAt: paidAt,
+  });
+
+  return finalClass;
+}
+
+// Classes that ran before renewals were tracked are assumed paid up to the
+// cycle containing `now`, so backfilling never lapses them retroactively
+function currentCycle(cycleStart: Date, now: Date): { start: Date; renew: Date } {
+  let start = new Date(cycleStart);
+  let renew = nextRenewalDate(start);
+  while (renew <= now) {
+    start = renew;
+    renew = nextRenewalDate(start);
+  }
+  return { start, renew };
+}
+
+/**
+ * Fill in missing renewal dates from the cycle start and recompute
+ * daysLeftUntilRenewal for every active class.
+ */
+export async function refreshRenewalCountdowns(now: Date = new Date()): Promise<number> {
+  const classes = await FinalClass.find({
+    classStatus: ClassStatus.ACTIVE,
+    $or: [
+      { monthRenewDate: { $exists: true } },
+      { monthStartDate: { $exists: true } },
+      { firstMonthStartDate: { $exists: true } },
+    ],
+  })
+    .select('monthStartDate firstMonthStartDate monthRenewDate daysLeftUntilRenewal')
+    .lean();
+
+  const ops: any[] = [];
+  classes.forEach((c) => {
+    const set: Record<string, any> = {};
+    let renewDate = c.monthRenewDate;
+    if (!renewDate) {
+      const cycle = currentCycle((c.monthStartDate || c.firstMonthStartDate)!, now);
+      set.monthStartDate = cycle.start;
+      set.monthRenewDate = cycle.renew;
+      renewDate = cycle.renew;
+    }
+    const daysLeft = daysUntilRenewal(renewDate, now);
+    if (daysLeft !== c.daysLeftUntilRenewal) set.daysLeftUntilRenewal = daysLeft;
+
+    if (Object.keys(set).length > 0) {
+      ops.push({ updateOne: { filter: { _id: c._id }, update: { $set: set } } });
+    }
+  });
+
+  if (ops.length > 0) await FinalClass.bulkWrite(ops);
+  return ops.length;
+}
+
+// In-app and by email; classes converted without a parent account skip this
+async function remindParent(
+  finalClass: IFinalClass,
+  lead: ILead | null,
+  renewOn: string,
+  daysLeft: number
+): Promise<void> {
+  const parent = finalClass.parent as unknown as IUser | null | undefined;
+  if (!parent?.isActive) return;
+
+  const studentName = lead?.studentName || 'Your child';
+  await createNotification({
+    userId: String(parent._id),
+    type: NotificationType.IN_APP,
+    category: NotificationCategory.CLASS_RENEWAL,
+    priority: NotificationPriority.MEDIUM,
+    title: 'Class renewal due',
+    message: `${studentName}'s class ${finalClass.classId} renews on ${renewOn} (${daysLeft} days left).`,
+    metadata: {
+      finalClassId: String(finalClass._id),
+      actionUrl: `/parent/classes/${String(finalClass._id)}`,
+    },
+  });
+  const email = await sendClassRenewalReminderEmail({
+    to: parent.email,
+    name: parent.profile?.firstName || lead?.parentsName || 'Parent',
+    classId: finalClass.classId,
+    studentName,
+    renewOn,
+    daysLeft,
+  });
+  if (!email.success) {
+    logger.warn('Renewal reminder email to parent failed', {
+      finalClassId: String(finalClass._id),
+      error: email.error,
+    });
+  }
+}
+
+/**
+ * Remind the lead owner (the coordinator looking after the family) once per
+ * cycle when a class is about to renew, and queue a follow-up to remind the
+ * parent by phone. A parent with a portal account is also reminded directly.
+ */
+export async function sendRenewalReminders(
+  now: Date = new Date()
+): Promise<{ sent: number; failed: number }> {
+  const remindBefore = new Date(now.getTime() + getReminderDays() * DAY_MS);
+  const due = await FinalClass.find({
+    classStatus: ClassStatus.ACTIVE,
+    renewalReminderSentAt: { $exists: false },
+    monthRenewDate: { $lte: remindBefore },
+  })
+    .populate('lead', 'parentsName studentName contactNumber leadAssignedTo')
+    .populate('parent', 'email profile.firstName isActive')
+    .limit(MAX_CLASSES_PER_RUN);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const finalClass of due) {
+    const lead = finalClass.lead as unknown as ILead | null;
+    const renewOn = formatDay(finalClass.monthRenewDate!);
+    const daysLeft = daysUntilRenewal(finalClass.monthRenewDate, now) ?? 0;
+    try {
+      await notifyClassOwner(
+        lead,
+        finalClass,
+        'Class renewal due',
+        `Class ${finalClass.classId} for ${lead?.studentName || 'the student'} renews on ${renewOn} (${daysLeft} days left). Collect the renewal fee from ${lead?.parentsName || 'the parent'} (${
+          lead?.contactNumber || 'n/a'
+        }).`,
+        NotificationPriority.MEDIUM
+      );
+
+      if (lead?.leadAssignedTo) {
+        // The owner was just notified, so the follow-up job need not remind them again
+        await LeadFollowUp.create({
+          lead: lead._id,
+          assignedTo: lead.leadAssignedTo,
+          dueAt: now,
+          purpose: `Remind parent that class ${finalClass.classId} renews on ${renewOn}`,
+          reminderSentAt: now,
+        });
+      }
+
+      finalClass.renewalReminderSentAt = now;
+      await finalClass.save();
+      sent++;
+    } catch (error) {
+      failed++;
+      // eslint-disable-next-line no-console
+      console.error(`Failed to send renewal reminder for class ${finalClass.classId}:`, error);
+      continue;
+    }
+
+    // The coordinator already has the reminder, so a failure here is only logged
+    try {
+      await remindParent(finalClass, lead, renewOn, daysLeft);
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to remind parent of class ${finalClass.classId}:`, error);
+    }
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Deactivate classes whose renewal invoice was issued but is still unpaid
+ * more than the grace period after the renewal date. Classes with no renewal
+ * invoice for the current cycle were never billed, so they are left alone.
+ */
+export async function lapseUnpaidClasses(
+  now: Date = new Date()
+): Promise<{ lapsed: number; failed: number }> {
+  const graceDays = getGraceDays();
+  const cutoff = new Date(now.getTime() - graceDays * DAY_MS);
+  const unpaid = await Invoice.find({
+    status: InvoiceStatus.ISSUED,
+    finalClass: { $exists: true },
+    periodStart: { $lt: cutoff },
+  })
+    .select('finalClass periodStart')
+    .lean();
+  if (unpaid.length === 0) return { lapsed: 0, failed: 0 };
+
+  const candidates = await FinalClass.find({
+    _id: { $in: unpaid.map((invoice) => invoice.finalClass) },
+    classStatus: ClassStatus.ACTIVE,
+    monthRenewDate: { $lt: cutoff },
+  }).populate('lead', 'parentsName studentName leadAssignedTo');
+  // Only the invoice for the cycle starting on the renewal date counts
+  const overdue = candidates
+    .filter((finalClass) =>
+      unpaid.some(
+        (invoice) =>
+          String(invoice.finalClass) === String(finalClass._id) &&
+          isSameDay(invoice.periodStart, finalClass.monthRenewDate!)
+      )
+    )
+    .slice(0, MAX_CLASSES_PER_RUN);
+
+  let lapsed = 0;
+  let failed = 0;
+
+  for (const finalClass of overdue) {
+    const lead = finalClass.lead as unknown as ILead | null;
+    const dueOn = formatDay(finalClass.monthRenewDate!);
+    try {
+      finalClass.statusHistory.push({
+        from: ClassStatus.ACTIVE,
+        to: ClassStatus.INACTIVE,
+        reason: `Renewal due ${dueOn} not paid within ${graceDays} days`,
+        changedAt: now,
+      });
+      finalClass.classStatus = ClassStatus.INACTIVE;
+      finalClass.lapsedAt = now;
+      finalClass.daysLeftUntilRenewal = 0;
+      await finalClass.save();
+      lapsed++;
+    } catch (error) {
+      failed++;
+      // eslint-disable-next-line no-console
+      console.error(`Failed to lapse class ${finalClass.classId}:`, error);
+      continue;
+    }
+
+    try {
+      await notifyClassOwner(
+        lead,
+        finalClass,
+        'Class deactivated for non-payment',
+        `Class ${finalClass.classId} for ${lead?.studentName || 'the student'} was deactivated: the renewal due ${dueOn} was not paid. Recording the payment reactivates it.`,
+        NotificationPriority.HIGH
+      );
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error(`Failed to notify owner of lapsed class ${finalClass.classId}:`, error);
+    }
+  }
+
+  return { lapsed, failed };
+}
+
+// Scheduled entry point: countdowns first so reminders and lapses see fresh dates
+export async function runRenewalCycle(now: Date = new Date()): Promise<RenewalCycleResult> {
+  const refreshed = await refreshRenewalCountdowns(now);
+  const reminders = await sendRenewalReminders(now);
+  const lapses = await lapseUnpaidClasses(now);
+  return {
+    refreshed,
+    reminded: reminders.sent,
+    lapsed: lapses.lapsed,
+    failed: reminders.failed + lapses.failed,
+  };
+}
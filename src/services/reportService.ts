@@ -5,6 +5,9 @@ import Course from '../models/Course';
 import { Assignment } from '../models/Assignment';
 import Class from '../models/Class';
 import User from '../models/User';
+import Lead, { LeadSource, LeadStatus } from '../models/Lead';
+import FinalClass from '../models/FinalClass';
+import { escapeRegex } from '../utils/regex';
 import { AttendanceStatus, SubmissionStatus, UserRole } from '../types/enums';
 
 // TypeScript Interfaces
@@ -103,6 +106,58 @@ export interface AttendanceStatisticsReport {
   }>;
 }
 
+export interface LeadFunnelFilters {
+  startDate?: Date;
+  endDate?: Date;
+  leadSource?: LeadSource;
+  coordinatorId?: string;
+  city?: string;
+}
+
+export interface LeadFunnelCounts {
+  total: number;
+  demoScheduled: number;
+  demoApproved: number;
+  converted: number;
+  demoRejected: number;
+  tutorNotFound: number;
+  parentDidntRespond: number;
+}
+
+export interface LeadFunnelBreakdownRow extends LeadFunnelCounts {
+  key: string;
+  label: string;
+  conversionRate: number;
+}
+
+export interface LeadFunnelReport {
+  totals: LeadFunnelCounts;
+  stages: Array<{
+    stage: 'enquiry' | 'demoScheduled' | 'demoApproved' | 'converted';
+    count: number;
+    rateFromPrevious: number;
+    rateFromTotal: number;
+  }>;
+  currentStatusDistribution: Record<string, number>;
+  transitions: Array<{
+    from: LeadStatus;
+    to: LeadStatus;
+    count: number;
+    rate: number; // share of leads that were ever in "from"
+  }>;
+  breakdown: {
+    bySource: LeadFunnelBreakdownRow[];
+    byCity: LeadFunnelBreakdownRow[];
+    bySubject: LeadFunnelBreakdownRow[];
+    byCoordinator: LeadFunnelBreakdownRow[];
+    byMonth: LeadFunnelBreakdownRow[];
+  };
+  timing: {
+    enquiryToDemoDays: { median: number | null; sampleSize: number };
+    demoToConversionDays: { median: number | null; sampleSize: number };
+  };
+}
+
 // Service Functions
 
 export async function getStudentPerformanceReport(
@@ -1066,3 +1121,304 @@ export async function getClassPerformanceReport(classId: string): Promise<{
     throw new Error(error.message || 'Failed to generate class performance report');
   }
 }
+
+function toPercent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  return Math.round(value * 100) / 100;
+}
+
+// 1 when the lead is, or ever was, in one of the statuses
+function reachedStatus(...statuses: LeadStatus[]): any {
+  return {
+    $cond: [
+      {
+        $or: statuses.flatMap((status) => [
+          { $eq: ['$leadStatus', status] },
+          { $in: [status, { $ifNull: ['$statusHistory.to', []] }] },
+        ]),
+      },
+      1,
+      0,
+    ],
+  };
+}
+
+const FUNNEL_COUNT_GROUP = {
+  total: { $sum: 1 },
+  demoScheduled: { $sum: '$funnel.demoScheduled' },
+  demoApproved: { $sum: '$funnel.demoApproved' },
+  converted: { $sum: '$funnel.converted' },
+  demoRejected: { $sum: '$funnel.demoRejected' },
+  tutorNotFound: { $sum: '$funnel.tutorNotFound' },
+  parentDidntRespond: { $sum: '$funnel.parentDidntRespond' },
+};
+
+function toFunnelCounts(row: any): LeadFunnelCounts {
+  return {
+    total: row?.total || 0,
+    demoScheduled: row?.demoScheduled || 0,
+    demoApproved: row?.demoApproved || 0,
+    converted: row?.converted || 0,
+    demoRejected: row?.demoRejected || 0,
+    tutorNotFound: row?.tutorNotFound || 0,
+    parentDidntRespond: row?.parentDidntRespond || 0,
+  };
+}
+
+function toBreakdownRows(rows: any[], labels?: Map<string, string>): LeadFunnelBreakdownRow[] {
+  return rows
+    .map((row) => {
+      const key = row._id === null || row._id === undefined || row._id === '' ? 'unknown' : String(row._id);
+      const counts = toFunnelCounts(row);
+      return {
+        key,
+        label: labels?.get(key) || (key === 'unknown' ? 'Unknown' : String(row.label || key)),
+        ...counts,
+        conversionRate: toPercent(counts.converted, counts.total),
+      };
+    })
+    .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Sales funnel over leads: how many reached each stage, status-to-status
+ * conversion, per-dimension breakdowns and median stage durations.
+ * Merged leads are excluded; a lead counts for every stage it ever reached.
+ */
+export async function getLeadFunnelReport(filters: LeadFunnelFilters = {}): Promise<LeadFunnelReport> {
+  try {
+    const match: any = { mergedInto: { $exists: false } };
+    if (filters.startDate || filters.endDate) {
+      match.createdAt = {};
+      if (filters.startDate) match.createdAt.$gte = filters.startDate;
+      if (filters.endDate) match.createdAt.$lte = filters.endDate;
+    }
+    if (filters.leadSource) match.leadSource = filters.leadSource;
+    if (filters.coordinatorId) match.leadAssignedTo = new mongoose.Types.ObjectId(filters.coordinatorId);
+    if (filters.city) {
+      match['classLocation.city'] = { $regex: `^${escapeRegex(filters.city.trim())}$`, $options: 'i' };
+    }
+
+    const converted = { $cond: [{ $eq: ['$isConverted', true] }, 1, 0] };
+    const withFunnel = [
+      { $match: match },
+      {
+        $addFields: {
+          funnel: {
+            converted,
+            // Approval and rejection both imply a demo took place (older leads have no history)
+            demoScheduled: {
+              $max: [
+                reachedStatus(
+                  LeadStatus.DEMO_SCHEDULE,
+                  LeadStatus.DEMO_APPROVED_BY_PARENT,
+                  LeadStatus.DEMO_REJECTED_BY_PARENT
+                ),
+                converted,
+              ],
+            },
+            demoApproved: { $max: [reachedStatus(LeadStatus.DEMO_APPROVED_BY_PARENT), converted] },
+            demoRejected: reachedStatus(LeadStatus.DEMO_REJECTED_BY_PARENT),
+            tutorNotFound: reachedStatus(LeadStatus.TUTOR_NOT_FOUND_FOR_DEMO),
+            parentDidntRespond: reachedStatus(LeadStatus.PARENT_DIDNT_RESPOND),
+          },
+        },
+      },
+    ];
+
+    const [facets] = await Lead.aggregate([
+      ...withFunnel,
+      {
+        $facet: {
+          totals: [{ $group: { _id: null, ...FUNNEL_COUNT_GROUP } }],
+          currentStatus: [{ $group: { _id: '$leadStatus', count: { $sum: 1 } } }],
+          reachedByStatus: [
+            { $project: { statuses: { $setUnion: [{ $ifNull: ['$statusHistory.to', []] }, ['$leadStatus']] } } },
+            { $unwind: '$statuses' },
+            { $group: { _id: '$statuses', count: { $sum: 1 } } },
+          ],
+          transitions: [
+            { $unwind: '$statusHistory' },
+            { $match: { 'statusHistory.from': { $exists: true, $ne: null } } },
+            // count each lead once per transition even if it repeated
+            {
+              $group: {
+                _id: { lead: '$_id', from: '$statusHistory.from', to: '$statusHistory.to' },
+              },
+            },
+            { $match: { $expr: { $ne: ['$_id.from', '$_id.to'] } } },
+            { $group: { _id: { from: '$_id.from', to: '$_id.to' }, count: { $sum: 1 } } },
+          ],
+          bySource: [{ $group: { _id: '$leadSource', ...FUNNEL_COUNT_GROUP } }],
+          byCity: [
+            {
+              $group: {
+                _id: { $toLower: { $trim: { input: { $ifNull: ['$classLocation.city', ''] } } } },
+                label: { $first: '$classLocation.city' },
+                ...FUNNEL_COUNT_GROUP,
+              },
+            },
+          ],
+          bySubject: [
+            { $unwind: { path: '$subjectsRequired', preserveNullAndEmptyArrays: true } },
+            {
+              $group: {
+                _id: { $toLower: { $trim: { input: { $ifNull: ['$subjectsRequired', ''] } } } },
+                label: { $first: '$subjectsRequired' },
+                ...FUNNEL_COUNT_GROUP,
+              },
+            },
+          ],
+          byCoordinator: [{ $group: { _id: '$leadAssignedTo', ...FUNNEL_COUNT_GROUP } }],
+          byMonth: [
+            {
+              $group: {
+                _id: { $dateToString: { format: '%Y-%m', date: '$createdAt' } },
+                ...FUNNEL_COUNT_GROUP,
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const totals = toFunnelCounts(facets.totals[0]);
+    const stageCounts: Array<[LeadFunnelReport['stages'][number]['stage'], number]> = [
+      ['enquiry', totals.total],
+      ['demoScheduled', totals.demoScheduled],
+      ['demoApproved', totals.demoApproved],
+      ['converted', totals.converted],
+    ];
+    const stages = stageCounts.map(([stage, count], idx) => ({
+      stage,
+      count,
+      rateFromPrevious: idx === 0 ? 100 : toPercent(count, stageCounts[idx - 1][1]),
+      rateFromTotal: toPercent(count, totals.total),
+    }));
+
+    const currentStatusDistribution: Record<string, number> = {};
+    Object.values(LeadStatus).forEach((status) => {
+      currentStatusDistribution[status] = 0;
+    });
+    facets.currentStatus.forEach((row: any) => {
+      currentStatusDistribution[row._id] = row.count;
+    });
+
+    const reached = new Map<string, number>(facets.reachedByStatus.map((row: any) => [row._id, row.count]));
+    const transitions = facets.transitions
+      .map((row: any) => ({
+        from: row._id.from as LeadStatus,
+        to: row._id.to as LeadStatus,
+        count: row.count as number,
+        rate: toPercent(row.count, reached.get(row._id.from) || 0),
+      }))
+      .sort((a: any, b: any) => a.from.localeCompare(b.from) || b.count - a.count);
+
+    const coordinatorIds = facets.byCoordinator
+      .map((row: any) => row._id)
+      .filter((id: any) => id);
+    const coordinators = await User.find({ _id: { $in: coordinatorIds } }).select('profile.firstName profile.lastName email');
+    const coordinatorNames = new Map<string, string>(
+      coordinators.map((u: any) => [
+        String(u._id),
+        [u.profile?.firstName, u.profile?.lastName].filter(Boolean).join(' ') || u.email,
+      ])
+    );
+
+    const timing = await getLeadFunnelTiming(withFunnel);
+
+    return {
+      totals,
+      stages,
+      currentStatusDistribution,
+      transitions,
+      breakdown: {
+        bySource: toBreakdownRows(facets.bySource),
+        byCity: toBreakdownRows(facets.byCity),
+        bySubject: toBreakdownRows(facets.bySubject),
+        byCoordinator: toBreakdownRows(facets.byCoordinator, coordinatorNames),
+        byMonth: toBreakdownRows(facets.byMonth).sort((a, b) => a.key.localeCompare(b.key)),
+      },
+      timing,
+    };
+  } catch (error: any) {
+    throw new Error(error.message || 'Failed to generate lead funnel report');
+  }
+}
+
+/**
+ * Median days from enquiry to first demo booking (leads created as enquiries)
+ * and from first demo booking to conversion (FinalClass creation).
+ */
+async function getLeadFunnelTiming(pipeline: any[]): Promise<LeadFunnelReport['timing']> {
+  const rows = await Lead.aggregate([
+    ...pipeline,
+    { $match: { 'funnel.demoScheduled': 1 } },
+    {
+      $project: {
+        createdAt: 1,
+        isConverted: 1,
+        initialStatus: { $arrayElemAt: [{ $ifNull: ['$statusHistory.to', []] }, 0] },
+        firstDemoAt: {
+          $min: {
+            $map: {
+              input: {
+                $filter: {
+                  input: { $ifNull: ['$statusHistory', []] },
+                  as: 'h',
+                  cond: { $eq: ['$$h.to', LeadStatus.DEMO_SCHEDULE] },
+                },
+              },
+              as: 'h',
+              in: '$$h.changedAt',
+            },
+          },
+        },
+      },
+    },
+    { $match: { firstDemoAt: { $ne: null } } },
+    {
+      $lookup: {
+        from: FinalClass.collection.name,
+        localField: '_id',
+        foreignField: 'lead',
+        as: 'finalClasses',
+      },
+    },
+    {
+      $project: {
+        createdAt: 1,
+        isConverted: 1,
+        initialStatus: 1,
+        firstDemoAt: 1,
+        convertedAt: { $min: '$finalClasses.createdAt' },
+      },
+    },
+  ]);
+
+  const dayMs = 24 * 60 * 60 * 1000;
+  const enquiryToDemo: number[] = [];
+  const demoToConversion: number[] = [];
+  rows.forEach((row: any) => {
+    const demoAt = new Date(row.firstDemoAt).getTime();
+    if (row.initialStatus === LeadStatus.ENQUIRY) {
+      enquiryToDemo.push((demoAt - new Date(row.createdAt).getTime()) / dayMs);
+    }
+    if (row.isConverted && row.convertedAt) {
+      demoToConversion.push((new Date(row.convertedAt).getTime() - demoAt) / dayMs);
+    }
+  });
+
+  return {
+    enquiryToDemoDays: { median: median(enquiryToDemo), sampleSize: enquiryToDemo.length },
+    demoToConversionDays: { median: median(demoToConversion), sampleSize: demoToConversion.length },
+  };
+}
+
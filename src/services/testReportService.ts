@@ -0,0 +1,205 @@
+import mongoose from 'mongoose';
+import FinalClass, { ClassStatus, IFinalClass, ITestReport } from '../models/FinalClass';
+import Lead from '../models/Lead';
+import User from '../models/User';
+import { createNotification } from './notificationService';
+import { deleteFromCloudinary, uploadToCloudinary } from '../utils/fileUpload';
+import {
+  BadRequestError,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../utils/errors';
+import {
+  FileCategory,
+  NotificationCategory,
+  NotificationPriority,
+  NotificationType,
+  UserRole,
+} from '../types/enums';
+
+export interface ScheduleTestParams {
+  finalClassId: string;
+  testDate: Date;
+  testTutorId: string;
+}
+
+export interface AddTestReportParams {
+  finalClassId: string;
+  file?: Express.Multer.File;
+  monthLabel?: string;
+  notes?: string;
+  uploadedBy: string;
+}
+
+export interface UpdateTestReportParams {
+  finalClassId: string;
+  reportId: string;
+  notes: string;
+}
+
+const TEST_REPORT_FOLDER = 'yourshikshak/final-classes/test-reports';
+
+function monthLabel(date: Date): string {
+  return new Date(date).toLocaleString('en-IN', { month: 'long', year: 'numeric' });
+}
+
+async function getFinalClassOrThrow(finalClassId: string): Promise<IFinalClass> {
+  const finalClass = await FinalClass.findById(finalClassId);
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+  return finalClass;
+}
+
+async function removeReportFile(
+  report: Pick<ITestReport, 'reportUrl' | 'reportPublicId'>
+): Promise<void> {
+  if (!report.reportPublicId) return;
+  const resourceType = report.reportUrl?.includes('/raw/upload/') ? 'raw' : 'image';
+  const result = await deleteFromCloudinary({ publicId: report.reportPublicId, resourceType });
+  if (!result.success) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to delete replaced test report ${report.reportPublicId}:`, result.error);
+  }
+}
+
+/**
+ * Schedule this month's test and tell the test tutor. Rescheduling replaces
+ * the date and tutor; reports already uploaded are kept.
+ */
+export async function scheduleTest(params: ScheduleTestParams): Promise<IFinalClass> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  if (finalClass.classStatus !== ClassStatus.ACTIVE) {
+    throw new ConflictError('Class is inactive');
+  }
+
+  const tutor = await User.findById(params.testTutorId);
+  if (!tutor || tutor.role !== UserRole.TEACHER) {
+    throw new NotFoundError('Tutor');
+  }
+  if (!tutor.isActive) {
+    throw new ConflictError('Tutor account is not active');
+  }
+
+  finalClass.testDate = params.testDate;
+  finalClass.testTutorAssigned = tutor._id as mongoose.Types.ObjectId;
+  await finalClass.save();
+
+  const lead = await Lead.findById(finalClass.lead).select('studentName classAndBoard');
+  try {
+    await createNotification({
+      userId: String(tutor._id),
+      type: NotificationType.IN_APP,
+      category: NotificationCategory.CLASS_SCHEDULED,
+      priority: NotificationPriority.MEDIUM,
+      title: 'Monthly test assigned',
+      message: `You are taking the monthly test for ${lead?.studentName || 'a student'} (class ${
+        finalClass.classId
+      }) on ${params.testDate.toLocaleString()}`,
+      metadata: {
+        finalClassId: String(finalClass._id),
+        actionUrl: `/classes/${String(finalClass._id)}`,
+      },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to notify test tutor for class ${finalClass.classId}:`, error);
+  }
+
+  return finalClass;
+}
+
+/**
+ * Add the report for one month, or replace the file and notes of a month that
+ * already has one. The month defaults to that of the scheduled test.
+ */
+export async function addTestReport(params: AddTestReportParams): Promise<ITestReport> {
+  if (!params.file && !params.notes?.trim()) {
+    throw new BadRequestError('Upload a report file or add notes');
+  }
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  const label = params.monthLabel?.trim() || monthLabel(finalClass.testDate || new Date());
+
+  let upload: { url: string; publicId?: string } | undefined;
+  if (params.file) {
+    const result = await uploadToCloudinary({
+      file: params.file,
+      category: FileCategory.DOCUMENT,
+      customFolder: TEST_REPORT_FOLDER,
+    });
+    if (!result.success || !result.url) {
+      throw new ServiceUnavailableError(result.error || 'Failed to upload test report');
+    }
+    upload = { url: result.url, publicId: result.publicId };
+  }
+
+  const uploadedBy = new mongoose.Types.ObjectId(params.uploadedBy);
+  let report = finalClass.testReports.find(
+    (r) => r.monthLabel.toLowerCase() === label.toLowerCase()
+  );
+  const replaced =
+    report && upload
+      ? { reportUrl: report.reportUrl, reportPublicId: report.reportPublicId }
+      : undefined;
+  if (report) {
+    if (upload) {
+      report.reportUrl = upload.url;
+      report.reportPublicId = upload.publicId;
+    }
+    if (params.notes !== undefined) report.notes = params.notes;
+    report.uploadedBy = uploadedBy;
+    report.uploadedAt = new Date();
+  } else {
+    finalClass.testReports.push({
+      monthLabel: label,
+      testDate: finalClass.testDate,
+      testTutor: finalClass.testTutorAssigned,
+      reportUrl: upload?.url,
+      reportPublicId: upload?.publicId,
+      notes: params.notes,
+      uploadedBy,
+      uploadedAt: new Date(),
+    });
+    report = finalClass.testReports[finalClass.testReports.length - 1];
+  }
+  await finalClass.save();
+
+  if (replaced) await removeReportFile(replaced);
+  return report;
+}
+
+export async function updateTestReportNotes(params: UpdateTestReportParams): Promise<ITestReport> {
+  const finalClass = await getFinalClassOrThrow(params.finalClassId);
+  const report = finalClass.testReports.find((r) => String(r._id) === params.reportId);
+  if (!report) {
+    throw new NotFoundError('Test report');
+  }
+  report.notes = params.notes;
+  await finalClass.save();
+  return report;
+}
+
+// Month by month, latest first
+export async function listTestReports(finalClassId: string) {
+  const finalClass = await FinalClass.findById(finalClassId)
+    .select('classId testDate testTutorAssigned testReports')
+    .populate('testTutorAssigned', 'profile.firstName profile.lastName email')
+    .populate('testReports.testTutor', 'profile.firstName profile.lastName email');
+  if (!finalClass) {
+    throw new NotFoundError('Final class');
+  }
+
+  const reports = [...finalClass.testReports].sort(
+    (a, b) =>
+      new Date(b.testDate || b.uploadedAt).getTime() -
+      new Date(a.testDate || a.uploadedAt).getTime()
+  );
+  return {
+    classId: finalClass.classId,
+    scheduledTest: finalClass.testDate
+      ? { testDate: finalClass.testDate, testTutor: finalClass.testTutorAssigned }
+      : null,
+    reports,
+  };
+}
@@ -0,0 +1,489 @@
+import mongoose from 'mongoose';
+import TutorLeadApplication, {
+  ApplicationDocument,
+  ApplicationStatus,
+  DocumentCheckStatus,
+  IApplicationReviewEntry,
+  ITutorLeadApplication,
+} from '../models/TutorLeadApplication';
+import Tutor, { ITutor } from '../models/Tutor';
+import User, { IUser } from '../models/User';
+import { sendTutorApplicationEmail, TutorApplicationEmailStep } from './emailService';
+import { resolveCityCode } from '../utils/idAllocator';
+import { BadRequestError, ConflictError, NotFoundError } from '../utils/errors';
+import { escapeRegex } from '../utils/regex';
+import { UserRole } from '../types/enums';
+
+export interface ApplicationListFilters {
+  status?: ApplicationStatus;
+  city?: string;
+  subjects?: string[]; // any of
+  qualification?: string;
+  documentsUploaded?: boolean; // both Aadhaar and avatar present, or at least one missing
+  search?: string; // name, email, phone or teacherId
+}
+
+export interface ApplicationListOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface CheckDocumentParams {
+  applicationId: string;
+  document: ApplicationDocument;
+  status: DocumentCheckStatus.VERIFIED | DocumentCheckStatus.REJECTED;
+  note?: string;
+  checkedBy: string;
+}
+
+export interface ReviewDecisionParams {
+  applicationId: string;
+  note?: string;
+  reviewedBy: string;
+}
+
+export interface PromoteApplicationParams extends ReviewDecisionParams {
+  linkExistingAccount?: boolean; // admin confirmed the existing teacher account is the applicant's
+}
+
+export interface PromotionResult {
+  application: ITutorLeadApplication;
+  user: IUser;
+  tutor: ITutor;
+  userCreated: boolean; // false when an existing teacher account was linked
+}
+
+const DEFAULT_APPLICATION_PAGE_SIZE = 20;
+const MAX_APPLICATION_PAGE_SIZE = 100;
+const REVIEWER_FIELDS = 'profile.firstName profile.lastName email';
+
+// Statuses staff can still act on; approved and rejected are final for staff
+const OPEN_STATUSES = [
+  ApplicationStatus.SUBMITTED,
+  ApplicationStatus.UNDER_REVIEW,
+  ApplicationStatus.CHANGES_REQUESTED,
+];
+
+const STATUS_LABELS: Record<ApplicationStatus, string> = {
+  [ApplicationStatus.SUBMITTED]: 'submitted',
+  [ApplicationStatus.UNDER_REVIEW]: 'under review',
+  [ApplicationStatus.CHANGES_REQUESTED]: 'waiting for changes from the applicant',
+  [ApplicationStatus.APPROVED]: 'already approved',
+  [ApplicationStatus.REJECTED]: 'already rejected',
+};
+
+const DOCUMENT_URL_FIELDS: Record<ApplicationDocument, 'aadharUrl' | 'avatarUrl'> = {
+  [ApplicationDocument.AADHAR]: 'aadharUrl',
+  [ApplicationDocument.AVATAR]: 'avatarUrl',
+};
+
+const DOCUMENT_LABELS: Record<ApplicationDocument, string> = {
+  [ApplicationDocument.AADHAR]: 'Aadhaar',
+  [ApplicationDocument.AVATAR]: 'Profile photo',
+};
+
+// Older applications have no status stored; their isVerification says where they are
+function statusCondition(status: ApplicationStatus): Record<string, any> {
+  if (status === ApplicationStatus.APPROVED) {
+    return { $or: [{ status }, { status: { $exists: false }, isVerification: true }] };
+  }
+  if (status === ApplicationStatus.SUBMITTED) {
+    return { $or: [{ status }, { status: { $exists: false }, isVerification: { $ne: true } }] };
+  }
+  return { status };
+}
+
+async function getApplicationOrThrow(applicationId: string): Promise<ITutorLeadApplication> {
+  const application = await TutorLeadApplication.findById(applicationId);
+  if (!application) {
+    throw new NotFoundError('Tutor application');
+  }
+  return application;
+}
+
+function assertOpen(application: ITutorLeadApplication, allowed: ApplicationStatus[] = OPEN_STATUSES): void {
+  if (!allowed.includes(application.status)) {
+    throw new ConflictError(`Application is ${STATUS_LABELS[application.status]}`);
+  }
+}
+
+function addHistory(
+  application: ITutorLeadApplication,
+  entry: Omit<IApplicationReviewEntry, 'fromStatus' | 'at'>
+): void {
+  application.reviewHistory.push({ ...entry, fromStatus: application.status, at: new Date() });
+  application.status = entry.toStatus;
+}
+
+async function emailApplicant(
+  application: ITutorLeadApplication,
+  step: TutorApplicationEmailStep,
+  note?: string
+): Promise<void> {
+  const result = await sendTutorApplicationEmail({
+    to: application.email,
+    name: application.firstName || application.fullName,
+    teacherId: application.teacherId,
+    step,
+    note,
+  });
+  if (!result.success) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to email applicant ${application.teacherId} (${step}):`, result.error);
+  }
+}
+
+// Applications, newest first
+export async function listApplications(
+  filters: ApplicationListFilters,
+  options: ApplicationListOptions = {}
+) {
+  const limit = Math.min(
+    Math.max(options.limit || DEFAULT_APPLICATION_PAGE_SIZE, 1),
+    MAX_APPLICATION_PAGE_SIZE
+  );
+  const page = Math.max(options.page || 1, 1);
+
+  const conditions: Record<string, any>[] = [];
+  if (filters.status) conditions.push(statusCondition(filters.status));
+  if (filters.city) conditions.push({ city: new RegExp(`^${escapeRegex(filters.city.trim())}$`, 'i') });
+  if (filters.subjects && filters.subjects.length > 0) {
+    conditions.push({
+      subjects: { $in: filters.subjects.map((s) => new RegExp(`^${escapeRegex(s.trim())}$`, 'i')) },
+    });
+  }
+  if (filters.qualification) {
+    conditions.push({ qualification: new RegExp(escapeRegex(filters.qualification.trim()), 'i') });
+  }
+  if (filters.documentsUploaded === true) {
+    conditions.push({ aadharUrl: { $nin: [null, ''] }, avatarUrl: { $nin: [null, ''] } });
+  } else if (filters.documentsUploaded === false) {
+    conditions.push({ $or: [{ aadharUrl: { $in: [null, ''] } }, { avatarUrl: { $in: [null, ''] } }] });
+  }
+  if (filters.search) {
+    const pattern = new RegExp(escapeRegex(filters.search.trim()), 'i');
+    conditions.push({
+      $or: [{ fullName: pattern }, { email: pattern }, { phoneNumber: pattern }, { teacherId: pattern }],
+    });
+  }
+  const query = conditions.length > 0 ? { $and: conditions } : {};
+
+  const [applications, total] = await Promise.all([
+    TutorLeadApplication.find(query)
+      .select('-reviewHistory')
+      .sort({ createdAt: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit),
+    TutorLeadApplication.countDocuments(query),
+  ]);
+
+  return { applications, count: applications.length, total, page, totalPages: Math.ceil(total / limit) };
+}
+
+export async function getApplication(applicationId: string): Promise<ITutorLeadApplication> {
+  const application = await TutorLeadApplication.findById(applicationId)
+    .populate('documentChecks.aadhar.checkedBy', REVIEWER_FIELDS)
+    .populate('documentChecks.avatar.checkedBy', REVIEWER_FIELDS)
+    .populate('reviewHistory.by', REVIEWER_FIELDS)
+    .populate('reviewedBy', REVIEWER_FIELDS);
+  if (!application) {
+    throw new NotFoundError('Tutor application');
+  }
+  return application;
+}
+
+/**
+ * Verify or reject one document on the checklist. The first check moves a
+ * submitted application under review; a rejected document is emailed to the
+ * applicant with the note so they can upload it again.
+ */
+export async function checkDocument(params: CheckDocumentParams): Promise<ITutorLeadApplication> {
+  const application = await getApplicationOrThrow(params.applicationId);
+  assertOpen(application);
+  if (!application[DOCUMENT_URL_FIELDS[params.document]]) {
+    throw new BadRequestError(`${DOCUMENT_LABELS[params.document]} has not been uploaded`);
+  }
+  const note = params.note?.trim() || undefined;
+  if (params.status === DocumentCheckStatus.REJECTED && !note) {
+    throw new BadRequestError('note is required when rejecting a document');
+  }
+
+  application.documentChecks[params.document] = {
+    status: params.status,
+    note,
+    checkedBy: new mongoose.Types.ObjectId(params.checkedBy),
+    checkedAt: new Date(),
+  };
+  addHistory(application, {
+    action: 'document_checked',
+    toStatus:
+      application.status === ApplicationStatus.SUBMITTED
+        ? ApplicationStatus.UNDER_REVIEW
+        : application.status,
+    document: params.document,
+    note: `${DOCUMENT_LABELS[params.document]} ${params.status}${note ? `: ${note}` : ''}`,
+    by: new mongoose.Types.ObjectId(params.checkedBy),
+  });
+  await application.save();
+
+  if (params.status === DocumentCheckStatus.REJECTED) {
+    await emailApplicant(application, 'document_rejected', `${DOCUMENT_LABELS[params.document]}: ${note}`);
+  }
+  return application;
+}
+
+// Send the application back to the applicant; it returns for review once they update it
+export async function requestChanges(params: ReviewDecisionParams): Promise<ITutorLeadApplication> {
+  const application = await getApplicationOrThrow(params.applicationId);
+  assertOpen(application, [ApplicationStatus.SUBMITTED, ApplicationStatus.UNDER_REVIEW]);
+  const note = params.note?.trim();
+  if (!note) {
+    throw new BadRequestError('note is required when requesting changes');
+  }
+
+  addHistory(application, {
+    action: 'changes_requested',
+    toStatus: ApplicationStatus.CHANGES_REQUESTED,
+    note,
+    by: new mongoose.Types.ObjectId(params.reviewedBy),
+  });
+  await application.save();
+
+  await emailApplicant(application, 'changes_requested', note);
+  return application;
+}
+
+/**
+ * Approve once every document on the checklist is verified. Approved
+ * applicants are offered in tutor matching (isVerification).
+ */
+export async function approveApplication(params: ReviewDecisionParams): Promise<ITutorLeadApplication> {
+  const application = await getApplicationOrThrow(params.applicationId);
+  assertOpen(application, [ApplicationStatus.SUBMITTED, ApplicationStatus.UNDER_REVIEW]);
+  const unverified = Object.values(ApplicationDocument).filter(
+    (doc) => application.documentChecks?.[doc]?.status !== DocumentCheckStatus.VERIFIED
+  );
+  if (unverified.length > 0) {
+    throw new ConflictError(
+      `Verify ${unverified.map((doc) => DOCUMENT_LABELS[doc]).join(' and ')} before approving`
+    );
+  }
+
+  const reviewedBy = new mongoose.Types.ObjectId(params.reviewedBy);
+  addHistory(application, {
+    action: 'approved',
+    toStatus: ApplicationStatus.APPROVED,
+    note: params.note?.trim() || undefined,
+    by: reviewedBy,
+  });
+  application.isVerification = true;
+  application.rejectionReason = undefined;
+  application.reviewedBy = reviewedBy;
+  application.reviewedAt = new Date();
+  await application.save();
+
+  await emailApplicant(application, 'approved');
+  return application;
+}
+
+export async function rejectApplication(params: ReviewDecisionParams): Promise<ITutorLeadApplication> {
+  const application = await getApplicationOrThrow(params.applicationId);
+  assertOpen(application);
+  const reason = params.note?.trim();
+  if (!reason) {
+    throw new BadRequestError('reason is required when rejecting an application');
+  }
+
+  const reviewedBy = new mongoose.Types.ObjectId(params.reviewedBy);
+  addHistory(application, {
+    action: 'rejected',
+    toStatus: ApplicationStatus.REJECTED,
+    note: reason,
+    by: reviewedBy,
+  });
+  application.isVerification = false;
+  application.rejectionReason = reason;
+  application.reviewedBy = reviewedBy;
+  application.reviewedAt = new Date();
+  await application.save();
+
+  await emailApplicant(application, 'rejected', reason);
+  return application;
+}
+
+// Approved details are what the Tutor profile is built from, so they are frozen
+export function assertApplicantCanEdit(
+  application: Pick<ITutorLeadApplication, 'status' | 'promotedTutor'>
+): void {
+  if (application.promotedTutor || application.status === ApplicationStatus.APPROVED) {
+    throw new ConflictError('Approved applications can no longer be changed');
+  }
+}
+
+/**
+ * Apply an applicant's own edit or document upload. A changed document goes
+ * back to pending on the checklist, and an application that was sent back for
+ * changes returns to the review queue.
+ */
+export async function recordApplicantUpdate(
+  applicationId: string,
+  updates: Record<string, any>,
+  document?: ApplicationDocument
+): Promise<ITutorLeadApplication | null> {
+  const application = await TutorLeadApplication.findById(applicationId).select(
+    'status promotedTutor'
+  );
+  if (!application) return null;
+  assertApplicantCanEdit(application);
+
+  const $set: Record<string, any> = { ...updates, isVerification: false };
+  const update: Record<string, any> = { $set };
+  if (document) {
+    $set[`documentChecks.${document}`] = { status: DocumentCheckStatus.PENDING };
+  }
+  if (application.status === ApplicationStatus.CHANGES_REQUESTED) {
+    $set.status = ApplicationStatus.SUBMITTED;
+    update.$push = {
+      reviewHistory: {
+        action: 'resubmitted',
+        fromStatus: application.status,
+        toStatus: ApplicationStatus.SUBMITTED,
+        document,
+        at: new Date(),
+      },
+    };
+  }
+
+  return TutorLeadApplication.findByIdAndUpdate(applicationId, update, { new: true });
+}
+
+function dateOnly(date?: Date): string | undefined {
+  return date ? new Date(date).toISOString().slice(0, 10) : undefined;
+}
+
+/**
+ * The teacher account for the applicant: a new one carrying over the password
+ * they applied with, or their existing teacher account when an admin has
+ * confirmed it is theirs. Anyone can apply with any email, so an existing
+ * account is never linked on the email match alone.
+ */
+async function findOrCreateTeacherAccount(
+  application: ITutorLeadApplication,
+  linkExistingAccount = false
+): Promise<{ user: IUser; created: boolean }> {
+  const email = application.email.trim().toLowerCase();
+  const existing = await User.findOne({ email });
+  if (existing) {
+    if (existing.role !== UserRole.TEACHER) {
+      throw new ConflictError(`${email} is already registered as ${existing.role}`);
+    }
+    if (await Tutor.exists({ user: existing._id })) {
+      throw new ConflictError(`${email} already has a Tutor profile`);
+    }
+    if (!linkExistingAccount) {
+      throw new ConflictError(
+        `${email} already has a teacher account; confirm with linkExistingAccount to link it`
+      );
+    }
+    return { user: existing, created: false };
+  }
+
+  const [firstName, ...rest] = application.fullName.trim().split(/\s+/);
+  const user = new User({
+    email,
+    password: application.password,
+    role: UserRole.TEACHER,
+    profile: {
+      firstName: application.firstName || firstName,
+      lastName: application.lastName ?? (rest.join(' ') || undefined),
+      phone: application.phoneNumber,
+      avatar: application.avatarUrl,
+      dateOfBirth: application.dateOfBirth,
+      address: application.address,
+    },
+  });
+  // The application's password is already hashed with the same scheme; keep it as is
+  user.unmarkModified('password');
+  await user.save();
+  return { user, created: true };
+}
+
+async function promoteInTransaction(params: PromoteApplicationParams): Promise<PromotionResult> {
+  const application = await TutorLeadApplication.findById(params.applicationId).select('+password');
+  if (!application) {
+    throw new NotFoundError('Tutor application');
+  }
+  if (application.promotedTutor) {
+    throw new ConflictError('Application has already been promoted');
+  }
+  assertOpen(application, [ApplicationStatus.APPROVED]);
+
+  const { user, created } = await findOrCreateTeacherAccount(
+    application,
+    params.linkExistingAccount
+  );
+  const address = application.address;
+  const [tutor] = await Tutor.create([
+    {
+      user: user._id,
+      personalDetails: {
+        fullName: application.fullName,
+        whatsappNumber: application.phoneNumber,
+        email: application.email,
+        dateOfBirth: dateOnly(application.dateOfBirth),
+        gender: application.gender,
+        profilePhoto: application.avatarUrl,
+      },
+      education: { highestQualification: application.qualification },
+      workExperience: {
+        teachingExperience: application.experience,
+        subjects: application.subjects,
+      },
+      locationPreferences: {
+        fullAddress: address
+          ? [address.street, address.city, address.state, address.zipCode, address.country]
+              .filter(Boolean)
+              .join(', ') || undefined
+          : undefined,
+        pinCode: application.pincode,
+        city: application.city,
+        cityCode: resolveCityCode({ city: application.city }),
+        preferredLocations: application.preferredAreas,
+      },
+      documents: {
+        profilePhoto: application.avatarUrl,
+        aadharCard: application.aadharUrl,
+      },
+    },
+  ]);
+
+  const promotedBy = new mongoose.Types.ObjectId(params.reviewedBy);
+  addHistory(application, {
+    action: 'promoted',
+    toStatus: ApplicationStatus.APPROVED,
+    note: `Tutor ${tutor.personalDetails.tutorId}${params.note?.trim() ? `: ${params.note.trim()}` : ''}`,
+    by: promotedBy,
+  });
+  application.promotedUser = user._id as mongoose.Types.ObjectId;
+  application.promotedTutor = tutor._id as mongoose.Types.ObjectId;
+  application.promotedAt = new Date();
+  application.promotedBy = promotedBy;
+  await application.save();
+
+  return { application, user, tutor, userCreated: created };
+}
+
+/**
+ * Turn an approved applicant into a teacher account and Tutor profile, in one
+ * transaction. The tutor then logs in through /auth with the email and password
+ * they applied with (or their existing teacher account's password).
+ */
+export async function promoteApplication(
+  params: PromoteApplicationParams
+): Promise<PromotionResult> {
+  const result = await mongoose.connection.transaction(() => promoteInTransaction(params));
+  // Only after commit, so nobody is told about an account that was rolled back
+  if (result.userCreated) await emailApplicant(result.application, 'promoted');
+  // Reloaded without the password hash the promotion needed
+  return { ...result, application: await getApplication(params.applicationId) };
+}
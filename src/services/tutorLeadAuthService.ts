@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import TutorLeadApplication, { ITutorLeadApplication } from '../models/TutorLeadApplication';
+import { sendPasswordResetEmail } from './emailService';
+import { AuthenticationError, BadRequestError, ConflictError } from '../utils/errors';
+import {
+  generateTutorLeadTokenPair,
+  TokenPair,
+  verifyTutorLeadRefreshToken,
+} from '../utils/jwt';
+import { comparePassword, hashPassword } from '../utils/password';
+
+export interface TutorLeadSession extends TokenPair {
+  application: ITutorLeadApplication;
+}
+
+const DEFAULT_RESET_EXPIRES_MINUTES = 60;
+
+function resetExpiresMinutes(): number {
+  const minutes = Number(process.env.TUTOR_LEAD_PASSWORD_RESET_EXPIRES_MINUTES);
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : DEFAULT_RESET_EXPIRES_MINUTES;
+}
+
+/**
+ * The website page that renders the reset form; the emailed link adds
+ * `?token=`. Falls back to /tutor/reset-password on FRONTEND_URL and throws
+ * when neither is set, which the server checks on startup.
+ */
+export function tutorLeadPasswordResetUrl(): string {
+  const frontendUrl = process.env.FRONTEND_URL?.replace(/\/$/, '');
+  const url =
+    process.env.TUTOR_LEAD_PASSWORD_RESET_URL ||
+    (frontendUrl ? `${frontendUrl}/tutor/reset-password` : undefined);
+  if (!url) {
+    throw new Error(
+      'Missing required environment variable: TUTOR_LEAD_PASSWORD_RESET_URL (or FRONTEND_URL)'
+    );
+  }
+  return url.replace(/\/$/, '');
+}
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Issue a token pair and keep the refresh token, so only the latest one can be used
+async function startSession(application: ITutorLeadApplication): Promise<TutorLeadSession> {
+  const tokens = generateTutorLeadTokenPair(application);
+  await TutorLeadApplication.updateOne({ _id: application._id }, { refreshToken: tokens.refreshToken });
+  return { application, ...tokens };
+}
+
+export async function createTutorLeadApplication(
+  payload: Record<string, any>
+): Promise<ITutorLeadApplication> {
+  const existing = await TutorLeadApplication.exists({
+    $or: [{ email: payload.email }, { phoneNumber: payload.phoneNumber }],
+  });
+  if (existing) {
+    throw new ConflictError('A tutor application with this email or phone already exists');
+  }
+  return TutorLeadApplication.create(payload);
+}
+
+// Apply and sign in in one step
+export async function registerTutorLead(payload: Record<string, any>): Promise<TutorLeadSession> {
+  const application = await createTutorLeadApplication(payload);
+  return startSession(application);
+}
+
+export async function loginTutorLead(email: string, password: string): Promise<TutorLeadSession> {
+  const application = await TutorLeadApplication.findOne({ email: email.trim().toLowerCase() }).select(
+    '+password'
+  );
+  if (!application || !(await comparePassword(password, application.password))) {
+    throw new AuthenticationError('Invalid email or password');
+  }
+  return startSession(application);
+}
+
+export async function refreshTutorLeadTokens(refreshToken: string): Promise<TokenPair> {
+  const decoded = verifyTutorLeadRefreshToken(refreshToken);
+  if (!decoded) {
+    throw new AuthenticationError('Invalid or expired refresh token');
+  }
+
+  const application = await TutorLeadApplication.findById(decoded.applicationId).select('+refreshToken');
+  if (!application || !application.refreshToken || application.refreshToken !== refreshToken) {
+    throw new AuthenticationError('Invalid refresh token. Please login again.');
+  }
+  const { accessToken, refreshToken: newRefreshToken } = await startSession(application);
+  return { accessToken, refreshToken: newRefreshToken };
+}
+
+export async function logoutTutorLead(applicationId: string): Promise<void> {
+  await TutorLeadApplication.updateOne({ _id: applicationId }, { $unset: { refreshToken: 1 } });
+}
+
+// Signs out every session; the caller decides whether to start a new one
+async function setPassword(applicationId: unknown, password: string): Promise<void> {
+  await TutorLeadApplication.updateOne(
+    { _id: applicationId },
+    {
+      $set: { password: await hashPassword(password), passwordChangedAt: new Date() },
+      $unset: { refreshToken: 1, passwordResetTokenHash: 1, passwordResetExpiresAt: 1 },
+    }
+  );
+}
+
+export async function changeTutorLeadPassword(
+  applicationId: string,
+  currentPassword: string,
+  newPassword: string
+): Promise<TutorLeadSession> {
+  const application = await TutorLeadApplication.findById(applicationId).select('+password');
+  if (!application) {
+    throw new AuthenticationError('Tutor application not found');
+  }
+  if (!(await comparePassword(currentPassword, application.password))) {
+    throw new BadRequestError('Current password is incorrect');
+  }
+  if (currentPassword === newPassword) {
+    throw new BadRequestError('New password must be different from the current password');
+  }
+
+  await setPassword(application._id, newPassword);
+  return startSession(application);
+}
+
+/**
+ * Email a single-use reset link. Only a hash of the token is stored. Unknown
+ * emails get the same answer from the controller, so accounts can't be probed.
+ */
+export async function requestTutorLeadPasswordReset(email: string): Promise<void> {
+  const application = await TutorLeadApplication.findOne({ email: email.trim().toLowerCase() });
+  if (!application) return;
+
+  const token = crypto.randomBytes(32).toString('hex');
+  const expiresInMinutes = resetExpiresMinutes();
+  await TutorLeadApplication.updateOne(
+    { _id: application._id },
+    {
+      passwordResetTokenHash: hashResetToken(token),
+      passwordResetExpiresAt: new Date(Date.now() + expiresInMinutes * 60 * 1000),
+    }
+  );
+
+  const resetUrl = `${tutorLeadPasswordResetUrl()}?token=${token}`;
+  const result = await sendPasswordResetEmail({
+    to: application.email,
+    name: application.firstName || application.fullName,
+    resetUrl,
+    expiresInMinutes,
+  });
+  if (!result.success) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to email password reset to applicant ${application.teacherId}:`, result.error);
+  }
+}
+
+export async function resetTutorLeadPassword(token: string, password: string): Promise<void> {
+  const application = await TutorLeadApplication.findOne({
+    passwordResetTokenHash: hashResetToken(token),
+    passwordResetExpiresAt: { $gt: new Date() },
+  });
+  if (!application) {
+    throw new BadRequestError('This reset link is invalid or has expired');
+  }
+  await setPassword(application._id, password);
+}
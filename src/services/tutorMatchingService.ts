@@ -0,0 +1,294 @@
+import Lead, { ILead, PreferredTutor, TuitionMode } from '../models/Lead';
+import Tutor, { ITutor } from '../models/Tutor';
+import TutorLeadApplication, { ITutorLeadApplication } from '../models/TutorLeadApplication';
+import { NotFoundError } from '../utils/errors';
+import { escapeRegex } from '../utils/regex';
+
+export type TutorMatchSource = 'tutor' | 'application';
+
+export interface TutorMatch {
+  source: TutorMatchSource;
+  id: string;
+  code: string; // Tutor.personalDetails.tutorId or TutorLeadApplication.teacherId
+  userId?: string;
+  name?: string;
+  gender?: string;
+  city?: string;
+  teachingMode?: string;
+  subjects: string[];
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export interface TutorMatchOptions {
+  limit?: number;
+  minScore?: number;
+  includeApplications?: boolean;
+}
+
+// Normalized view of a Tutor profile or an application so both score the same way
+interface MatchCandidate {
+  source: TutorMatchSource;
+  id: string;
+  code: string;
+  userId?: string;
+  name?: string;
+  email?: string;
+  gender?: string;
+  subjects: string[];
+  classesCanTeach?: string[];
+  educationBoards?: string[];
+  teachingMode?: string;
+  city?: string;
+  pinCode?: string;
+  preferredLocations: string[];
+  availableTimeSlots?: string[];
+}
+
+// Points per criterion; they add up to 100
+const WEIGHTS = {
+  subjects: 35,
+  classLevel: 15,
+  board: 10,
+  mode: 15,
+  location: 15,
+  timeSlots: 10,
+};
+
+const DEFAULT_MATCH_LIMIT = 20;
+const MAX_CANDIDATES = 500;
+
+function normalize(value?: string): string {
+  return (value || '').trim().toLowerCase();
+}
+
+// "Class 5th", "Grade 5", "5" all become "5"
+function normalizeClassLevel(value?: string): string {
+  return normalize(value)
+    .replace(/\b(class|grade|std\.?|standard)\b/g, '')
+    .replace(/(\d+)(st|nd|rd|th)\b/g, '$1')
+    .replace(/\s+/g, '');
+}
+
+function classLevelMatches(canTeach: string[], level: string): boolean {
+  const target = normalizeClassLevel(level);
+  const numeric = Number(target);
+  return canTeach.some((entry) => {
+    const value = normalizeClassLevel(entry);
+    if (value === target) return true;
+    const range = value.match(/^(\d+)(?:-|to)(\d+)$/);
+    return Boolean(
+      range && !Number.isNaN(numeric) && numeric >= Number(range[1]) && numeric <= Number(range[2])
+    );
+  });
+}
+
+function genderMatches(preferred: PreferredTutor, gender?: string): boolean {
+  if (preferred === PreferredTutor.NO_PREFERENCE) return true;
+  return normalize(gender) === preferred;
+}
+
+function modeMatches(mode: TuitionMode, teachingMode?: string): boolean | null {
+  if (!teachingMode) return null;
+  const value = normalize(teachingMode);
+  return value === 'both' || value === mode;
+}
+
+function leadPinCode(lead: ILead): string | undefined {
+  return lead.classLocation?.pinCode || lead.classLocation?.addressText?.match(/\b\d{6}\b/)?.[0];
+}
+
+function fromTutor(tutor: ITutor): MatchCandidate {
+  return {
+    source: 'tutor',
+    id: String(tutor._id),
+    code: tutor.personalDetails.tutorId,
+    userId: tutor.user ? String(tutor.user) : undefined,
+    name: tutor.personalDetails.fullName,
+    email: normalize(tutor.personalDetails.email) || undefined,
+    gender: tutor.personalDetails.gender,
+    subjects: tutor.workExperience?.subjects || [],
+    classesCanTeach: tutor.workExperience?.classesCanTeach,
+    educationBoards: tutor.workExperience?.educationBoards,
+    teachingMode: tutor.locationPreferences?.teachingMode,
+    city: tutor.locationPreferences?.city,
+    pinCode: tutor.locationPreferences?.pinCode,
+    preferredLocations: tutor.locationPreferences?.preferredLocations || [],
+    availableTimeSlots: tutor.locationPreferences?.availableTimeSlots,
+  };
+}
+
+function fromApplication(app: ITutorLeadApplication): MatchCandidate {
+  return {
+    source: 'application',
+    id: String(app._id),
+    code: app.teacherId,
+    name: app.fullName,
+    email: normalize(app.email),
+    gender: app.gender,
+    subjects: app.subjects || [],
+    city: app.city,
+    pinCode: app.pincode,
+    preferredLocations: app.preferredAreas || [],
+  };
+}
+
+/**
+ * Score one candidate against the lead. Gender preference and tuition mode are
+ * hard requirements from the parent, so a mismatch there returns null.
+ */
+function scoreCandidate(lead: ILead, candidate: MatchCandidate): TutorMatch | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (!genderMatches(lead.preferredTutor, candidate.gender)) return null;
+  if (lead.preferredTutor !== PreferredTutor.NO_PREFERENCE) {
+    reasons.push(`Matches preferred ${lead.preferredTutor} tutor`);
+  }
+
+  const mode = modeMatches(lead.preferredTuitionMode, candidate.teachingMode);
+  if (mode === false) return null;
+  if (mode === true) {
+    score += WEIGHTS.mode;
+    reasons.push(`Teaches ${lead.preferredTuitionMode} (${candidate.teachingMode})`);
+  } else {
+    score += Math.round(WEIGHTS.mode / 2);
+    reasons.push('Teaching mode not specified');
+  }
+
+  const required = (lead.subjectsRequired || []).map(normalize).filter(Boolean);
+  const offered = candidate.subjects.map(normalize);
+  if (required.length === 0) {
+    score += WEIGHTS.subjects;
+  } else {
+    const covered = required.filter((subj) => offered.includes(subj));
+    score += Math.round((WEIGHTS.subjects * covered.length) / required.length);
+    if (covered.length > 0) {
+      reasons.push(`Teaches ${covered.length}/${required.length} subjects: ${covered.join(', ')}`);
+    } else {
+      reasons.push('Teaches none of the required subjects');
+    }
+  }
+
+  const { classLevel, board } = lead.classAndBoard;
+  if (candidate.classesCanTeach?.length) {
+    if (classLevelMatches(candidate.classesCanTeach, classLevel)) {
+      score += WEIGHTS.classLevel;
+      reasons.push(`Teaches class ${classLevel}`);
+    }
+  } else {
+    score += Math.round(WEIGHTS.classLevel / 2);
+  }
+
+  if (candidate.educationBoards?.length) {
+    const target = normalize(board);
+    if (
+      candidate.educationBoards.some(
+        (b) => normalize(b).includes(target) || target.includes(normalize(b))
+      )
+    ) {
+      score += WEIGHTS.board;
+      reasons.push(`Familiar with ${board} board`);
+    }
+  } else {
+    score += Math.round(WEIGHTS.board / 2);
+  }
+
+  if (lead.preferredTuitionMode === TuitionMode.ONLINE) {
+    score += WEIGHTS.location;
+  } else {
+    const city = normalize(lead.classLocation?.city);
+    const pin = leadPinCode(lead);
+    const area = normalize(lead.classLocation?.area);
+    const address = normalize(lead.classLocation?.addressText);
+    const locations = candidate.preferredLocations.map(normalize).filter(Boolean);
+
+    if (city && normalize(candidate.city) === city) {
+      score += 5;
+      reasons.push(`Based in ${candidate.city}`);
+    }
+    if (pin && candidate.pinCode === pin) {
+      score += 10;
+      reasons.push(`Same pin code ${pin}`);
+    } else {
+      const nearby = locations.find(
+        (loc) => (area && loc === area) || (address && address.includes(loc))
+      );
+      if (nearby) {
+        score += 10;
+        reasons.push(`Prefers teaching around ${nearby}`);
+      }
+    }
+  }
+
+  const wanted = (lead.preferredTimeSlots || []).map(normalize);
+  if (wanted.length === 0) {
+    score += WEIGHTS.timeSlots;
+  } else if (candidate.availableTimeSlots?.length) {
+    const slots = candidate.availableTimeSlots.filter((slot) => wanted.includes(normalize(slot)));
+    if (slots.length > 0) {
+      score += WEIGHTS.timeSlots;
+      reasons.push(`Available ${slots.join(', ')}`);
+    }
+  }
+
+  return {
+    source: candidate.source,
+    id: candidate.id,
+    code: candidate.code,
+    userId: candidate.userId,
+    name: candidate.name,
+    gender: candidate.gender,
+    city: candidate.city,
+    teachingMode: candidate.teachingMode,
+    subjects: candidate.subjects,
+    score: Math.min(score, 100),
+    reasons,
+  };
+}
+
+/**
+ * Rank Tutor profiles and verified tutor applications for a lead, best match
+ * first. Candidates that fail the parent's gender or mode requirement are left out.
+ */
+export async function findTutorMatches(
+  leadId: string,
+  options: TutorMatchOptions = {}
+): Promise<TutorMatch[]> {
+  const lead = await Lead.findById(leadId);
+  if (!lead) {
+    throw new NotFoundError('Lead');
+  }
+
+  const subjectRegexes = (lead.subjectsRequired || [])
+    .filter((s) => s.trim())
+    .map((s) => new RegExp(`^${escapeRegex(s.trim())}$`, 'i'));
+
+  const tutorQuery: Record<string, any> = {};
+  if (subjectRegexes.length > 0) tutorQuery['workExperience.subjects'] = { $in: subjectRegexes };
+  const tutors = await Tutor.find(tutorQuery).limit(MAX_CANDIDATES);
+  const candidates = tutors.map(fromTutor);
+
+  if (options.includeApplications !== false) {
+    // Promoted applicants are ranked through the Tutor profile they became
+    const appQuery: Record<string, any> = { isVerification: true, promotedTutor: { $exists: false } };
+    if (subjectRegexes.length > 0) appQuery.subjects = { $in: subjectRegexes };
+    const applications = await TutorLeadApplication.find(appQuery).limit(MAX_CANDIDATES);
+
+    // Likewise an applicant whose email already has a Tutor profile
+    const tutorEmails = new Set(candidates.map((c) => c.email).filter(Boolean));
+    applications
+      .map(fromApplication)
+      .filter((app) => !app.email || !tutorEmails.has(app.email))
+      .forEach((app) => candidates.push(app));
+  }
+
+  const minScore = options.minScore ?? 0;
+  return candidates
+    .map((candidate) => scoreCandidate(lead, candidate))
+    .filter((match): match is TutorMatch => match !== null && match.score >= minScore)
+    .sort(
+      (a, b) => b.score - a.score || (a.source === b.source ? 0 : a.source === 'tutor' ? -1 : 1)
+    )
+    .slice(0, options.limit || DEFAULT_MATCH_LIMIT);
+}
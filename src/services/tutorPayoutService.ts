@@ -0,0 +1,541 @@
+import mongoose from 'mongoose';
+import FinalClass, {
+  AttendanceSheetStatus,
+  IAttendanceRecord,
+  IAttendanceSheet,
+  IFinalClass,
+} from '../models/FinalClass';
+import Lead from '../models/Lead';
+import SystemSettings from '../models/SystemSettings';
+import {
+  IPaymentRecord,
+  IPayoutSession,
+  ITutor,
+  PaymentRecord,
+  PaymentStatus,
+  PayoutAdjustmentKind,
+  Tutor,
+} from '../models/Tutor';
+import { updateSystemSetting } from './adminService';
+import { createNotification } from './notificationService';
+import { startOfDay } from './renewalService';
+import { allocateId, IdKind } from '../utils/idAllocator';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../utils/errors';
+import { NotificationCategory, NotificationPriority, NotificationType } from '../types/enums';
+
+export interface TutorPayoutRates {
+  hourlyRates: Record<string, number>; // by tutor tier, e.g. { "gold": 400 }
+  defaultSessionMinutes: number; // for sessions logged without a duration
+}
+
+export interface GeneratePayoutsParams {
+  month?: string; // YYYY-MM of the sheet's start; every month when omitted
+  finalClassId?: string;
+}
+
+export interface SkippedPayout {
+  classId: string;
+  paymentCycle: string;
+  tutor?: string; // User id of the tutor who logged the sessions
+  reason: string;
+}
+
+export interface GeneratePayoutsResult {
+  created: number;
+  updated: number;
+  removed: number;
+  alreadyPaid: number;
+  skipped: SkippedPayout[];
+}
+
+export interface AddPayoutAdjustmentParams {
+  payoutId: string;
+  kind: PayoutAdjustmentKind;
+  amount: number;
+  reason: string;
+  addedBy: string;
+}
+
+export interface MarkPayoutPaidParams {
+  payoutId: string;
+  paymentReference: string;
+  paymentMode?: string;
+  paidAt?: Date;
+  notes?: string;
+  paidBy: string;
+}
+
+export interface PayoutListFilters {
+  status?: PaymentStatus;
+  tutorId?: string; // Tutor profile id
+  finalClassId?: string;
+  paymentCycle?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface PayoutListOptions {
+  page?: number;
+  limit?: number;
+}
+
+export const TUTOR_PAYOUT_RATES_SETTING_KEY = 'TUTOR_PAYOUT_RATES';
+
+export const DEFAULT_TUTOR_PAYOUT_RATES: TutorPayoutRates = {
+  hourlyRates: {},
+  defaultSessionMinutes: 60,
+};
+
+const DEFAULT_PAYOUT_PAGE_SIZE = 20;
+const MAX_PAYOUT_PAGE_SIZE = 100;
+const PAYOUT_TUTOR_FIELDS = 'personalDetails.tutorId personalDetails.fullName user';
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+// Tiers are free text on classes, so "Gold" and " gold" share a rate
+function tierKey(tier?: string): string {
+  return (tier || '').trim().toLowerCase();
+}
+
+export async function getTutorPayoutRates(): Promise<TutorPayoutRates> {
+  const stored = await SystemSettings.getSetting(TUTOR_PAYOUT_RATES_SETTING_KEY, null);
+  if (!stored || typeof stored !== 'object') return DEFAULT_TUTOR_PAYOUT_RATES;
+  return {
+    hourlyRates:
+      stored.hourlyRates && typeof stored.hourlyRates === 'object' ? stored.hourlyRates : {},
+    defaultSessionMinutes:
+      Number(stored.defaultSessionMinutes) > 0
+        ? Number(stored.defaultSessionMinutes)
+        : DEFAULT_TUTOR_PAYOUT_RATES.defaultSessionMinutes,
+  };
+}
+
+export async function updateTutorPayoutRates(
+  rates: TutorPayoutRates,
+  updatedBy: string
+): Promise<TutorPayoutRates> {
+  const errors: Array<{ field: string; message: string }> = [];
+  const hourlyRates: Record<string, number> = {};
+  Object.entries(rates.hourlyRates || {}).forEach(([tier, rate]) => {
+    const key = tierKey(tier);
+    if (!key) {
+      errors.push({ field: 'hourlyRates', message: 'Tier names cannot be empty' });
+    } else if (hourlyRates[key] !== undefined) {
+      errors.push({ field: 'hourlyRates', message: `Tier "${tier}" is listed twice` });
+    } else if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0) {
+      errors.push({ field: `hourlyRates.${tier}`, message: 'Rate must be a number >= 0' });
+    } else {
+      hourlyRates[key] = round2(rate);
+    }
+  });
+  if (errors.length > 0) {
+    throw new ValidationError('Validation failed', errors);
+  }
+
+  const value: TutorPayoutRates = {
+    hourlyRates,
+    defaultSessionMinutes:
+      rates.defaultSessionMinutes || DEFAULT_TUTOR_PAYOUT_RATES.defaultSessionMinutes,
+  };
+  await updateSystemSetting(TUTOR_PAYOUT_RATES_SETTING_KEY, value, updatedBy);
+  return value;
+}
+
+/**
+ * The tier a tutor taught a session at: their stint on the class covering that
+ * day, else their latest stint, else the class's current tier.
+ */
+function tierOnDate(finalClass: IFinalClass, tutorUserId: string, date: Date): string | undefined {
+  const stints = finalClass.tutorHistory.filter((s) => String(s.tutor) === tutorUserId);
+  const day = startOfDay(date);
+  const covering = stints.find(
+    (s) => startOfDay(s.startedAt) <= day && (!s.endedAt || day <= startOfDay(s.endedAt))
+  );
+  return (covering || stints[stints.length - 1])?.tutorTier || finalClass.tutorTier;
+}
+
+// Present sessions of a sheet by the tutor who logged them, so a mid-month handover splits the pay
+function sessionsByTutor(sheet: IAttendanceSheet): Map<string, IAttendanceRecord[]> {
+  const byTutor = new Map<string, IAttendanceRecord[]>();
+  sheet.records
+    .filter((r) => r.present)
+    .forEach((r) => {
+      const tutor = r.loggedBy || sheet.tutor;
+      if (!tutor) return;
+      const key = String(tutor);
+      byTutor.set(key, [...(byTutor.get(key) || []), r]);
+    });
+  return byTutor;
+}
+
+function monthRange(month: string): { start: Date; end: Date } {
+  const [year, mon] = month.split('-').map(Number);
+  return { start: new Date(year, mon - 1, 1), end: new Date(year, mon, 1) };
+}
+
+function applyAdjustments(payout: IPaymentRecord): void {
+  const net = payout.adjustments.reduce(
+    (sum, a) => (a.kind === 'deduction' ? sum - a.amount : sum + a.amount),
+    payout.baseAmount || 0
+  );
+  payout.amount = round2(net);
+}
+
+async function classNameOf(finalClass: IFinalClass): Promise<string> {
+  const lead = await Lead.findById(finalClass.lead).select('studentName subjectsRequired');
+  const subjects = lead?.subjectsRequired?.join(', ');
+  return [lead?.studentName, subjects].filter(Boolean).join(' - ') || finalClass.classId;
+}
+
+/**
+ * Compute payouts from attendance sheets: one record per tutor per sheet,
+ * paying each present session at the hourly rate of the tutor's tier. Approved
+ * months become Pending (owed); open or disputed months are Upcoming
+ * estimates. Safe to run again: unpaid records are recomputed with their
+ * adjustments kept, and paid records are never touched.
+ */
+export async function generatePayouts(params: GeneratePayoutsParams): Promise<GeneratePayoutsResult> {
+  const rates = await getTutorPayoutRates();
+  const range = params.month ? monthRange(params.month) : undefined;
+  const sheetInRange = (sheet: IAttendanceSheet) =>
+    !range || (sheet.startDate >= range.start && sheet.startDate < range.end);
+
+  if (params.finalClassId && !(await FinalClass.exists({ _id: params.finalClassId }))) {
+    throw new NotFoundError('Final class');
+  }
+
+  const query: Record<string, any> = { 'attendanceSheets.0': { $exists: true } };
+  if (params.finalClassId) query._id = new mongoose.Types.ObjectId(params.finalClassId);
+  if (range) query['attendanceSheets.startDate'] = { $gte: range.start, $lt: range.end };
+  const classes = await FinalClass.find(query);
+
+  const result: GeneratePayoutsResult = { created: 0, updated: 0, removed: 0, alreadyPaid: 0, skipped: [] };
+  const tutorsByUser = new Map<string, ITutor | null>();
+  const tutorProfile = async (userId: string) => {
+    if (!tutorsByUser.has(userId)) {
+      tutorsByUser.set(userId, await Tutor.findOne({ user: userId }).select('_id user'));
+    }
+    return tutorsByUser.get(userId) || null;
+  };
+
+  for (const finalClass of classes) {
+    const sheets = finalClass.attendanceSheets.filter((s) => sheetInRange(s) && s.records.length > 0);
+    if (sheets.length === 0) continue;
+    const className = await classNameOf(finalClass);
+
+    for (const sheet of sheets) {
+      const skip = (reason: string, tutor?: string) =>
+        result.skipped.push({ classId: finalClass.classId, paymentCycle: sheet.monthLabel, tutor, reason });
+      if (sheet.lockedAt && sheet.status !== AttendanceSheetStatus.APPROVED) {
+        skip('Attendance was locked without parent approval');
+        continue;
+      }
+
+      const existing = await PaymentRecord.find({ finalClass: finalClass._id, sheetId: sheet._id });
+      const kept = new Set<string>();
+
+      for (const [tutorUserId, records] of sessionsByTutor(sheet)) {
+        const tutor = await tutorProfile(tutorUserId);
+        if (!tutor) {
+          skip('Tutor has no tutor profile', tutorUserId);
+          continue;
+        }
+
+        const sessions: IPayoutSession[] = [];
+        const missingTiers = new Set<string>();
+        records.forEach((r) => {
+          const tier = tierOnDate(finalClass, tutorUserId, r.date);
+          const hourlyRate = rates.hourlyRates[tierKey(tier)];
+          if (hourlyRate === undefined) {
+            missingTiers.add(tier || '(none)');
+            return;
+          }
+          const durationMinutes = r.durationMinutes || rates.defaultSessionMinutes;
+          sessions.push({
+            date: r.date,
+            durationMinutes,
+            tutorTier: tier,
+            hourlyRate,
+            amount: round2((durationMinutes / 60) * hourlyRate),
+          });
+        });
+        if (missingTiers.size > 0) {
+          skip(`No hourly rate for tier ${Array.from(missingTiers).join(', ')}`, tutorUserId);
+          continue;
+        }
+
+        const tutorId = String(tutor._id);
+        kept.add(tutorId);
+        let payout = existing.find((p) => String(p.tutorId) === tutorId);
+        if (payout?.status === 'Paid') {
+          result.alreadyPaid += 1;
+          continue;
+        }
+        if (!payout) {
+          payout = new PaymentRecord({
+            paymentId: await allocateId(IdKind.PAYOUT, { cityCode: finalClass.cityCode, date: sheet.startDate }),
+            tutorId: tutor._id,
+            finalClass: finalClass._id,
+            sheetId: sheet._id,
+          });
+          result.created += 1;
+        } else {
+          result.updated += 1;
+        }
+
+        payout.classId = finalClass.classId;
+        payout.className = className;
+        payout.paymentCycle = sheet.monthLabel;
+        payout.date = sheet.endDate;
+        payout.status = sheet.status === AttendanceSheetStatus.APPROVED ? 'Pending' : 'Upcoming';
+        payout.sessions = sessions;
+        payout.sessionsTaught = sessions.length;
+        payout.minutesTaught = sessions.reduce((sum, s) => sum + s.durationMinutes, 0);
+        payout.baseAmount = round2(sessions.reduce((sum, s) => sum + s.amount, 0));
+        applyAdjustments(payout);
+        await payout.save();
+      }
+
+      // Sessions corrected away from a tutor: drop their unpaid payout unless someone adjusted it
+      for (const payout of existing) {
+        if (kept.has(String(payout.tutorId)) || payout.status === 'Paid') continue;
+        if (payout.adjustments.length === 0) {
+          await payout.deleteOne();
+          result.removed += 1;
+        } else {
+          payout.sessions = [];
+          payout.sessionsTaught = 0;
+          payout.minutesTaught = 0;
+          payout.baseAmount = 0;
+          applyAdjustments(payout);
+          await payout.save();
+          result.updated += 1;
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+async function getPayoutOrThrow(payoutId: string): Promise<IPaymentRecord> {
+  const payout = await PaymentRecord.findById(payoutId);
+  if (!payout) {
+    throw new NotFoundError('Payout');
+  }
+  return payout;
+}
+
+function assertUnpaid(payout: IPaymentRecord): void {
+  if (payout.status === 'Paid') {
+    throw new ConflictError(`Payout ${payout.paymentId} is already paid`);
+  }
+}
+
+export async function getPayout(payoutId: string): Promise<IPaymentRecord> {
+  const payout = await PaymentRecord.findById(payoutId)
+    .populate('tutorId', PAYOUT_TUTOR_FIELDS)
+    .populate('adjustments.addedBy', 'profile.firstName profile.lastName')
+    .populate('paidBy', 'profile.firstName profile.lastName');
+  if (!payout) {
+    throw new NotFoundError('Payout');
+  }
+  return payout;
+}
+
+export async function listPayouts(filters: PayoutListFilters, options: PayoutListOptions = {}) {
+  const limit = Math.min(Math.max(options.limit || DEFAULT_PAYOUT_PAGE_SIZE, 1), MAX_PAYOUT_PAGE_SIZE);
+  const page = Math.max(options.page || 1, 1);
+
+  const query: Record<string, any> = {};
+  if (filters.status) query.status = filters.status;
+  if (filters.tutorId) query.tutorId = new mongoose.Types.ObjectId(filters.tutorId);
+  if (filters.finalClassId) query.finalClass = new mongoose.Types.ObjectId(filters.finalClassId);
+  if (filters.paymentCycle) query.paymentCycle = filters.paymentCycle;
+  if (filters.from || filters.to) {
+    query.date = {};
+    if (filters.from) query.date.$gte = filters.from;
+    if (filters.to) query.date.$lte = filters.to;
+  }
+
+  const [payouts, total, totals] = await Promise.all([
+    PaymentRecord.find(query)
+      .select('-sessions')
+      .sort({ date: -1, _id: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .populate('tutorId', PAYOUT_TUTOR_FIELDS),
+    PaymentRecord.countDocuments(query),
+    PaymentRecord.aggregate([
+      { $match: query },
+      { $group: { _id: '$status', amount: { $sum: '$amount' }, count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  return {
+    payouts,
+    count: payouts.length,
+    total,
+    page,
+    totalPages: Math.ceil(total / limit),
+    totals: totals.map((t) => ({ status: t._id, amount: round2(t.amount), count: t.count })),
+  };
+}
+
+export async function addPayoutAdjustment(params: AddPayoutAdjustmentParams): Promise<IPaymentRecord> {
+  const payout = await getPayoutOrThrow(params.payoutId);
+  assertUnpaid(payout);
+
+  const amount = round2(params.amount);
+  if (params.kind === 'deduction' && amount > (payout.amount || 0)) {
+    throw new BadRequestError('Deductions cannot exceed what the tutor is owed');
+  }
+
+  payout.adjustments.push({
+    kind: params.kind,
+    amount,
+    reason: params.reason,
+    addedBy: new mongoose.Types.ObjectId(params.addedBy),
+    addedAt: new Date(),
+  });
+  applyAdjustments(payout);
+  await payout.save();
+  return payout;
+}
+
+export async function removePayoutAdjustment(payoutId: string, adjustmentId: string): Promise<IPaymentRecord> {
+  const payout = await getPayoutOrThrow(payoutId);
+  assertUnpaid(payout);
+
+  const index = payout.adjustments.findIndex((a) => String(a._id) === adjustmentId);
+  if (index < 0) {
+    throw new NotFoundError('Adjustment');
+  }
+  payout.adjustments.splice(index, 1);
+  applyAdjustments(payout);
+  if ((payout.amount || 0) < 0) {
+    throw new BadRequestError('Removing this addition would leave deductions larger than what the tutor is owed');
+  }
+  await payout.save();
+  return payout;
+}
+
+/**
+ * Record that a payout was transferred. Only Pending payouts can be paid, so
+ * a month has to be approved by the parent first.
+ */
+export async function markPayoutPaid(params: MarkPayoutPaidParams): Promise<IPaymentRecord> {
+  const payout = await getPayoutOrThrow(params.payoutId);
+  assertUnpaid(payout);
+  if (payout.status === 'Upcoming') {
+    throw new ConflictError(`Attendance for ${payout.paymentCycle} is not approved by the parent yet`);
+  }
+  if ((payout.amount || 0) <= 0) {
+    throw new ConflictError('Nothing is owed on this payout');
+  }
+  const paidAt = params.paidAt || new Date();
+  if (paidAt.getTime() > Date.now()) {
+    throw new BadRequestError('paidAt cannot be in the future');
+  }
+
+  payout.status = 'Paid';
+  payout.paidAt = paidAt;
+  payout.paymentReference = params.paymentReference;
+  payout.paymentMode = params.paymentMode;
+  payout.paymentNotes = params.notes;
+  payout.paidBy = new mongoose.Types.ObjectId(params.paidBy);
+  await payout.save();
+
+  await notifyPaid(payout);
+  return payout;
+}
+
+async function notifyPaid(payout: IPaymentRecord): Promise<void> {
+  const tutor = await Tutor.findById(payout.tutorId).select('user');
+  if (!tutor?.user) return;
+  try {
+    await createNotification({
+      userId: String(tutor.user),
+      type: NotificationType.IN_APP,
+      category: NotificationCategory.TUTOR_PAYOUT,
+      priority: NotificationPriority.MEDIUM,
+      title: 'Payout sent',
+      message: `Rs ${payout.amount} for ${payout.className || payout.classId} (${payout.paymentCycle}) was paid. Reference: ${payout.paymentReference}.`,
+      metadata: { payoutId: String(payout._id), paymentId: payout.paymentId },
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error(`Failed to notify tutor of payout ${payout.paymentId}:`, error);
+  }
+}
+
+// What a tutor sees of a payout: how it was worked out, not who in the office did what
+function presentPayoutForTutor(payout: IPaymentRecord) {
+  return {
+    _id: payout._id,
+    paymentId: payout.paymentId,
+    classId: payout.classId,
+    className: payout.className,
+    paymentCycle: payout.paymentCycle,
+    date: payout.date,
+    status: payout.status,
+    sessions: payout.sessions,
+    sessionsTaught: payout.sessionsTaught,
+    minutesTaught: payout.minutesTaught,
+    baseAmount: payout.baseAmount,
+    adjustments: payout.adjustments.map((a) => ({ kind: a.kind, amount: a.amount, reason: a.reason, addedAt: a.addedAt })),
+    amount: payout.amount,
+    paidAt: payout.paidAt,
+    paymentMode: payout.paymentMode,
+    paymentReference: payout.paymentReference,
+  };
+}
+
+/**
+ * A tutor's payout history, newest first, with totals by status. Records made
+ * before payouts were generated (no sessions) are included as they are.
+ */
+export async function getTutorStatement(tutorId: string, range: { from?: Date; to?: Date } = {}) {
+  const tutor = await Tutor.findById(tutorId).select('personalDetails.tutorId personalDetails.fullName');
+  if (!tutor) {
+    throw new NotFoundError('Tutor');
+  }
+
+  const query: Record<string, any> = { tutorId: tutor._id };
+  if (range.from || range.to) {
+    query.date = {};
+    if (range.from) query.date.$gte = range.from;
+    if (range.to) query.date.$lte = range.to;
+  }
+  const payouts = await PaymentRecord.find(query).sort({ date: -1, _id: -1 });
+
+  const totals = { paid: 0, pending: 0, upcoming: 0 };
+  payouts.forEach((p) => {
+    if (p.status === 'Paid') totals.paid += p.amount || 0;
+    else if (p.status === 'Pending') totals.pending += p.amount || 0;
+    else if (p.status === 'Upcoming') totals.upcoming += p.amount || 0;
+  });
+
+  return {
+    tutor: {
+      _id: tutor._id,
+      tutorId: tutor.personalDetails.tutorId,
+      fullName: tutor.personalDetails.fullName,
+    },
+    from: range.from,
+    to: range.to,
+    totals: { paid: round2(totals.paid), pending: round2(totals.pending), upcoming: round2(totals.upcoming) },
+    payouts: payouts.map(presentPayoutForTutor),
+  };
+}
+
+// The signed-in teacher's statement
+export async function getStatementForUser(userId: string, range: { from?: Date; to?: Date } = {}) {
+  const tutor = await Tutor.findOne({ user: userId }).select('_id');
+  if (!tutor) {
+    throw new NotFoundError('Tutor profile');
+  }
+  return getTutorStatement(String(tutor._id), range);
+}
@@ -4,6 +4,7 @@ export enum UserRole {
   TEACHER = 'teacher',
   COORDINATOR = 'coordinator',
   STUDENT = 'student',
+  PARENT = 'parent',
 }
 
 export enum OAuthProvider {
@@ -148,6 +149,11 @@ export enum NotificationCategory {
   CLASS_CANCELLED = 'class_cancelled',
   ANNOUNCEMENT = 'announcement',
   SYSTEM = 'system',
+  LEAD_FOLLOW_UP = 'lead_follow_up',
+  LEAD_ASSIGNMENT = 'lead_assignment',
+  LEAD_DEMO = 'lead_demo',
+  CLASS_RENEWAL = 'class_renewal',
+  TUTOR_PAYOUT = 'tutor_payout',
 }
 
 export enum NotificationPriority {
@@ -169,6 +175,7 @@ export enum AuditAction {
   BULK_ENROLLMENT = 'bulk_enrollment',
   SETTINGS_UPDATED = 'settings_updated',
   SYSTEM_CONFIG_CHANGED = 'system_config_changed',
+  LEAD_MERGED = 'lead_merged',
 }
 
 export enum SettingType {
@@ -3,10 +3,12 @@
 
 import 'express';
 import { IUser } from '../models/User';
+import { ITutorLeadApplication } from '../models/TutorLeadApplication';
 
 declare module 'express-serve-static-core' {
   interface Request {
     user?: IUser;
+    tutorLead?: ITutorLeadApplication; // set by authenticateTutorLead
     file?: Express.Multer.File;
     files?: Express.Multer.File[];
   }
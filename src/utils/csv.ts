@@ -0,0 +1,87 @@
+/**
+ * Minimal RFC 4180 CSV helpers (quoted fields, escaped quotes, CRLF/LF line
+ * endings). Enough for spreadsheet exports without pulling in a dependency.
+ */
+
+export type CsvRow = string[];
+
+/**
+ * Parse CSV text into rows of raw string cells. Blank lines are skipped and a
+ * leading UTF-8 BOM (added by Excel) is ignored.
+ */
+export function parseCsv(text: string): CsvRow[] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: CsvRow[] = [];
+  let row: CsvRow = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      endRow();
+    } else if (ch === '\r') {
+      if (input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error('Malformed CSV: unterminated quoted field');
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Escape a single cell. Values that a spreadsheet would evaluate as a formula
+ * are prefixed with a quote so exported data cannot execute in Excel/Sheets.
+ */
+export function escapeCsvValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let str = value instanceof Date ? value.toISOString() : String(value);
+
+  if (/^[=@\t\r]/.test(str) || /^[+-](?![\d\s]*$)/.test(str)) {
+    str = `'${str}`;
+  }
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+}
+
+export function toCsvLine(values: unknown[]): string {
+  return `${values.map(escapeCsvValue).join(',')}\r\n`;
+}
+
+export default { parseCsv, escapeCsvValue, toCsvLine };
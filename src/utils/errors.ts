@@ -59,6 +59,15 @@ export class BadRequestError extends AppError {
   }
 }
 
+export class TooManyRequestsError extends AppError {
+  public retryAfterSeconds?: number;
+
+  constructor(message: string = 'Too many requests, please try again later', retryAfterSeconds?: number) {
+    super(message, 429, true, 'RATE_LIMITED');
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 export class InternalServerError extends AppError {
   constructor(message: string = 'Internal server error', isOperational: boolean = false) {
     super(message, 500, isOperational, 'INTERNAL_SERVER_ERROR');
@@ -0,0 +1,11 @@
+// Escape user-supplied text before putting it into HTML (invoices, emails)
+export function escapeHtml(value?: string | number): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export default { escapeHtml };
@@ -0,0 +1,187 @@
+import mongoose from 'mongoose';
+import Counter from '../models/Counter';
+import SystemSettings from '../models/SystemSettings';
+import { getCityCodeFromName } from './cityCodes';
+import { InternalServerError, ValidationError } from './errors';
+
+export enum IdKind {
+  CLASS = 'class', // FinalClass.classId
+  TUTOR = 'tutor', // Tutor.personalDetails.tutorId
+  APPLICANT = 'applicant', // TutorLeadApplication.teacherId
+  PAYOUT = 'payout', // PaymentRecord.paymentId
+}
+
+export type IdFormats = Record<IdKind, string>;
+
+// What a format can draw on besides the sequence number
+export interface IdContext {
+  cityCode?: string;
+  city?: string; // mapped to a code when cityCode is missing
+  gender?: string;
+  date?: Date;
+}
+
+export interface IdPreview {
+  kind: IdKind;
+  format: string;
+  id: string;
+}
+
+export const ID_FORMATS_SETTING_KEY = 'ID_FORMATS';
+
+/**
+ * Tokens: {CITY} city code, {GENDER} M/F/X, {YYYY}/{YY}/{MM} allocation date,
+ * {SEQ} or {SEQ:n} the counter, zero-padded to n digits. Everything else is
+ * copied as is. Each distinct prefix (e.g. per city) has its own counter.
+ */
+export const DEFAULT_ID_FORMATS: IdFormats = {
+  [IdKind.CLASS]: 'CL-{CITY}-{SEQ:4}',
+  [IdKind.TUTOR]: 'T{GENDER}{CITY}{SEQ:4}',
+  [IdKind.APPLICANT]: 'TL{GENDER}{SEQ:5}',
+  [IdKind.PAYOUT]: 'PAY-{YYYY}{MM}-{SEQ:4}',
+};
+
+// Where each kind of id lives, to skip numbers already taken by older random ids
+const ID_TARGETS: Record<IdKind, { model: string; path: string }> = {
+  [IdKind.CLASS]: { model: 'FinalClass', path: 'classId' },
+  [IdKind.TUTOR]: { model: 'Tutor', path: 'personalDetails.tutorId' },
+  [IdKind.APPLICANT]: { model: 'TutorLeadApplication', path: 'teacherId' },
+  [IdKind.PAYOUT]: { model: 'PaymentRecord', path: 'paymentId' },
+};
+
+const TOKEN_PATTERN = /\{([A-Z]+)(?::(\d+))?\}/g;
+const KNOWN_TOKENS = ['CITY', 'GENDER', 'YYYY', 'YY', 'MM', 'SEQ'];
+const MAX_FORMAT_LENGTH = 40;
+const MAX_SEQ_WIDTH = 10;
+const MAX_ALLOCATION_ATTEMPTS = 1000;
+
+// The city segment ids use, also stored on records so filters don't parse ids
+export function resolveCityCode(context: Pick<IdContext, 'cityCode' | 'city'>): string {
+  const code = context.cityCode?.trim() || getCityCodeFromName(context.city) || '';
+  return code.toUpperCase().replace(/[^A-Z]/g, '').slice(0, 5) || 'XXX';
+}
+
+function genderCodeOf(gender?: string): string {
+  const g = String(gender || '').trim().toLowerCase();
+  if (g.startsWith('m')) return 'M';
+  if (g.startsWith('f')) return 'F';
+  return 'X';
+}
+
+/**
+ * Problems with a format, empty when it is usable. Ids end up in URLs and on
+ * invoices, so only letters, digits, "-", "_" and "/" are allowed around tokens.
+ */
+export function validateIdFormat(format: string): string[] {
+  const problems: string[] = [];
+  if (!format || format.length > MAX_FORMAT_LENGTH) {
+    problems.push(`format must be 1-${MAX_FORMAT_LENGTH} characters`);
+  }
+  let seqCount = 0;
+  for (const [, token, width] of format.matchAll(TOKEN_PATTERN)) {
+    if (!KNOWN_TOKENS.includes(token)) problems.push(`unknown token {${token}}`);
+    if (token === 'SEQ') seqCount += 1;
+    if (width !== undefined && (token !== 'SEQ' || Number(width) < 1 || Number(width) > MAX_SEQ_WIDTH)) {
+      problems.push(`only {SEQ} takes a width, between 1 and ${MAX_SEQ_WIDTH}`);
+    }
+  }
+  if (seqCount !== 1) problems.push('format must contain {SEQ} exactly once');
+  if (!/^[A-Za-z0-9\-_/]*$/.test(format.replace(TOKEN_PATTERN, ''))) {
+    problems.push('only letters, digits, "-", "_" and "/" are allowed outside tokens');
+  }
+  return problems;
+}
+
+/**
+ * Fill in everything but the sequence. The result with {SEQ} left in place is
+ * the counter's key, so e.g. every city gets its own run of numbers.
+ */
+function expandFormat(format: string, context: IdContext): { prefix: string; render: (seq: number) => string } {
+  const date = context.date || new Date();
+  let seqWidth = 0;
+  const prefix = format.replace(TOKEN_PATTERN, (match, token: string, width?: string) => {
+    switch (token) {
+      case 'CITY':
+        return resolveCityCode(context);
+      case 'GENDER':
+        return genderCodeOf(context.gender);
+      case 'YYYY':
+        return String(date.getFullYear());
+      case 'YY':
+        return String(date.getFullYear()).slice(-2);
+      case 'MM':
+        return String(date.getMonth() + 1).padStart(2, '0');
+      case 'SEQ':
+        seqWidth = width ? Number(width) : 0;
+        return '{SEQ}';
+      default:
+        return match;
+    }
+  });
+  return {
+    prefix,
+    render: (seq: number) => prefix.replace('{SEQ}', String(seq).padStart(seqWidth, '0')),
+  };
+}
+
+export async function getIdFormats(): Promise<IdFormats> {
+  const stored = await SystemSettings.getSetting(ID_FORMATS_SETTING_KEY, null);
+  const formats = { ...DEFAULT_ID_FORMATS };
+  if (!stored || typeof stored !== 'object') return formats;
+  // A format edited through the generic settings API may be unusable; keep the default then
+  Object.values(IdKind).forEach((kind) => {
+    const value = stored[kind];
+    if (typeof value === 'string' && validateIdFormat(value).length === 0) formats[kind] = value;
+  });
+  return formats;
+}
+
+async function isTaken(kind: IdKind, id: string, session?: mongoose.ClientSession): Promise<boolean> {
+  const target = ID_TARGETS[kind];
+  const query = mongoose.model(target.model).exists({ [target.path]: id });
+  if (session) query.session(session);
+  return Boolean(await query);
+}
+
+/**
+ * Allocate the next id of a kind from its atomic counter. Numbers already used
+ * by ids minted before the counters existed are skipped, so the result is
+ * unique. Pass the session when allocating inside a transaction.
+ */
+export async function allocateId(
+  kind: IdKind,
+  context: IdContext = {},
+  session?: mongoose.ClientSession
+): Promise<string> {
+  const formats = await getIdFormats();
+  const { prefix, render } = expandFormat(formats[kind], context);
+
+  for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt += 1) {
+    const seq = await Counter.next(`id:${kind}:${prefix}`, session);
+    const id = render(seq);
+    if (!(await isTaken(kind, id, session))) return id;
+  }
+  throw new InternalServerError(`Could not allocate a free ${kind} id for ${prefix}`);
+}
+
+/**
+ * The id the next allocation would most likely return, without consuming it.
+ * A different format can be passed to try it out before saving it.
+ */
+export async function previewId(kind: IdKind, context: IdContext = {}, format?: string): Promise<IdPreview> {
+  const chosen = format || (await getIdFormats())[kind];
+  if (format) {
+    const problems = validateIdFormat(format);
+    if (problems.length > 0) {
+      throw new ValidationError('Validation failed', problems.map((message) => ({ field: 'format', message })));
+    }
+  }
+
+  const { prefix, render } = expandFormat(chosen, context);
+  const counter = await Counter.findOne({ key: `id:${kind}:${prefix}` }).select('seq');
+  let seq = (counter?.seq || 0) + 1;
+  while (seq - (counter?.seq || 0) <= MAX_ALLOCATION_ATTEMPTS && (await isTaken(kind, render(seq)))) {
+    seq += 1;
+  }
+  return { kind, format: chosen, id: render(seq) };
+}
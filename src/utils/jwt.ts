@@ -1,6 +1,7 @@
 import jwt, { JsonWebTokenError, NotBeforeError, TokenExpiredError, SignOptions, Secret } from 'jsonwebtoken';
 import dotenv from 'dotenv';
 import { IUser } from '../models/User';
+import { ITutorLeadApplication } from '../models/TutorLeadApplication';
 import { UserRole } from '../types/enums';
 
 dotenv.config();
@@ -113,6 +114,141 @@ export function verifyRefreshToken(token: string): { userId: string } | null {
   }
 }
 
+export interface AttendanceApprovalPayload {
+  finalClassId: string;
+  sheetId: string;
+  nonce: string;
+}
+
+const ATTENDANCE_APPROVAL_PURPOSE = 'attendance_approval';
+
+// Parents have no account; a signed link lets them review one month's attendance.
+// The nonce ties it to the sheet so it works for one decision only.
+export function generateAttendanceApprovalToken(payload: AttendanceApprovalPayload): string {
+  try {
+    const secret = getEnv('JWT_SECRET') as Secret;
+    const options: SignOptions = {
+      expiresIn: (process.env.ATTENDANCE_APPROVAL_LINK_EXPIRES_IN as any) || '14d',
+      issuer: 'yourshikshak-api',
+      audience: 'yourshikshak-parents',
+    };
+    return jwt.sign({ ...payload, purpose: ATTENDANCE_APPROVAL_PURPOSE }, secret, options);
+  } catch (error) {
+    throw new Error('Failed to generate attendance approval token');
+  }
+}
+
+export function verifyAttendanceApprovalToken(token: string): AttendanceApprovalPayload | null {
+  try {
+    const decoded = jwt.verify(token, getEnv('JWT_SECRET'), {
+      issuer: 'yourshikshak-api',
+      audience: 'yourshikshak-parents',
+    }) as Partial<AttendanceApprovalPayload> & { purpose?: string };
+    if (
+      decoded?.purpose !== ATTENDANCE_APPROVAL_PURPOSE ||
+      !decoded.finalClassId ||
+      !decoded.sheetId ||
+      !decoded.nonce
+    ) {
+      return null;
+    }
+    return { finalClassId: decoded.finalClassId, sheetId: decoded.sheetId, nonce: decoded.nonce };
+  } catch (error) {
+    return null;
+  }
+}
+
+export interface TutorLeadJwtPayload {
+  applicationId: string;
+  email: string;
+  teacherId: string;
+  iat?: number;
+}
+
+// Tutor applicants are not Users; their tokens have their own audience and type
+const TUTOR_LEAD_AUDIENCE = 'yourshikshak-tutor-leads';
+const TUTOR_LEAD_ACCESS_TYPE = 'tutorLead';
+const TUTOR_LEAD_REFRESH_TYPE = 'tutorLeadRefresh';
+
+export function generateTutorLeadAccessToken(application: ITutorLeadApplication): string {
+  try {
+    const secret = getEnv('JWT_SECRET') as Secret;
+    const options: SignOptions = {
+      expiresIn: (process.env.JWT_EXPIRES_IN as any) || '1h',
+      issuer: 'yourshikshak-api',
+      audience: TUTOR_LEAD_AUDIENCE,
+    };
+    return jwt.sign(
+      {
+        sub: String(application._id),
+        email: application.email,
+        teacherId: application.teacherId,
+        type: TUTOR_LEAD_ACCESS_TYPE,
+      },
+      secret,
+      options
+    );
+  } catch (error) {
+    throw new Error('Failed to generate tutor lead access token');
+  }
+}
+
+export function generateTutorLeadRefreshToken(application: ITutorLeadApplication): string {
+  try {
+    const secret = getEnv('JWT_REFRESH_SECRET') as Secret;
+    const options: SignOptions = {
+      expiresIn: (process.env.JWT_REFRESH_EXPIRES_IN as any) || '30d',
+      issuer: 'yourshikshak-api',
+      audience: TUTOR_LEAD_AUDIENCE,
+    };
+    return jwt.sign({ sub: String(application._id), type: TUTOR_LEAD_REFRESH_TYPE }, secret, options);
+  } catch (error) {
+    throw new Error('Failed to generate tutor lead refresh token');
+  }
+}
+
+export function generateTutorLeadTokenPair(application: ITutorLeadApplication): TokenPair {
+  return {
+    accessToken: generateTutorLeadAccessToken(application),
+    refreshToken: generateTutorLeadRefreshToken(application),
+  };
+}
+
+export function verifyTutorLeadAccessToken(token: string): TutorLeadJwtPayload | null {
+  try {
+    const decoded = jwt.verify(token, getEnv('JWT_SECRET'), {
+      issuer: 'yourshikshak-api',
+      audience: TUTOR_LEAD_AUDIENCE,
+    }) as { sub?: string; email?: string; teacherId?: string; type?: string; iat?: number };
+    if (decoded?.type !== TUTOR_LEAD_ACCESS_TYPE || !decoded.sub) {
+      return null;
+    }
+    return {
+      applicationId: decoded.sub,
+      email: decoded.email || '',
+      teacherId: decoded.teacherId || '',
+      iat: decoded.iat,
+    };
+  } catch (error) {
+    return null;
+  }
+}
+
+export function verifyTutorLeadRefreshToken(token: string): { applicationId: string } | null {
+  try {
+    const decoded = jwt.verify(token, getEnv('JWT_REFRESH_SECRET'), {
+      issuer: 'yourshikshak-api',
+      audience: TUTOR_LEAD_AUDIENCE,
+    }) as { sub?: string; type?: string };
+    if (decoded?.type !== TUTOR_LEAD_REFRESH_TYPE || !decoded.sub) {
+      return null;
+    }
+    return { applicationId: decoded.sub };
+  } catch (error) {
+    return null;
+  }
+}
+
 export function decodeToken(token: string): JwtPayload | null {
   try {
     const decoded = jwt.decode(token) as JwtPayload | null;
@@ -129,6 +265,13 @@ export default {
   verifyAccessToken,
   verifyRefreshToken,
   decodeToken,
+  generateAttendanceApprovalToken,
+  verifyAttendanceApprovalToken,
+  generateTutorLeadAccessToken,
+  generateTutorLeadRefreshToken,
+  generateTutorLeadTokenPair,
+  verifyTutorLeadAccessToken,
+  verifyTutorLeadRefreshToken,
 };
 
 
@@ -0,0 +1,101 @@
+// Minimal single-column text PDF writer (PDF 1.4, built-in Helvetica fonts).
+// Enough for printable documents such as invoices without a PDF dependency.
+
+export interface PdfLine {
+  text: string;
+  size?: number; // points, default 10
+  bold?: boolean;
+  // Extra space above the line, in points
+  gap?: number;
+}
+
+const PAGE_WIDTH = 595; // A4
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_SPACING = 1.4;
+
+// Only WinAnsi text is available with the standard fonts
+function toPdfText(text: string): string {
+  return text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/([\\()])/g, '\\$1');
+}
+
+function paginate(lines: PdfLine[]): string[] {
+  const pages: string[] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  lines.forEach((line) => {
+    const size = line.size || 10;
+    const advance = size * LINE_SPACING + (line.gap || 0);
+    if (y - advance < MARGIN && ops.length > 0) {
+      pages.push(ops.join('\n'));
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= advance;
+    ops.push(
+      `BT /${line.bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${y.toFixed(1)} Td (${toPdfText(line.text)}) Tj ET`
+    );
+  });
+  pages.push(ops.join('\n'));
+  return pages;
+}
+
+/**
+ * Render lines of text into a PDF document, adding pages as needed.
+ */
+export function renderTextPdf(lines: PdfLine[]): Buffer {
+  const pages = paginate(lines);
+  const objects: string[] = [];
+  const add = (body: string): number => {
+    objects.push(body);
+    return objects.length;
+  };
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const fontId = add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>'
+  );
+  const boldFontId = add(
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>'
+  );
+
+  const pageIds = pages.map((content) => {
+    const contentId = add(
+      `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`
+    );
+    return add(
+      `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontId} 0 R /F2 ${boldFontId} 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+  });
+
+  objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+  objects[pagesId - 1] =
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${
+      pageIds.length
+    } >>`;
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, idx) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${idx + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  offsets.forEach((offset) => {
+    pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+  });
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+}
+
+export default { renderTextPdf };
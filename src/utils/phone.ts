@@ -0,0 +1,22 @@
+// Phone number helpers. Numbers are compared on their last 10 digits so that
+// "+91 98765-43210", "098765 43210" and "9876543210" are treated as the same.
+
+const NATIONAL_NUMBER_LENGTH = 10;
+
+export function normalizePhone(raw?: string | null): string | null {
+  if (!raw) return null;
+  const digits = String(raw).replace(/\D/g, '');
+  if (digits.length < NATIONAL_NUMBER_LENGTH) return null;
+  return digits.slice(-NATIONAL_NUMBER_LENGTH);
+}
+
+export function normalizePhones(...raws: Array<string | null | undefined>): string[] {
+  const set = new Set<string>();
+  raws.forEach((raw) => {
+    const n = normalizePhone(raw);
+    if (n) set.add(n);
+  });
+  return Array.from(set);
+}
+
+export default { normalizePhone, normalizePhones };
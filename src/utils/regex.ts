@@ -0,0 +1,6 @@
+// Escape user-supplied text before putting it into a MongoDB $regex
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export default { escapeRegex };
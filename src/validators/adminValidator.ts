@@ -1,6 +1,7 @@
 import { body, param, query, ValidationChain, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import { UserRole, AuditAction } from '../types/enums';
+import { IdKind } from '../utils/idAllocator';
 
 export const createUserValidation: ValidationChain[] = [
   body('email')
@@ -57,8 +58,10 @@ export const updateUserValidation: ValidationChain[] = [
     .withMessage('Last name must be 2-50 characters'),
   body('profile.phone').optional().isMobilePhone('any').withMessage('Invalid phone number'),
   body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  body('managedCities').optional().isArray({ max: 50 }).withMessage('managedCities must be an array of city names'),
+  body('managedCities.*').isString().trim().notEmpty().withMessage('City names must be non-empty strings'),
   body().custom((value, { req }) => {
-    if (!value.email && !value.role && !value.profile && value.isActive === undefined) {
+    if (!value.email && !value.role && !value.profile && value.isActive === undefined && value.managedCities === undefined) {
       throw new Error('At least one field must be provided for update');
     }
     return true;
@@ -133,6 +136,24 @@ export const updateSettingValidation: ValidationChain[] = [
   body('value').notEmpty().withMessage('Value is required'),
 ];
 
+export const updateIdFormatsValidation: ValidationChain[] = [
+  body().custom((value) => Object.values(IdKind).some((kind) => value?.[kind] !== undefined))
+    .withMessage(`Provide at least one of: ${Object.values(IdKind).join(', ')}`),
+  ...Object.values(IdKind).map((kind) =>
+    body(kind).optional().isString().trim().notEmpty().withMessage(`${kind} format must be a non-empty string`)
+  ),
+];
+
+export const previewIdValidation: ValidationChain[] = [
+  query('kind')
+    .isIn(Object.values(IdKind))
+    .withMessage(`kind must be one of: ${Object.values(IdKind).join(', ')}`),
+  query('cityCode').optional().trim().isAlpha().withMessage('cityCode must be letters'),
+  query('city').optional().isString().trim(),
+  query('gender').optional().isString().trim(),
+  query('format').optional().isString().trim(),
+];
+
 export const userIdParamValidation: ValidationChain[] = [
   param('id').isMongoId().withMessage('Invalid user ID'),
 ];
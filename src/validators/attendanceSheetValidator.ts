@@ -0,0 +1,64 @@
+import { body, param, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+
+const sheetParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid final class id'),
+  param('sheetId').isMongoId().withMessage('Invalid attendance sheet id'),
+];
+
+export const classAttendanceParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid final class id'),
+];
+
+export const logSessionValidation: ValidationChain[] = [
+  ...classAttendanceParamValidation,
+  body('date').isISO8601().withMessage('date is required').toDate(),
+  body('present').isBoolean().withMessage('present must be a boolean').toBoolean(),
+  body('durationMinutes')
+    .optional()
+    .isInt({ min: 1, max: 600 })
+    .withMessage('durationMinutes must be between 1 and 600')
+    .toInt(),
+  body('notes')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('notes must be at most 500 characters'),
+];
+
+export const attendanceSheetActionValidation: ValidationChain[] = [...sheetParamValidation];
+
+export const attendanceApprovalTokenValidation: ValidationChain[] = [
+  param('token').isJWT().withMessage('Invalid approval link'),
+];
+
+export const reviewAttendanceValidation: ValidationChain[] = [
+  ...attendanceApprovalTokenValidation,
+  body('decision').isIn(['approve', 'dispute']).withMessage('decision must be approve or dispute'),
+  body('comment')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('comment must be at most 1000 characters'),
+  body('comment')
+    .if(body('decision').equals('dispute'))
+    .notEmpty()
+    .withMessage('comment is required when disputing attendance'),
+];
+
+export function handleAttendanceSheetValidationErrors(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors
+      .array()
+      .map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}
@@ -0,0 +1,138 @@
+import { body, param, query, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+import { ClassStatus, TutorChangeReason } from '../models/FinalClass';
+import { GSTIN_PATTERN } from './invoiceValidator';
+
+export const finalClassIdParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid final class id'),
+];
+
+const conversionAccountRules = (field: 'student' | 'parent'): ValidationChain[] => [
+  body(`${field}.email`).if(body(field).exists()).isEmail().withMessage(`${field}.email must be a valid email`),
+  body(`${field}.password`)
+    .optional()
+    .isString()
+    .isLength({ min: 8 })
+    .withMessage(`${field}.password must be at least 8 characters`),
+  body(`${field}.firstName`).optional().isString().trim().isLength({ max: 100 }),
+  body(`${field}.lastName`).optional().isString().trim().isLength({ max: 100 }),
+  body(`${field}.phone`).optional().isString().trim().isLength({ max: 20 }),
+  body(`${field}.linkExisting`).optional().isBoolean().withMessage(`${field}.linkExisting must be a boolean`).toBoolean(),
+];
+
+export const convertLeadValidation: ValidationChain[] = [
+  body('leadId').isMongoId().withMessage('leadId is required'),
+  body('cityCode').trim().isAlpha().isLength({ min: 2, max: 5 }).withMessage('cityCode must be 2-5 letters'),
+  body('tutorAssigned').optional().isMongoId().withMessage('Invalid tutorAssigned'),
+  body('tutorTier').optional().isString().trim().isLength({ max: 50 }),
+  body('firstMonthStartDate').optional().isISO8601().withMessage('Invalid firstMonthStartDate').toDate(),
+  body('monthStartDate').optional().isISO8601().withMessage('Invalid monthStartDate').toDate(),
+  ...conversionAccountRules('student'),
+  ...conversionAccountRules('parent'),
+  body('invoice').optional().isObject().withMessage('invoice must be an object'),
+  body('invoice.lineItems').optional().isArray({ min: 1, max: 20 }).withMessage('invoice.lineItems must have 1 to 20 items'),
+  body('invoice.lineItems.*.description').isString().trim().notEmpty().withMessage('Line item description is required'),
+  body('invoice.lineItems.*.quantity').isFloat({ min: 0 }).withMessage('Line item quantity must be >= 0').toFloat(),
+  body('invoice.lineItems.*.unitPrice').isFloat({ min: 0 }).withMessage('Line item unitPrice must be >= 0').toFloat(),
+  body('invoice.gstRate').optional().isFloat({ min: 0, max: 28 }).withMessage('invoice.gstRate must be between 0 and 28').toFloat(),
+  body('invoice.interState').optional().isBoolean().toBoolean(),
+  body('invoice.customerGstin').optional({ values: 'falsy' }).trim().toUpperCase().matches(GSTIN_PATTERN).withMessage('invoice.customerGstin is not a valid GSTIN'),
+  body('invoice.notes').optional().isString().trim().isLength({ max: 1000 }),
+  body('invoice.paymentMode').optional().isString().trim().isLength({ max: 50 }),
+  body('invoice.paymentReference').optional().isString().trim().isLength({ max: 100 }),
+];
+
+export const listFinalClassesValidation: ValidationChain[] = [
+  query('classStatus')
+    .optional()
+    .isIn(Object.values(ClassStatus))
+    .withMessage('classStatus invalid'),
+  query('tutorAssigned').optional().isMongoId().withMessage('Invalid tutorAssigned'),
+  query('leadId').optional().isMongoId().withMessage('Invalid leadId'),
+  query('cityCode').optional().trim().isAlpha().withMessage('cityCode must be letters'),
+  query('renewalFrom').optional().isISO8601().withMessage('Invalid renewalFrom date').toDate(),
+  query('renewalTo').optional().isISO8601().withMessage('Invalid renewalTo date').toDate(),
+  query('renewsWithinDays')
+    .optional()
+    .isInt({ min: 0, max: 366 })
+    .withMessage('renewsWithinDays must be between 0 and 366')
+    .toInt(),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be >= 1').toInt(),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('limit must be between 1 and 100')
+    .toInt(),
+];
+
+export const updateFinalClassValidation: ValidationChain[] = [
+  ...finalClassIdParamValidation,
+  body('tutorTier')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('tutorTier must be at most 50 characters'),
+  body('firstMonthStartDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Invalid firstMonthStartDate')
+    .toDate(),
+  body('monthStartDate').optional().isISO8601().withMessage('Invalid monthStartDate').toDate(),
+  body('monthRenewDate').optional().isISO8601().withMessage('Invalid monthRenewDate').toDate(),
+  body('testDate').optional().isISO8601().withMessage('Invalid testDate').toDate(),
+  body('testTutorAssigned')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid testTutorAssigned'),
+];
+
+export const assignFinalClassTutorValidation: ValidationChain[] = [
+  ...finalClassIdParamValidation,
+  body('tutorId').isMongoId().withMessage('tutorId is required'),
+  body('tutorTier')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 50 })
+    .withMessage('tutorTier must be at most 50 characters'),
+];
+
+export const reassignFinalClassTutorValidation: ValidationChain[] = [
+  ...assignFinalClassTutorValidation,
+  body('reason')
+    .isIn(Object.values(TutorChangeReason))
+    .withMessage(`reason must be one of: ${Object.values(TutorChangeReason).join(', ')}`),
+  body('reasonNotes').optional().isString().trim().isLength({ max: 500 }),
+  body('effectiveDate').optional().isISO8601().withMessage('Invalid effectiveDate').toDate(),
+  body('handoverNotes').optional().isString().trim().isLength({ max: 2000 }),
+];
+
+export const changeFinalClassStatusValidation: ValidationChain[] = [
+  ...finalClassIdParamValidation,
+  body('reason')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('reason is required')
+    .isLength({ max: 500 }),
+];
+
+export const recordRenewalValidation: ValidationChain[] = [
+  ...finalClassIdParamValidation,
+  body('amount').isFloat({ min: 0 }).withMessage('amount must be >= 0').toFloat(),
+  body('paymentMode').optional().isString().trim().isLength({ max: 50 }),
+  body('paymentReference').optional().isString().trim().isLength({ max: 100 }),
+  body('paidAt').optional().isISO8601().withMessage('Invalid paidAt').toDate(),
+];
+
+export function handleFinalClassValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors
+      .array()
+      .map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}
@@ -0,0 +1,87 @@
+import { body, param, query, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+import { InvoiceStatus } from '../models/Invoice';
+
+export const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const lineItemRules: ValidationChain[] = [
+  body('lineItems').optional().isArray({ min: 1, max: 20 }).withMessage('lineItems must have 1 to 20 items'),
+  body('lineItems.*.description').isString().trim().notEmpty().withMessage('Line item description is required'),
+  body('lineItems.*.quantity').isFloat({ min: 0 }).withMessage('Line item quantity must be >= 0').toFloat(),
+  body('lineItems.*.unitPrice').isFloat({ min: 0 }).withMessage('Line item unitPrice must be >= 0').toFloat(),
+  body('gstRate').optional().isFloat({ min: 0, max: 28 }).withMessage('gstRate must be between 0 and 28').toFloat(),
+  body('interState').optional().isBoolean().withMessage('interState must be a boolean').toBoolean(),
+  body('customerGstin')
+    .optional({ values: 'falsy' })
+    .trim()
+    .toUpperCase()
+    .matches(GSTIN_PATTERN)
+    .withMessage('customerGstin is not a valid GSTIN'),
+  body('notes').optional().isString().trim().isLength({ max: 1000 }).withMessage('notes must be at most 1000 characters'),
+];
+
+export const invoiceIdParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid invoice id'),
+];
+
+export const createInvoiceValidation: ValidationChain[] = [
+  body('leadId').optional().isMongoId().withMessage('Invalid leadId'),
+  body('finalClassId').optional().isMongoId().withMessage('Invalid finalClassId'),
+  body().custom((value) => {
+    if (!value?.leadId && !value?.finalClassId) throw new Error('leadId or finalClassId is required');
+    return true;
+  }),
+  body('cityCode')
+    .optional()
+    .trim()
+    .isAlpha()
+    .isLength({ min: 2, max: 5 })
+    .withMessage('cityCode must be 2-5 letters')
+    .toUpperCase(),
+  body('periodStart').optional().isISO8601().withMessage('periodStart must be a date').toDate(),
+  ...lineItemRules,
+];
+
+export const updateInvoiceValidation: ValidationChain[] = [...invoiceIdParamValidation, ...lineItemRules];
+
+export const issueInvoiceValidation: ValidationChain[] = [
+  ...invoiceIdParamValidation,
+  body('dueDate').optional().isISO8601().withMessage('dueDate must be a date').toDate(),
+];
+
+export const payInvoiceValidation: ValidationChain[] = [
+  ...invoiceIdParamValidation,
+  body('paymentMode').optional().isString().trim().isLength({ max: 50 }),
+  body('paymentReference').optional().isString().trim().isLength({ max: 100 }),
+  body('paidAt').optional().isISO8601().withMessage('paidAt must be a date').toDate(),
+];
+
+export const voidInvoiceValidation: ValidationChain[] = [
+  ...invoiceIdParamValidation,
+  body('reason').isString().trim().notEmpty().withMessage('reason is required').isLength({ max: 500 }),
+];
+
+export const renderInvoiceValidation: ValidationChain[] = [
+  ...invoiceIdParamValidation,
+  query('format').optional().isIn(['html', 'pdf']).withMessage('format must be html or pdf'),
+];
+
+export const listInvoicesValidation: ValidationChain[] = [
+  query('status').optional().isIn(Object.values(InvoiceStatus)).withMessage('status invalid'),
+  query('leadId').optional().isMongoId().withMessage('Invalid leadId'),
+  query('finalClassId').optional().isMongoId().withMessage('Invalid finalClassId'),
+  query('cityCode').optional().trim().isAlpha().withMessage('cityCode must be letters'),
+  query('issuedFrom').optional().isISO8601().withMessage('Invalid issuedFrom date').toDate(),
+  query('issuedTo').optional().isISO8601().withMessage('Invalid issuedTo date').toDate(),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be >= 1').toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+];
+
+export function handleInvoiceValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors.array().map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}
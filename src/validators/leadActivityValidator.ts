@@ -0,0 +1,48 @@
+import { body, param, query, ValidationChain } from 'express-validator';
+import { LeadActivityType } from '../models/LeadActivity';
+import { FollowUpOutcome } from '../models/LeadFollowUp';
+
+export const createLeadActivityValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  body('type').isIn(Object.values(LeadActivityType)).withMessage('type invalid'),
+  body('content')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('content must be at most 2000 characters'),
+  body('call.outcome')
+    .optional()
+    .isIn(Object.values(FollowUpOutcome))
+    .withMessage('call.outcome invalid'),
+  body('call.durationMinutes')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('call.durationMinutes must be >= 0')
+    .toFloat(),
+  body('payment.amount')
+    .optional()
+    .isFloat({ min: 0 })
+    .withMessage('payment.amount must be >= 0')
+    .toFloat(),
+  body('payment.mode').optional().isString().trim(),
+  body('payment.reference').optional().isString().trim(),
+  body('demoFeedback.rating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('demoFeedback.rating must be 1-5')
+    .toInt(),
+  body('demoFeedback.tutor').optional().isMongoId().withMessage('Invalid demoFeedback.tutor id'),
+  body('occurredAt').optional().isISO8601().withMessage('occurredAt must be an ISO 8601 date'),
+];
+
+export const listLeadActivitiesValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  query('type').optional().isIn(Object.values(LeadActivityType)).withMessage('Invalid type filter'),
+  query('author').optional().isMongoId().withMessage('Invalid author id'),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be >= 1'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('limit must be between 1 and 100'),
+];
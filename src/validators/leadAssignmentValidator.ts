@@ -0,0 +1,31 @@
+import { body, param, ValidationChain } from 'express-validator';
+import { LeadAssignmentBalance, LeadAssignmentRuleType } from '../services/leadAssignmentService';
+
+export const reassignLeadValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  body('assigneeId').isMongoId().withMessage('assigneeId must be a valid user id'),
+  body('note')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('note must be at most 500 characters'),
+];
+
+export const updateAssignmentRulesValidation: ValidationChain[] = [
+  body('enabled').isBoolean().withMessage('enabled must be true or false').toBoolean(),
+  body('balanceBy')
+    .isIn(Object.values(LeadAssignmentBalance))
+    .withMessage(`balanceBy must be one of: ${Object.values(LeadAssignmentBalance).join(', ')}`),
+  body('rules').isArray({ max: 50 }).withMessage('rules must be an array (max 50)'),
+  body('rules.*.type')
+    .isIn(Object.values(LeadAssignmentRuleType))
+    .withMessage(`rule type must be one of: ${Object.values(LeadAssignmentRuleType).join(', ')}`),
+  body('rules.*.values').isArray({ min: 1 }).withMessage('rule values must be a non-empty array'),
+  body('rules.*.values.*').isString().trim().notEmpty().withMessage('rule values must be strings'),
+  body('rules.*.coordinators')
+    .optional()
+    .isArray()
+    .withMessage('rule coordinators must be an array'),
+  body('rules.*.coordinators.*').isMongoId().withMessage('Invalid coordinator id'),
+];
@@ -0,0 +1,56 @@
+import { body, param, query, ValidationChain } from 'express-validator';
+import { TuitionMode } from '../models/Lead';
+import { DemoOutcome } from '../models/LeadDemo';
+
+export const scheduleDemoValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  body('tutorId').isMongoId().withMessage('tutorId must be a valid user id'),
+  body('scheduledAt').isISO8601().withMessage('scheduledAt must be an ISO 8601 date'),
+  body('durationMinutes')
+    .optional()
+    .isInt({ min: 15, max: 240 })
+    .withMessage('durationMinutes must be between 15 and 240')
+    .toInt(),
+  body('mode').optional().isIn(Object.values(TuitionMode)).withMessage('mode invalid'),
+  body('notes')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('notes must be at most 1000 characters'),
+];
+
+export const tutorAvailabilityValidation: ValidationChain[] = [
+  query('tutorId').isMongoId().withMessage('tutorId must be a valid user id'),
+  query('scheduledAt').isISO8601().withMessage('scheduledAt must be an ISO 8601 date'),
+  query('durationMinutes')
+    .optional()
+    .isInt({ min: 15, max: 240 })
+    .withMessage('durationMinutes must be between 15 and 240'),
+];
+
+export const demoOutcomeValidation: ValidationChain[] = [
+  param('demoId').isMongoId().withMessage('Invalid demo id'),
+  body('outcome').isIn(Object.values(DemoOutcome)).withMessage('outcome invalid'),
+  body('parentFeedback')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('parentFeedback must be at most 2000 characters'),
+  body('parentRating')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('parentRating must be 1-5')
+    .toInt(),
+];
+
+export const cancelDemoValidation: ValidationChain[] = [
+  param('demoId').isMongoId().withMessage('Invalid demo id'),
+  body('reason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('reason must be at most 500 characters'),
+];
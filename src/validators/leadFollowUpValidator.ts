@@ -0,0 +1,51 @@
+import { body, param, query, ValidationChain } from 'express-validator';
+import { FollowUpOutcome, FollowUpStatus } from '../models/LeadFollowUp';
+
+export const createFollowUpValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  body('dueAt')
+    .notEmpty()
+    .withMessage('dueAt is required')
+    .isISO8601()
+    .withMessage('dueAt must be an ISO 8601 date'),
+  body('assignedTo').optional().isMongoId().withMessage('Invalid assignedTo user id'),
+  body('purpose')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('purpose must be at most 500 characters'),
+];
+
+export const listFollowUpsValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  query('status')
+    .optional()
+    .isIn(Object.values(FollowUpStatus))
+    .withMessage('Invalid status filter'),
+];
+
+export const myFollowUpsQueryValidation: ValidationChain[] = [
+  query('window')
+    .optional()
+    .isIn(['today', 'overdue'])
+    .withMessage('window must be today or overdue'),
+];
+
+export const completeFollowUpValidation: ValidationChain[] = [
+  param('followUpId').isMongoId().withMessage('Invalid follow-up id'),
+  body('outcome').isIn(Object.values(FollowUpOutcome)).withMessage('outcome invalid'),
+  body('outcomeNote')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('outcomeNote must be at most 1000 characters'),
+  body('nextAction')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('nextAction must be at most 500 characters'),
+  body('nextDueAt').optional().isISO8601().withMessage('nextDueAt must be an ISO 8601 date'),
+];
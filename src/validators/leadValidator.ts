@@ -1,6 +1,7 @@
-import { body, param, ValidationChain, validationResult } from 'express-validator';
+import { body, param, query, ValidationChain, validationResult } from 'express-validator';
 import { NextFunction, Request, Response } from 'express';
 import { LeadSource, LeadStatus, PreferredTutor, TuitionMode } from '../models/Lead';
+import { INITIAL_LEAD_STATUSES } from '../services/leadService';
 
 export const createLeadValidation: ValidationChain[] = [
   body('parentsName').notEmpty().withMessage('parentsName is required').trim(),
@@ -17,18 +18,25 @@ export const createLeadValidation: ValidationChain[] = [
     .withMessage('preferredTuitionMode invalid'),
   body('classLocation.addressText').optional().isString(),
   body('classLocation.googleMapLink').optional().isString(),
+  body('classLocation.city').optional().isString().trim(),
+  body('classLocation.area').optional().isString().trim(),
+  body('classLocation.pinCode')
+    .optional()
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('pinCode must be 6 digits'),
+  body('preferredTimeSlots').optional().isArray().withMessage('preferredTimeSlots must be an array of strings'),
   body('preferredTutor').isIn(Object.values(PreferredTutor)).withMessage('preferredTutor invalid'),
   body('fees').optional().isFloat({ min: 0 }).withMessage('fees must be >= 0'),
   body('demoTutor').optional().isString(),
   body('demoAt').optional().isISO8601().toDate(),
   body('parentsCustomizedDemands').optional().isString(),
   body('leadSource').isIn(Object.values(LeadSource)).withMessage('leadSource invalid'),
-  body('leadStatus').isIn(Object.values(LeadStatus)).withMessage('leadStatus invalid'),
+  body('leadStatus').optional().isIn(INITIAL_LEAD_STATUSES).withMessage(`leadStatus must be one of: ${INITIAL_LEAD_STATUSES.join(', ')}`),
   body('paymentReceived.received').isBoolean().withMessage('paymentReceived.received is required'),
   body('paymentReceived.amount').optional().isFloat({ min: 0 }).withMessage('amount must be >= 0'),
   body('mentorNote').optional().isString(),
-  body('leadAssignedTo').optional().isString(),
-  body('isConverted').optional().isBoolean(),
+  body('leadAssignedTo').optional().isMongoId().withMessage('Invalid leadAssignedTo id'),
   body('paymentMode').optional().isString(),
   body('invoiceId').optional().isString(),
 ];
@@ -37,6 +45,60 @@ export const leadIdParamValidation: ValidationChain[] = [
   param('id').isMongoId().withMessage('Invalid lead id'),
 ];
 
+export const listLeadsQueryValidation: ValidationChain[] = [
+  query('leadStatus').optional().isIn(Object.values(LeadStatus)).withMessage('leadStatus invalid'),
+  query('leadSource').optional().isIn(Object.values(LeadSource)).withMessage('leadSource invalid'),
+  query('preferredTuitionMode').optional().isIn(Object.values(TuitionMode)).withMessage('preferredTuitionMode invalid'),
+  query('subject').optional().isString().trim(),
+  query('classLevel').optional().isString().trim(),
+  query('board').optional().isString().trim(),
+  query('leadAssignedTo').optional().isMongoId().withMessage('Invalid leadAssignedTo id'),
+  query('isConverted').optional().isBoolean().withMessage('isConverted must be true or false').toBoolean(),
+  query('createdFrom').optional().isISO8601().toDate().withMessage('Invalid createdFrom date'),
+  query('createdTo').optional().isISO8601().toDate().withMessage('Invalid createdTo date'),
+  query('createdTo')
+    .optional()
+    .custom((value, { req }) => {
+      const q = req.query as any;
+      if (q?.createdFrom && value && new Date(value) < new Date(q.createdFrom)) {
+        throw new Error('createdTo must be after createdFrom');
+      }
+      return true;
+    }),
+  query('search').optional().isString().trim().isLength({ max: 100 }).withMessage('search must be at most 100 characters'),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be >= 1').toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+  query('cursor').optional().isString(),
+  query('cursor')
+    .optional()
+    .custom((_value, { req }) => {
+      if ((req.query as any)?.page) throw new Error('Use either page or cursor, not both');
+      return true;
+    }),
+];
+
+export const importLeadsValidation: ValidationChain[] = [
+  query('dryRun').optional().isBoolean().withMessage('dryRun must be true or false').toBoolean(),
+];
+
+export const tutorMatchesQueryValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+  query('minScore').optional().isInt({ min: 0, max: 100 }).withMessage('minScore must be between 0 and 100').toInt(),
+  query('includeApplications').optional().isBoolean().withMessage('includeApplications must be true or false').toBoolean(),
+];
+
+export const updateLeadStatusValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  body('status').isIn(Object.values(LeadStatus)).withMessage('status invalid'),
+  body('note').optional().isString().trim().isLength({ max: 1000 }).withMessage('note must be at most 1000 characters'),
+];
+
+export const mergeLeadValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid lead id'),
+  body('duplicateLeadId').isMongoId().withMessage('duplicateLeadId must be a valid lead id'),
+];
+
 export function handleLeadValidationErrors(req: Request, res: Response, next: NextFunction) {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
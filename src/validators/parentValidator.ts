@@ -0,0 +1,42 @@
+import { body, param, query, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+
+export const parentClassParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid final class id'),
+];
+
+export const parentReviewAttendanceValidation: ValidationChain[] = [
+  ...parentClassParamValidation,
+  param('sheetId').isMongoId().withMessage('Invalid attendance sheet id'),
+  body('decision').isIn(['approve', 'dispute']).withMessage('decision must be approve or dispute'),
+  body('comment').optional().isString().trim().isLength({ max: 1000 }).withMessage('comment must be at most 1000 characters'),
+  body('comment')
+    .if(body('decision').equals('dispute'))
+    .notEmpty()
+    .withMessage('comment is required when disputing attendance'),
+];
+
+export const parentInvoiceValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid invoice id'),
+  query('format').optional().isIn(['html', 'pdf']).withMessage('format must be html or pdf'),
+];
+
+export const raiseConcernValidation: ValidationChain[] = [
+  ...parentClassParamValidation,
+  body('subject').isString().trim().notEmpty().withMessage('subject is required').isLength({ max: 200 }).withMessage('subject must be at most 200 characters'),
+  body('message').isString().trim().notEmpty().withMessage('message is required').isLength({ max: 2000 }).withMessage('message must be at most 2000 characters'),
+];
+
+export const linkParentValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid final class id'),
+  body('parentId').isMongoId().withMessage('parentId must be a valid user id'),
+];
+
+export function handleParentValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors.array().map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}
@@ -0,0 +1,81 @@
+import { body, ValidationChain } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+import { PreferredTutor, TuitionMode } from '../models/Lead';
+import { normalizePhone } from '../utils/phone';
+
+// Hidden form input that people never see; only bots fill it in
+export const ENQUIRY_HONEYPOT_FIELD = 'website';
+
+export const ENQUIRY_ACCEPTED_MESSAGE = 'Thank you! Our team will contact you shortly.';
+
+// Plain HTML forms post lists as "Maths, Science"
+function toList(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  return value
+    .split(',')
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+const phoneCheck = (value: string) => {
+  if (!normalizePhone(value)) throw new Error('phone must contain at least 10 digits');
+  return true;
+};
+
+export const publicEnquiryValidation: ValidationChain[] = [
+  body('parentName').trim().notEmpty().withMessage('parentName is required').isLength({ max: 100 }),
+  body('studentName')
+    .trim()
+    .notEmpty()
+    .withMessage('studentName is required')
+    .isLength({ max: 100 }),
+  body('phone').trim().notEmpty().withMessage('phone is required').bail().custom(phoneCheck),
+  body('alternatePhone').optional({ values: 'falsy' }).isString().trim().custom(phoneCheck),
+  body('classLevel').trim().notEmpty().withMessage('classLevel is required').isLength({ max: 50 }),
+  body('board').trim().notEmpty().withMessage('board is required').isLength({ max: 50 }),
+  body('subjects')
+    .optional()
+    .customSanitizer(toList)
+    .isArray({ max: 10 })
+    .withMessage('subjects must be a list of at most 10'),
+  body('subjects.*').isString().trim().isLength({ min: 1, max: 50 }),
+  body('tuitionMode')
+    .isIn(Object.values(TuitionMode))
+    .withMessage(`tuitionMode must be one of: ${Object.values(TuitionMode).join(', ')}`),
+  body('preferredTutor')
+    .optional()
+    .isIn(Object.values(PreferredTutor))
+    .withMessage('preferredTutor invalid'),
+  body('city').optional().isString().trim().isLength({ max: 100 }),
+  body('area').optional().isString().trim().isLength({ max: 100 }),
+  body('pinCode')
+    .optional({ values: 'falsy' })
+    .trim()
+    .matches(/^\d{6}$/)
+    .withMessage('pinCode must be 6 digits'),
+  body('address').optional().isString().trim().isLength({ max: 500 }),
+  body('preferredTimeSlots')
+    .optional()
+    .customSanitizer(toList)
+    .isArray({ max: 10 })
+    .withMessage('preferredTimeSlots must be a list of at most 10'),
+  body('preferredTimeSlots.*').isString().trim().isLength({ min: 1, max: 50 }),
+  body('message')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 1000 })
+    .withMessage('message must be at most 1000 characters'),
+];
+
+/**
+ * Answer honeypot submissions exactly like real ones so bots get no signal,
+ * but never let them reach validation or the database.
+ */
+export function rejectHoneypotSubmissions(req: Request, res: Response, next: NextFunction) {
+  const trap = req.body?.[ENQUIRY_HONEYPOT_FIELD];
+  if (trap !== undefined && String(trap).trim() !== '') {
+    return res.status(202).json({ success: true, message: ENQUIRY_ACCEPTED_MESSAGE });
+  }
+  return next();
+}
@@ -1,5 +1,6 @@
 import { param, query, ValidationChain, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
+import { LeadSource } from '../models/Lead';
 
 export const studentIdParamValidation: ValidationChain[] = [
   param('id').isMongoId().withMessage('Invalid student ID'),
@@ -75,6 +76,13 @@ export const enrollmentTrendsQueryValidation: ValidationChain[] = [
     }),
 ];
 
+export const leadFunnelQueryValidation: ValidationChain[] = [
+  ...dateRangeQueryValidation,
+  query('leadSource').optional().isIn(Object.values(LeadSource)).withMessage('Invalid lead source'),
+  query('coordinatorId').optional().isMongoId().withMessage('Invalid coordinator ID'),
+  query('city').optional().isString().trim().isLength({ max: 100 }).withMessage('City must be at most 100 characters'),
+];
+
 export function handleReportValidationErrors(req: Request, res: Response, next: NextFunction) {
   const errors = validationResult(req);
   if (!errors.isEmpty()) {
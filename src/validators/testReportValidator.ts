@@ -0,0 +1,49 @@
+import { body, param, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+
+export const classTestParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid final class id'),
+];
+
+export const scheduleTestValidation: ValidationChain[] = [
+  ...classTestParamValidation,
+  body('testDate').isISO8601().withMessage('testDate is required').toDate(),
+  body('testTutorId').isMongoId().withMessage('testTutorId is required'),
+];
+
+export const addTestReportValidation: ValidationChain[] = [
+  ...classTestParamValidation,
+  body('monthLabel')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 3, max: 30 })
+    .withMessage('monthLabel must be like "July 2025"'),
+  body('notes')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('notes must be at most 2000 characters'),
+];
+
+export const updateTestReportValidation: ValidationChain[] = [
+  ...classTestParamValidation,
+  param('reportId').isMongoId().withMessage('Invalid test report id'),
+  body('notes')
+    .isString()
+    .trim()
+    .isLength({ max: 2000 })
+    .withMessage('notes must be at most 2000 characters'),
+];
+
+export function handleTestReportValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors
+      .array()
+      .map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}
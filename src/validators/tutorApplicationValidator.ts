@@ -0,0 +1,74 @@
+import { body, param, query, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+import {
+  ApplicationDocument,
+  ApplicationStatus,
+  DocumentCheckStatus,
+} from '../models/TutorLeadApplication';
+
+// ?subjects=Maths,Physics or repeated ?subjects=
+function toList(value: unknown): unknown {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .flatMap((v) => String(v).split(','))
+    .map((v) => v.trim())
+    .filter(Boolean);
+}
+
+export const applicationIdParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid application id'),
+];
+
+export const listApplicationsValidation: ValidationChain[] = [
+  query('status').optional().isIn(Object.values(ApplicationStatus)).withMessage('status invalid'),
+  query('city').optional().isString().trim().isLength({ max: 100 }),
+  query('subjects').optional().customSanitizer(toList).isArray({ max: 20 }).withMessage('subjects must be a list of at most 20'),
+  query('qualification').optional().isString().trim().isLength({ max: 100 }),
+  query('documentsUploaded').optional().isBoolean().withMessage('documentsUploaded must be true or false').toBoolean(),
+  query('search').optional().isString().trim().isLength({ max: 100 }).withMessage('search must be at most 100 characters'),
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be >= 1').toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+];
+
+export const checkDocumentValidation: ValidationChain[] = [
+  ...applicationIdParamValidation,
+  param('document').isIn(Object.values(ApplicationDocument)).withMessage('document must be aadhar or avatar'),
+  body('status')
+    .isIn([DocumentCheckStatus.VERIFIED, DocumentCheckStatus.REJECTED])
+    .withMessage('status must be verified or rejected'),
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('note must be at most 500 characters'),
+  body('note')
+    .if(body('status').equals(DocumentCheckStatus.REJECTED))
+    .notEmpty()
+    .withMessage('note is required when rejecting a document'),
+];
+
+export const requestChangesValidation: ValidationChain[] = [
+  ...applicationIdParamValidation,
+  body('note').isString().trim().notEmpty().withMessage('note is required').isLength({ max: 1000 }).withMessage('note must be at most 1000 characters'),
+];
+
+export const approveApplicationValidation: ValidationChain[] = [
+  ...applicationIdParamValidation,
+  body('note').optional().isString().trim().isLength({ max: 1000 }).withMessage('note must be at most 1000 characters'),
+];
+
+export const rejectApplicationValidation: ValidationChain[] = [
+  ...applicationIdParamValidation,
+  body('reason').isString().trim().notEmpty().withMessage('reason is required').isLength({ max: 1000 }).withMessage('reason must be at most 1000 characters'),
+];
+
+export const promoteApplicationValidation: ValidationChain[] = [
+  ...applicationIdParamValidation,
+  body('note').optional().isString().trim().isLength({ max: 500 }).withMessage('note must be at most 500 characters'),
+  body('linkExistingAccount').optional().isBoolean().withMessage('linkExistingAccount must be a boolean').toBoolean(),
+];
+
+export function handleTutorApplicationValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors.array().map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}
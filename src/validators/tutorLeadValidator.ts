@@ -15,3 +15,22 @@ export const createTutorLeadValidation: ValidationChain[] = [
   body('pincode').matches(/^\d{6}$/).withMessage('Pincode must be 6 digits'),
   body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
 ];
+
+// Applicant passwords keep the rule they signed up with, not the staff account rule
+const applicantPassword = (field: string) =>
+  body(field).isLength({ min: 6 }).withMessage('Password must be at least 6 characters');
+
+export const tutorLeadForgotPasswordValidation: ValidationChain[] = [
+  body('email').isEmail().withMessage('Valid email is required').normalizeEmail().trim(),
+];
+
+export const tutorLeadResetPasswordValidation: ValidationChain[] = [
+  body('token').isString().withMessage('Reset token must be a string').notEmpty().withMessage('Reset token is required'),
+  applicantPassword('password'),
+];
+
+export const tutorLeadChangePasswordValidation: ValidationChain[] = [
+  body('currentPassword').notEmpty().withMessage('Current password is required'),
+  applicantPassword('newPassword'),
+  body('confirmPassword').custom((value, { req }) => value === req.body.newPassword).withMessage('Passwords do not match'),
+];
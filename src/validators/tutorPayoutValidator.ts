@@ -0,0 +1,78 @@
+import { body, param, query, ValidationChain, validationResult } from 'express-validator';
+import { NextFunction, Request, Response } from 'express';
+
+const PAYMENT_STATUSES = ['Paid', 'Pending', 'Upcoming'];
+
+export const payoutIdParamValidation: ValidationChain[] = [
+  param('id').isMongoId().withMessage('Invalid payout id'),
+];
+
+const dateRangeValidation: ValidationChain[] = [
+  query('from').optional().isISO8601().withMessage('from must be a date'),
+  query('to').optional().isISO8601().withMessage('to must be a date'),
+];
+
+export const updatePayoutRatesValidation: ValidationChain[] = [
+  body('hourlyRates')
+    .custom((value) => typeof value === 'object' && value !== null && !Array.isArray(value))
+    .withMessage('hourlyRates must be an object of tier to hourly rate'),
+  body('defaultSessionMinutes')
+    .optional()
+    .isInt({ min: 1, max: 600 })
+    .withMessage('defaultSessionMinutes must be between 1 and 600')
+    .toInt(),
+];
+
+export const generatePayoutsValidation: ValidationChain[] = [
+  body('month')
+    .optional()
+    .matches(/^\d{4}-(0[1-9]|1[0-2])$/)
+    .withMessage('month must be YYYY-MM'),
+  body('finalClassId').optional().isMongoId().withMessage('Invalid final class id'),
+];
+
+export const listPayoutsValidation: ValidationChain[] = [
+  query('status').optional().isIn(PAYMENT_STATUSES).withMessage(`status must be one of: ${PAYMENT_STATUSES.join(', ')}`),
+  query('tutorId').optional().isMongoId().withMessage('Invalid tutor id'),
+  query('finalClassId').optional().isMongoId().withMessage('Invalid final class id'),
+  query('paymentCycle').optional().isString().trim().isLength({ max: 50 }),
+  ...dateRangeValidation,
+  query('page').optional().isInt({ min: 1 }).withMessage('page must be >= 1').toInt(),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('limit must be between 1 and 100').toInt(),
+];
+
+export const addAdjustmentValidation: ValidationChain[] = [
+  ...payoutIdParamValidation,
+  body('kind').isIn(['addition', 'deduction']).withMessage('kind must be addition or deduction'),
+  body('amount').isFloat({ gt: 0 }).withMessage('amount must be greater than 0').toFloat(),
+  body('reason').isString().trim().notEmpty().withMessage('reason is required').isLength({ max: 500 }).withMessage('reason must be at most 500 characters'),
+];
+
+export const removeAdjustmentValidation: ValidationChain[] = [
+  ...payoutIdParamValidation,
+  param('adjustmentId').isMongoId().withMessage('Invalid adjustment id'),
+];
+
+export const payPayoutValidation: ValidationChain[] = [
+  ...payoutIdParamValidation,
+  body('paymentReference').isString().trim().notEmpty().withMessage('paymentReference is required').isLength({ max: 100 }),
+  body('paymentMode').optional().isString().trim().isLength({ max: 50 }),
+  body('paidAt').optional().isISO8601().withMessage('paidAt must be a date'),
+  body('notes').optional().isString().trim().isLength({ max: 500 }).withMessage('notes must be at most 500 characters'),
+];
+
+export const myStatementValidation: ValidationChain[] = [...dateRangeValidation];
+
+export const tutorStatementValidation: ValidationChain[] = [
+  param('tutorId').isMongoId().withMessage('Invalid tutor id'),
+  ...dateRangeValidation,
+];
+
+export function handleTutorPayoutValidationErrors(req: Request, res: Response, next: NextFunction) {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    const formatted = errors.array().map((err) => ({ field: (err as any).path ?? (err as any).param, message: err.msg }));
+    return res.status(400).json({ success: false, errors: formatted });
+  }
+  return next();
+}